@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { downloadFile } from './exportData';
+import { parseScenarioFile, serializeScenarios, type NamedScenario, type Scenario } from './scenario';
+import { classicScenarios, loadSavedScenarios, storeSavedScenarios, withScenario } from './scenarioLibrary';
+
+interface ScenarioLibraryProps {
+    // The scenario on screen, for saving
+    current: () => Scenario;
+    onLoad: (scenario: Scenario) => void;
+    disabled?: boolean;
+}
+
+// Pick, save, import and export named scenarios. Classic examples ship with
+// the app; the user's own are kept in localStorage.
+const ScenarioLibrary = ({ current, onLoad, disabled = false }: ScenarioLibraryProps) => {
+    const [saved, setSaved] = useState<NamedScenario[]>([]);
+    const [selected, setSelected] = useState('classic:0');
+    const [saveName, setSaveName] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+
+    // localStorage only exists in the browser, so read it after mounting
+    useEffect(() => {
+        setSaved(loadSavedScenarios());
+    }, []);
+
+    // Store first, so a full localStorage leaves the list on screen unchanged
+    const updateSaved = (scenarios: NamedScenario[]) => {
+        storeSavedScenarios(scenarios);
+        setSaved(scenarios);
+    };
+
+    const [group, key] = selected.split(/:(.*)/);
+    const selectedEntry = group === 'classic'
+        ? classicScenarios[parseInt(key)]
+        : saved.find(s => s.name === key);
+
+    const handleSave = () => {
+        const name = saveName.trim();
+        if (!name) return;
+        // Voters are recreated from the seed, so they are not stored
+        const scenario = current();
+        delete scenario.voters;
+        updateSaved(withScenario(saved, { name, scenario }));
+        setSelected(`saved:${name}`);
+        setSaveName('');
+    };
+
+    const handleImport = (file: File) => {
+        file.text().then(text => {
+            try {
+                const imported = parseScenarioFile(text);
+                // As when saving, leave out voters: exported files can carry thousands
+                imported.forEach(entry => delete entry.scenario.voters);
+                updateSaved(imported.reduce(withScenario, saved));
+                setSelected(`saved:${imported[0].name}`);
+                setImportError(null);
+            } catch (error) {
+                setImportError(error instanceof Error ? error.message : String(error));
+            }
+        });
+    };
+
+    return (
+        <div className="flex flex-col gap-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="font-medium">Scenario:</label>
+                <select
+                    value={selected}
+                    onChange={(e) => setSelected(e.target.value)}
+                    disabled={disabled}
+                    className="px-2 py-1 border rounded"
+                >
+                    <optgroup label="Classic examples">
+                        {classicScenarios.map((entry, i) => (
+                            <option key={entry.name} value={`classic:${i}`}>{entry.name}</option>
+                        ))}
+                    </optgroup>
+                    {saved.length > 0 && (
+                        <optgroup label="Saved">
+                            {saved.map(entry => (
+                                <option key={entry.name} value={`saved:${entry.name}`}>{entry.name}</option>
+                            ))}
+                        </optgroup>
+                    )}
+                </select>
+                <button
+                    onClick={() => selectedEntry && onLoad(selectedEntry.scenario)}
+                    disabled={disabled || !selectedEntry}
+                    className="px-3 py-1 bg-purple-500 hover:bg-purple-600 text-white rounded disabled:bg-gray-300"
+                >
+                    Load
+                </button>
+                {group === 'saved' && selectedEntry && (
+                    <button
+                        onClick={() => {
+                            updateSaved(saved.filter(s => s.name !== key));
+                            setSelected('classic:0');
+                        }}
+                        className="px-3 py-1 text-red-500 hover:text-red-700"
+                    >
+                        Delete
+                    </button>
+                )}
+            </div>
+            {selectedEntry?.description && <p className="text-sm text-gray-600">{selectedEntry.description}</p>}
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    type="text"
+                    value={saveName}
+                    onChange={(e) => setSaveName(e.target.value)}
+                    placeholder="Scenario name"
+                    className="px-2 py-1 border rounded"
+                />
+                <button
+                    onClick={handleSave}
+                    disabled={disabled || !saveName.trim()}
+                    className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded disabled:text-gray-400"
+                >
+                    Save Current
+                </button>
+                <button
+                    onClick={() => downloadFile('scenarios.json', serializeScenarios(saved), 'application/json')}
+                    disabled={saved.length === 0}
+                    className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded disabled:text-gray-400"
+                >
+                    Export Saved
+                </button>
+                <label className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded cursor-pointer">
+                    Import JSON
+                    <input
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImport(file);
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+            </div>
+            {importError && <p className="text-sm text-red-600">Could not import scenarios: {importError}</p>}
+        </div>
+    );
+};
+
+export default ScenarioLibrary;
@@ -1,13 +1,27 @@
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { VotingMethod } from './election';
+import { downloadFile } from './exportData';
+import { canvasToPng, canvasWithLegend, mapToSvg, sampleWinners } from './mapExport';
+import { createMapWinner, NO_WINNER_ID, splitTiles, type MapSpec } from './mapRender';
+import { createBrowserMapWorkerPool, type MapWorkerPool } from './mapWorkerPool';
+import { DEFAULT_SEED } from './random';
+import { DEFAULT_VOTER_COUNT, SCENARIO_VERSION, type Scenario } from './scenario';
+import ScenarioLibrary from './ScenarioLibrary';
+import { decodeScenarioQuery, encodeScenarioQuery, replaceScenarioQuery, URL_UPDATE_DELAY } from './scenarioUrl';
+import { DEFAULT_SPACE } from './space';
+import { tieBreakPolicies } from './tieBreaking';
+import type { Candidate, ElectionOptions, ScoreNormalization, ScoreScale, TieBreakPolicy } from './types';
+import { distance, methods } from './votingMethods';
 
 const NORMAL_SD = 0.15;
 const CANVAS_SIZE = 300;
-const CHUNK_SIZE = 10; // Smaller chunks for smoother rendering
-const VOTER_RADIUS = 0.15; // Radius of voter influence
+const SUPERSAMPLES = 4; // Samples per pixel along each axis at winner boundaries
 
 interface CacheKey {
     candidates: Array<{ id: string; x: number; y: number; color: string }>;
     method: string;
+    options: ElectionOptions;
 }
 
 interface ResultCache {
@@ -26,18 +40,8 @@ const resultCache = new Map<string, ResultCache>();
 //     return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
 // };
 
-// Calculate weighted vote based on distance
-const getWeight = (dist: number, radius: number): number => {
-    if (dist >= radius) return 0;
-    // Smooth falloff using cosine
-    return 0.5 * (1 + Math.cos(Math.PI * dist / radius));
-};
-
-const distance = (x1: number, y1: number, x2: number, y2: number): number =>
-    Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
-
 // Generate cache key from current configuration
-const generateCacheKey = (candidates: CacheKey['candidates'], method: string): string => {
+const generateCacheKey = (candidates: CacheKey['candidates'], method: string, options: ElectionOptions): string => {
     const config = {
         candidates: candidates.map(c => ({
             id: c.id,
@@ -45,7 +49,8 @@ const generateCacheKey = (candidates: CacheKey['candidates'], method: string): s
             y: Math.round(c.y * 100) / 100,
             color: c.color
         })),
-        method
+        method,
+        options
     };
     return JSON.stringify(config);
 };
@@ -83,178 +88,109 @@ const generateVoterPattern = (count: number = 100) => {
 // Create our fixed voter pattern
 const VOTER_PATTERN = generateVoterPattern();
 
+// The pattern as offsets for the map renderer, which moves it to each point
+const VOTER_OFFSETS = VOTER_PATTERN.map(({ dx, dy }) => [dx, dy]);
+
+// Every method gets its own map
+const GRID_METHODS = Object.keys(methods) as VotingMethod[];
+
 const VotingMethodComparisonGrid = () => {
-    const [candidates, setCandidates] = useState([
+    // Candidates and the approval threshold from a shared link replace the defaults on load
+    const searchParams = useSearchParams();
+    const [candidates, setCandidates] = useState(() => decodeScenarioQuery(searchParams.toString()).candidates ?? [
         { id: '1', x: 0.3, y: 0.7, color: '#22c55e', name: 'A' },
         { id: '2', x: 0.5, y: 0.5, color: '#ef4444', name: 'B' },
         { id: '3', x: 0.7, y: 0.3, color: '#3b82f6', name: 'C' },
     ]);
+    const [approvalThreshold, setApprovalThreshold] = useState(
+        () => decodeScenarioQuery(searchParams.toString()).approvalThreshold ?? 0.3
+    );
 
-    // Preset configurations
-    const presets = {
-        spoiler: [
-            { id: '1', x: 0.3, y: 0.5, color: '#22c55e', name: 'Progressive A' },
-            { id: '2', x: 0.7, y: 0.5, color: '#3b82f6', name: 'Conservative' },
-            { id: '3', x: 0.4, y: 0.5, color: '#ef4444', name: 'Progressive B' },
-        ],
-        default: [
-            { id: '1', x: 0.3, y: 0.7, color: '#22c55e', name: 'A' },
-            { id: '2', x: 0.5, y: 0.5, color: '#ef4444', name: 'B' },
-            { id: '3', x: 0.7, y: 0.3, color: '#3b82f6', name: 'C' },
-        ]
-    };
+    // Keep the candidates and threshold in the URL, leaving any other shared settings as they are
+    useEffect(() => {
+        const timer = setTimeout(() => replaceScenarioQuery(encodeScenarioQuery({
+            ...decodeScenarioQuery(window.location.search),
+            candidates,
+            approvalThreshold
+        })), URL_UPDATE_DELAY);
+        return () => clearTimeout(timer);
+    }, [candidates, approvalThreshold]);
+
+    const defaultCandidates = [
+        { id: '1', x: 0.3, y: 0.7, color: '#22c55e', name: 'A' },
+        { id: '2', x: 0.5, y: 0.5, color: '#ef4444', name: 'B' },
+        { id: '3', x: 0.7, y: 0.3, color: '#3b82f6', name: 'C' },
+    ];
 
     const availableColors = [
         '#22c55e', '#ef4444', '#3b82f6', '#f59e0b', '#8b5cf6',
         '#ec4899', '#10b981', '#6366f1', '#f97316', '#06b6d4'
     ];
 
-    const canvasRefs = {
-        plurality: useRef<HTMLCanvasElement>(null),
-        approval: useRef<HTMLCanvasElement>(null),
-        irv: useRef<HTMLCanvasElement>(null)
-    };
+    const canvasRefs = useRef<Partial<Record<VotingMethod, HTMLCanvasElement | null>>>({});
 
     const [isComputing, setIsComputing] = useState(false);
     const [isDragging, setIsDragging] = useState<string | null>(null);
     const renderingRef = useRef(false);
+    const mapPool = useRef<MapWorkerPool | null>(null);
+    // Settles the map render in progress early when computing is stopped
+    const stopRender = useRef<(() => void) | null>(null);
     const [computeProgress, setComputeProgress] = useState(0);
-
-    const runElection = useCallback((method: string, centerX: number, centerY: number) => {
-        const votes: Record<string, number> = {};
-        candidates.forEach(c => votes[c.id] = 0);
-
-        if (method === 'plurality') {
-            // For each candidate, calculate their weighted influence at this point
-            const weights = candidates.map(candidate => ({
-                id: candidate.id,
-                weight: getWeight(distance(centerX, centerY, candidate.x, candidate.y), VOTER_RADIUS)
-            }));
-
-            // Winner is the candidate with highest weight
-            const winner = weights.reduce((a, b) => a.weight > b.weight ? a : b);
-            return winner.id;
-
-        } else if (method === 'approval') {
-            const threshold = 0.3;
-            candidates.forEach(candidate => {
-                const dist = distance(centerX, centerY, candidate.x, candidate.y);
-                if (dist <= threshold) {
-                    votes[candidate.id] = getWeight(dist, threshold);
-                }
-            });
-
-            // Winner is candidate with highest approval weight
-            return Object.entries(votes).reduce((a, b) => b[1] > a[1] ? b : a)[0];
-
-        } else if (method === 'irv') {
-            // Calculate distances to all candidates
-            const distances = candidates.map(candidate => ({
-                id: candidate.id,
-                dist: distance(centerX, centerY, candidate.x, candidate.y)
-            }));
-
-            // Sort by distance and weight by position
-            return distances
-                .sort((a, b) => a.dist - b.dist)
-                .map(c => c.id)[0];
-        }
-
-        return candidates[0].id; // Fallback
-    }, [candidates]);
-
-    const drawCanvas = useCallback((canvasRef: React.RefObject<HTMLCanvasElement>, method: string) => {
-        const canvas = canvasRef.current;
-        if (!canvas) return;
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
-
-        const imageData = ctx.createImageData(CANVAS_SIZE, CANVAS_SIZE);
-        const data = imageData.data;
-
-        // Pre-calculate candidate colors
-        const candidateColors = candidates.reduce((acc, candidate) => {
-            const rgb = parseInt(candidate.color.slice(1), 16);
-            acc[candidate.id] = {
-                r: (rgb >> 16) & 255,
-                g: (rgb >> 8) & 255,
-                b: rgb & 255
-            };
-            return acc;
-        }, {} as Record<string, { r: number, g: number, b: number }>);
-
-        // Draw with anti-aliasing
-        for (let y = 0; y < CANVAS_SIZE; y += 1) {
-            for (let x = 0; x < CANVAS_SIZE; x += 1) {
-                // Use supersampling for anti-aliasing
-                const samples = 4;
-                const colors = new Map<string, number>();
-
-                for (let sx = 0; sx < samples; sx++) {
-                    for (let sy = 0; sy < samples; sy++) {
-                        const px = (x + (sx + 0.5) / samples) / CANVAS_SIZE;
-                        const py = 1 - (y + (sy + 0.5) / samples) / CANVAS_SIZE;
-
-                        const winnerId = runElection(method, px, py);
-                        colors.set(winnerId, (colors.get(winnerId) || 0) + 1);
-                    }
-                }
-
-                // Blend colors based on sample counts
-                let r = 0, g = 0, b = 0;
-                for (const [id, count] of colors.entries()) {
-                    const color = candidateColors[id];
-                    const weight = count / (samples * samples);
-                    r += color.r * weight;
-                    g += color.g * weight;
-                    b += color.b * weight;
-                }
-
-                const idx = (y * CANVAS_SIZE + x) * 4;
-                data[idx] = r;
-                data[idx + 1] = g;
-                data[idx + 2] = b;
-                data[idx + 3] = 255;
-            }
-
-            // Update progress more frequently
-            if (y % 10 === 0) {
-                ctx.putImageData(imageData, 0, 0);
-            }
+    const [tieBreakPolicy, setTieBreakPolicy] = useState<TieBreakPolicy>('candidateOrder');
+    const [scoreScale, setScoreScale] = useState<ScoreScale>(5);
+    const [scoreNormalization, setScoreNormalization] = useState<ScoreNormalization>('minMax');
+    const [scoreRadius, setScoreRadius] = useState(0.5);
+
+    const electionOptions = useMemo<ElectionOptions>(() => ({
+        approvalThreshold,
+        scoreScale,
+        scoreNormalization,
+        scoreRadius,
+        tieBreakPolicy
+    }), [approvalThreshold, scoreScale, scoreNormalization, scoreRadius, tieBreakPolicy]);
+
+    // Each point's colour is the winner of an election among VOTER_PATTERN moved to centre on it
+    const gridSpec = useCallback((method: VotingMethod): MapSpec => ({
+        candidates,
+        method,
+        approvalThreshold,
+        scoreScale,
+        scoreNormalization,
+        scoreRadius,
+        frontRunners: null,
+        space: DEFAULT_SPACE,
+        sliceAxes: [0, 1],
+        sliceValues: [0.5, 0.5],
+        electorate: {
+            spread: NORMAL_SD,
+            voterCount: VOTER_OFFSETS.length,
+            seed: DEFAULT_SEED,
+            offsets: VOTER_OFFSETS,
+            options: electionOptions
         }
+    }), [candidates, approvalThreshold, scoreScale, scoreNormalization, scoreRadius, electionOptions]);
 
-        ctx.putImageData(imageData, 0, 0);
-
-        // Draw candidates
-        candidates.forEach(candidate => {
-            ctx.beginPath();
-            ctx.arc(
-                candidate.x * CANVAS_SIZE,
-                (1 - candidate.y) * CANVAS_SIZE,
-                6,
-                0,
-                2 * Math.PI
-            );
-            ctx.fillStyle = 'white';
-            ctx.fill();
-            ctx.strokeStyle = candidate.color;
-            ctx.lineWidth = 2;
-            ctx.stroke();
-
-            // Draw candidate label
-            ctx.fillStyle = 'black';
-            ctx.font = '12px sans-serif';
-            ctx.textAlign = 'center';
-            ctx.fillText(candidate.name, candidate.x * CANVAS_SIZE, (1 - candidate.y) * CANVAS_SIZE + 20);
-        });
-    }, [candidates, runElection]);
-
-    const computeAndCacheResults = useCallback(async (method: string, canvas: HTMLCanvasElement) => {
+    // Render workers live as long as the component
+    useEffect(() => {
+        const pool = createBrowserMapWorkerPool();
+        mapPool.current = pool;
+        return () => {
+            pool.dispose();
+            mapPool.current = null;
+        };
+    }, []);
+
+    // Draw one method's map in the render workers, tile by tile, reporting the fraction done
+    const computeAndCacheResults = useCallback(async (
+        method: VotingMethod,
+        canvas: HTMLCanvasElement,
+        onProgress: (fraction: number) => void
+    ) => {
         const ctx = canvas.getContext('2d');
-        if (!ctx) return;
+        const pool = mapPool.current;
+        if (!ctx || !pool) return;
 
-        const cacheKey = generateCacheKey(candidates, method);
+        const cacheKey = generateCacheKey(candidates, method, electionOptions);
         const cached = resultCache.get(cacheKey);
 
         if (cached) {
@@ -263,57 +199,26 @@ const VotingMethodComparisonGrid = () => {
             return;
         }
 
-        const imageData = ctx.createImageData(CANVAS_SIZE, CANVAS_SIZE);
-        const data = imageData.data;
-
-        const candidateColors = candidates.reduce((acc, candidate) => {
-            const rgb = parseInt(candidate.color.slice(1), 16);
-            acc[candidate.id] = {
-                r: (rgb >> 16) & 255,
-                g: (rgb >> 8) & 255,
-                b: rgb & 255
-            };
-            return acc;
-        }, {} as Record<string, { r: number, g: number, b: number }>);
-
-        let x = 0;
-        let y = 0;
-
-        while (y < CANVAS_SIZE && renderingRef.current) {
-            const endX = Math.min(x + CHUNK_SIZE, CANVAS_SIZE);
-            const endY = Math.min(y + CHUNK_SIZE, CANVAS_SIZE);
-
-            for (let currentY = y; currentY < endY; currentY++) {
-                for (let currentX = x; currentX < endX; currentX++) {
-                    const centerX = currentX / CANVAS_SIZE;
-                    const centerY = 1 - (currentY / CANVAS_SIZE);
-
-                    const winnerId = runElection(method, centerX, centerY);
-                    const color = candidateColors[winnerId];
-
-                    const idx = (currentY * CANVAS_SIZE + currentX) * 4;
-                    data[idx] = color.r;
-                    data[idx + 1] = color.g;
-                    data[idx + 2] = color.b;
-                    data[idx + 3] = 255;
-                }
-            }
-
-            ctx.putImageData(imageData, 0, 0);
-
-            // Update progress
-            const progress = (y * CANVAS_SIZE + x) / (CANVAS_SIZE * CANVAS_SIZE);
-            setComputeProgress(Math.round(progress * 100));
-
-            x += CHUNK_SIZE;
-            if (x >= CANVAS_SIZE) {
-                x = 0;
-                y += CHUNK_SIZE;
-            }
+        const tileCount = splitTiles(CANVAS_SIZE, CANVAS_SIZE).length;
+        let tilesDone = 0;
+        const finished = await new Promise<boolean>(resolve => {
+            stopRender.current = () => resolve(false);
+            pool.render(
+                gridSpec(method),
+                CANVAS_SIZE,
+                CANVAS_SIZE,
+                (tile, pixels) => {
+                    ctx.putImageData(new ImageData(pixels, tile.width, tile.height), tile.x, tile.y);
+                    onProgress(++tilesDone / tileCount);
+                },
+                () => resolve(true),
+                SUPERSAMPLES
+            );
+        });
+        stopRender.current = null;
 
-            // Allow UI to update
-            await new Promise(resolve => setTimeout(resolve, 0));
-        }
+        // A cancelled map is left unfinished and uncached
+        if (!finished) return;
 
         // Cache the result
         resultCache.set(cacheKey, {
@@ -322,7 +227,7 @@ const VotingMethodComparisonGrid = () => {
         });
 
         drawCandidates(ctx);
-    }, [candidates, runElection]);
+    }, [candidates, electionOptions, gridSpec]);
 
     const drawCandidates = (ctx: CanvasRenderingContext2D) => {
         candidates.forEach(candidate => {
@@ -347,32 +252,20 @@ const VotingMethodComparisonGrid = () => {
         });
     };
 
+    // Draw the maps one method after another, so progress counts across all of them
     const handleCompute = async () => {
         setIsComputing(true);
         setComputeProgress(0);
         renderingRef.current = true;
 
         try {
-            await Promise.all(
-                Object.entries(canvasRefs).map(async ([method, ref]) => {
-                    if (ref.current) {
-                        // Check cache first
-                        const cacheKey = generateCacheKey(candidates, method);
-                        const cached = resultCache.get(cacheKey);
-
-                        if (cached) {
-                            const ctx = ref.current.getContext('2d');
-                            if (ctx) {
-                                ctx.putImageData(cached.imageData, 0, 0);
-                                drawCandidates(ctx); // Redraw candidates on top
-                            }
-                        } else {
-                            // Compute new results
-                            await drawCanvas(ref, method);
-                        }
-                    }
-                })
-            );
+            for (const [i, method] of GRID_METHODS.entries()) {
+                const canvas = canvasRefs.current[method];
+                if (!canvas || !renderingRef.current) continue;
+                await computeAndCacheResults(method, canvas, fraction =>
+                    setComputeProgress(Math.round(100 * (i + fraction) / GRID_METHODS.length))
+                );
+            }
         } finally {
             setIsComputing(false);
             renderingRef.current = false;
@@ -380,6 +273,28 @@ const VotingMethodComparisonGrid = () => {
         }
     };
 
+    const handleExport = (method: VotingMethod, canvas: HTMLCanvasElement | null | undefined, format: 'png' | 'svg') => {
+        if (!canvas) return;
+        const title = `${methods[method]} — electorates centred on each point`;
+        if (format === 'svg') {
+            const winnerAt = createMapWinner(gridSpec(method));
+            const svg = mapToSvg({
+                title,
+                winners: sampleWinners((u, v) => {
+                    const winnerId = winnerAt(u, v);
+                    return winnerId === NO_WINNER_ID ? null : winnerId;
+                }),
+                candidates,
+                markers: candidates.map(c => ({ name: c.name, color: c.color, u: c.x, v: c.y }))
+            }, CANVAS_SIZE);
+            downloadFile(`${method}-grid.svg`, svg, 'image/svg+xml');
+        } else {
+            canvasToPng(canvasWithLegend(canvas, title, candidates)).then(blob => {
+                if (blob) downloadFile(`${method}-grid.png`, blob);
+            });
+        }
+    };
+
     const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
         if (isComputing) return;
 
@@ -399,8 +314,7 @@ const VotingMethodComparisonGrid = () => {
     };
 
     const initializeCanvases = useCallback(() => {
-        Object.values(canvasRefs).forEach(ref => {
-            const canvas = ref.current;
+        Object.values(canvasRefs.current).forEach(canvas => {
             if (!canvas) return;
 
             const ctx = canvas.getContext('2d');
@@ -481,34 +395,40 @@ const VotingMethodComparisonGrid = () => {
         setCandidates(prev => prev.filter(c => c.id !== id));
     }, [candidates]);
 
-    const loadPreset = (presetName: keyof typeof presets) => {
-        setCandidates(presets[presetName]);
+    const loadCandidates = (next: Candidate[]) => {
+        setCandidates(next);
         // Reset any necessary state
         setIsComputing(false);
         setComputeProgress(0);
         renderingRef.current = false;
+        mapPool.current?.cancel();
+        stopRender.current?.();
 
         // Clear the cache since we're changing candidates
         resultCache.clear();
     };
 
-    const PresetControls = () => (
-        <div className="flex items-center gap-4 mb-4">
-            <button
-                onClick={() => loadPreset('spoiler')}
-                className="px-4 py-2 bg-purple-500 hover:bg-purple-600 text-white rounded-lg transition-colors"
-                title="Demonstrates how similar candidates can split the vote"
-            >
-                Demo Spoiler Effect
-            </button>
-            <button
-                onClick={() => loadPreset('default')}
-                className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors"
-            >
-                Reset to Default
-            </button>
-        </div>
-    );
+    // The grid only shows candidates; the rest of a saved scenario takes the defaults
+    const currentScenario = (): Scenario => ({
+        version: SCENARIO_VERSION,
+        candidates,
+        method: 'plurality',
+        options: electionOptions,
+        voterDistribution: 'normal',
+        voterCount: DEFAULT_VOTER_COUNT,
+        seed: DEFAULT_SEED,
+        dimensions: 2,
+        clusters: []
+    });
+
+    const loadScenario = (scenario: Scenario) => {
+        loadCandidates(scenario.candidates);
+        setTieBreakPolicy(scenario.options.tieBreakPolicy ?? 'candidateOrder');
+        setApprovalThreshold(scenario.options.approvalThreshold ?? 0.3);
+        setScoreScale(scenario.options.scoreScale ?? 5);
+        setScoreNormalization(scenario.options.scoreNormalization ?? 'minMax');
+        setScoreRadius(scenario.options.scoreRadius ?? 0.5);
+    };
 
     return (
         <div className="w-full max-w-6xl p-4 bg-white rounded-lg shadow-lg">
@@ -534,7 +454,88 @@ const VotingMethodComparisonGrid = () => {
                             Add Candidate
                         </button>
                     </div>
-                    <PresetControls />
+                    <div className="flex flex-wrap items-start gap-4">
+                        <ScenarioLibrary current={currentScenario} onLoad={loadScenario} disabled={isComputing} />
+                        <button
+                            onClick={() => loadCandidates(defaultCandidates)}
+                            className="px-4 py-2 bg-gray-500 hover:bg-gray-600 text-white rounded-lg transition-colors"
+                        >
+                            Reset to Default
+                        </button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <label>Tie-breaking:</label>
+                        <select
+                            value={tieBreakPolicy}
+                            onChange={(e) => {
+                                setTieBreakPolicy(e.target.value as TieBreakPolicy);
+                                resultCache.clear();
+                            }}
+                            disabled={isComputing}
+                            className="px-2 py-1 border rounded"
+                        >
+                            {Object.entries(tieBreakPolicies).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4">
+                        <div className="flex items-center gap-2">
+                            <label>Approval threshold:</label>
+                            <input
+                                type="range"
+                                min="0.1"
+                                max="0.5"
+                                step="0.05"
+                                value={approvalThreshold}
+                                onChange={(e) => setApprovalThreshold(parseFloat(e.target.value))}
+                                disabled={isComputing}
+                                className="w-32"
+                            />
+                            <span>{(approvalThreshold * 100).toFixed(0)}%</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <label>Score scale:</label>
+                            <select
+                                value={scoreScale}
+                                onChange={(e) => setScoreScale(parseInt(e.target.value) as ScoreScale)}
+                                disabled={isComputing}
+                                className="px-2 py-1 border rounded"
+                            >
+                                <option value={5}>0–5</option>
+                                <option value={10}>0–10</option>
+                                <option value={100}>0–100</option>
+                            </select>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <label>Score normalization:</label>
+                            <select
+                                value={scoreNormalization}
+                                onChange={(e) => setScoreNormalization(e.target.value as ScoreNormalization)}
+                                disabled={isComputing}
+                                className="px-2 py-1 border rounded"
+                            >
+                                <option value="minMax">Per-voter min/max</option>
+                                <option value="bands">Absolute distance bands</option>
+                            </select>
+                        </div>
+                        {scoreNormalization === 'bands' && (
+                            <div className="flex items-center gap-2">
+                                <label>Zero-score distance:</label>
+                                <input
+                                    type="range"
+                                    min="0.1"
+                                    max="1"
+                                    step="0.05"
+                                    value={scoreRadius}
+                                    onChange={(e) => setScoreRadius(parseFloat(e.target.value))}
+                                    disabled={isComputing}
+                                    className="w-32"
+                                />
+                                <span>{(scoreRadius * 100).toFixed(0)}%</span>
+                            </div>
+                        )}
+                    </div>
                 </div>
                 <p className="text-sm text-gray-600 mt-2">
                     Drag candidates to reposition them, then click "Compute Results" to see the outcomes.
@@ -543,11 +544,11 @@ const VotingMethodComparisonGrid = () => {
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {Object.entries(canvasRefs).map(([method, ref]) => (
+                {GRID_METHODS.map(method => (
                     <div key={method}>
-                        <h3 className="text-lg font-semibold mb-2 capitalize">{method}</h3>
+                        <h3 className="text-lg font-semibold mb-2">{methods[method]}</h3>
                         <canvas
-                            ref={ref}
+                            ref={(canvas) => { canvasRefs.current[method] = canvas; }}
                             width={CANVAS_SIZE}
                             height={CANVAS_SIZE}
                             className="border rounded w-full cursor-move touch-none"
@@ -556,6 +557,22 @@ const VotingMethodComparisonGrid = () => {
                             onMouseUp={handleMouseUp}
                             onMouseLeave={handleMouseUp}
                         />
+                        <div className="flex gap-2 mt-1 text-sm">
+                            <button
+                                onClick={() => handleExport(method, canvasRefs.current[method], 'png')}
+                                disabled={isComputing}
+                                className="px-2 py-1 bg-gray-100 hover:bg-gray-200 rounded"
+                            >
+                                Export PNG
+                            </button>
+                            <button
+                                onClick={() => handleExport(method, canvasRefs.current[method], 'svg')}
+                                disabled={isComputing}
+                                className="px-2 py-1 bg-gray-100 hover:bg-gray-200 rounded"
+                            >
+                                Export SVG
+                            </button>
+                        </div>
                     </div>
                 ))}
             </div>
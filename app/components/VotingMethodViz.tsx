@@ -1,90 +1,246 @@
 "use client"
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 
 
-import type { Voter } from './types';
 import {
-    distance, getVoterPreference,
+    advanceBenchmark,
+    BENCHMARK_BATCH_SIZE,
+    benchmarkStrategies,
+    createBenchmark,
+    DEFAULT_BENCHMARK_TRIALS,
+    DEFAULT_BENCHMARK_VOTERS,
+    summarizeBenchmark,
+    type BenchmarkRow,
+    type BenchmarkSettings,
+    type BenchmarkState
+} from './benchmark';
+import { ballotFormatDescriptions, ballotFormats, formatForFile, parseBallots } from './ballotImport';
+import { checkCriteria, criteria, criterionDescriptions, type CriterionViolation } from './criteria';
+import { bordaPartialRules, castBallots, countBallots, electionRunners, getVotePercentages, type VotingMethod } from './election';
+import { ballotsToCsv, downloadFile, resultsToCsv, resultsToJson, type MethodExport } from './exportData';
+import { formatVotes } from './format';
+import { canvasToPng, canvasWithLegend, mapToSvg, NO_WINNER_COLOR, sampleWinners } from './mapExport';
+import {
+    createMapWinner,
+    DEFAULT_MAP_SPREAD,
+    DEFAULT_MAP_VOTERS,
+    MAX_MAP_VOTERS,
+    mapModeDescriptions,
+    mapModes,
+    NO_WINNER_ID,
+    PREVIEW_SCALE,
+    type MapSpec
+} from './mapRender';
+import { createBrowserMapWorkerPool, type MapWorkerPool } from './mapWorkerPool';
+import { clusterEllipse, clusterShapes, clusterTurnout, ELLIPSE_SCALE, mixturePresets } from './mixture';
+import { runNoiseTrials, type NoiseTrialSummary } from './noiseTrials';
+import { hasPerceptionError } from './perception';
+import {
+    advancePositioning,
+    COMPARISON_ROUNDS,
+    DEFAULT_POSITIONING_STEP,
+    describePositioning,
+    meanDistanceFrom,
+    medianVoter,
+    POSITIONING_FRAME_DELAY,
+    positioningDescriptions,
+    positioningRules,
+    simulatePositioning,
+    startPositioning,
+    thinVoters,
+    type PositioningState
+} from './positioning';
+import { DEFAULT_SEED } from './random';
+import { drawRegions, hasExactRegions, mapRegions } from './regions';
+import { SCENARIO_VERSION, serializeScenario, type Scenario } from './scenario';
+import ScenarioLibrary from './ScenarioLibrary';
+import { decodeScenarioQuery, encodeScenarioQuery, replaceScenarioQuery, URL_UPDATE_DELAY } from './scenarioUrl';
+import {
+    DEFAULT_COORDINATE,
+    distanceMetrics,
+    getCoordinate,
+    MAX_DIMENSIONS,
+    setCoordinate
+} from './space';
+import { hasStrategicModel, strategyDescriptions, voterStrategies } from './strategy';
+import { tieBreakPolicies } from './tieBreaking';
+import { DEFAULT_TURNOUT_SENSITIVITY, effectiveTurnout, hasTurnoutModel, turnoutDescriptions, turnoutModels } from './turnout';
+import {
+    isPartyListMethod,
+    multiWinnerDescriptions,
+    multiWinnerMethods,
+    multiWinnerRunners,
+    type MultiWinnerMethod
+} from './multiWinner';
+import type { BallotFormat, BenchmarkStrategy, BordaPartialRule, Candidate, Criterion, ElectionResult, ClusterShape, DistanceMetric, ElectionOptions, ImportedBallots, IssueSpace, MapMode, PositioningRule, ScoreNormalization, ScoreScale, TieBreakPolicy, TurnoutModel, Voter, VoterCluster, VoterDistribution, VoterStrategy } from './types';
+import {
+    distance,
     methodDescriptions,
     methods,
-    votingMethods
+    scoreUnits
 } from './votingMethods';
+import { generateVoters } from './voterGeneration';
+
+// While a candidate is dragged, results recount once the pointer rests this long (ms)
+const RECOUNT_DELAY = 250;
+
+// Canvas handles for editing a mixture cluster: its mean and its x/y spread
+type ClusterHandle = 'mean' | 'sdX' | 'sdY';
+
+const clusterHandles = (cluster: VoterCluster): Record<ClusterHandle, { u: number; v: number }> => ({
+    mean: { u: cluster.x, v: cluster.y },
+    sdX: { u: cluster.x + ELLIPSE_SCALE * cluster.sdX, v: cluster.y },
+    sdY: { u: cluster.x, v: cluster.y + ELLIPSE_SCALE * cluster.sdY }
+});
+
+interface ResultCardProps {
+    method: VotingMethod;
+    label: string;
+    selected: boolean;
+    candidates: Candidate[];
+    result: ElectionResult;
+    percentages: Record<string, number>;
+    sincereWinnerId?: string | null;
+}
+
+// One method's winner, share and round details
+const ResultCard = ({ method, label, selected, candidates, result, percentages, sincereWinnerId = result.winnerId }: ResultCardProps) => {
+    const winner = candidates.find(c => c.id === result.winnerId);
+    const sincereWinner = candidates.find(c => c.id === sincereWinnerId);
+
+    return (
+        <div className={`p-3 rounded-lg border ${selected ? 'bg-white border-blue-500' : 'bg-white'}`}>
+            <div className="font-medium">{label}</div>
+            {winner ? (
+                <>
+                    <div className="flex items-center gap-2 mt-1">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: winner.color }} />
+                        <span>{winner.name}</span>
+                    </div>
+                    <div className="text-sm text-gray-600">
+                        {formatVotes(result.votes[winner.id])} {scoreUnits[method]} ({(percentages[winner.id] ?? 0).toFixed(1)}%)
+                    </div>
+                </>
+            ) : (
+                <div className="mt-1 text-gray-600">No winner (tie)</div>
+            )}
+            {sincereWinnerId !== result.winnerId && (
+                <div className="text-sm text-amber-700">
+                    Sincere winner: {sincereWinner?.name ?? 'none (tie)'}
+                </div>
+            )}
+            {result.roundDetails.length > 0 && (
+                <ul className="mt-2 text-xs text-gray-500 space-y-0.5">
+                    {result.roundDetails.map((detail, i) => (
+                        <li key={i}>{detail}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+// Benchmark table columns: a statistic under one voter strategy
+type BenchmarkColumn = { stat: 'vse' | 'regret'; strategy: BenchmarkStrategy };
+
+const benchmarkColumns: BenchmarkColumn[] = [
+    { stat: 'vse', strategy: 'sincere' },
+    { stat: 'vse', strategy: 'strategic' },
+    { stat: 'regret', strategy: 'sincere' },
+    { stat: 'regret', strategy: 'strategic' }
+];
 
 const VotingMethodViz = () => {
-    const canvasRef = useRef(null);
-    const [candidates, setCandidates] = useState([
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const mapPool = useRef<MapWorkerPool | null>(null);
+    // A shared link's settings replace the defaults on load
+    const searchParams = useSearchParams();
+    const [shared] = useState(() => decodeScenarioQuery(searchParams.toString()));
+    const sharesVoters = shared.voterDistribution !== undefined || shared.voterCount !== undefined ||
+        shared.seed !== undefined || shared.clusters !== undefined;
+    const [candidates, setCandidates] = useState<Candidate[]>(shared.candidates ?? [
         { id: '1', x: 0.3, y: 0.7, color: '#22c55e', name: 'Candidate A' },
         { id: '2', x: 0.5, y: 0.5, color: '#ef4444', name: 'Candidate B' },
         { id: '3', x: 0.7, y: 0.3, color: '#3b82f6', name: 'Candidate C' },
     ]);
-    const [selectedMethod, setSelectedMethod] = useState('plurality');
-    const [isDragging, setIsDragging] = useState(null);
-    const [approvalThreshold, setApprovalThreshold] = useState(0.3);
+    const [selectedMethod, setSelectedMethod] = useState<VotingMethod>(shared.method ?? 'plurality');
+    const [isDragging, setIsDragging] = useState<string | null>(null);
+    const [approvalThreshold, setApprovalThreshold] = useState(shared.approvalThreshold ?? 0.3);
+    const [scoreScale, setScoreScale] = useState<ScoreScale>(5);
+    const [scoreNormalization, setScoreNormalization] = useState<ScoreNormalization>('minMax');
+    const [scoreRadius, setScoreRadius] = useState(0.5);
+    const [tieBreakPolicy, setTieBreakPolicy] = useState<TieBreakPolicy>('candidateOrder');
+    const [seed, setSeed] = useState(shared.seed ?? DEFAULT_SEED);
+    const [voterStrategy, setVoterStrategy] = useState<VoterStrategy>('sincere');
+    const [strategicFraction, setStrategicFraction] = useState(1);
+    const [maxRankings, setMaxRankings] = useState<number | null>(null);
+    const [rankingRadius, setRankingRadius] = useState<number | null>(null);
+    const [bordaPartialRule, setBordaPartialRule] = useState<BordaPartialRule>('pessimistic');
+    const [dimensions, setDimensions] = useState(shared.dimensions ?? 2);
+    const [metric, setMetric] = useState<DistanceMetric>('euclidean');
+    const [minkowskiP, setMinkowskiP] = useState(3);
+    const [salience, setSalience] = useState<number[]>(Array(MAX_DIMENSIONS).fill(1));
+    // Which dimensions the canvas shows, and where it slices through the others
+    const [sliceAxes, setSliceAxes] = useState<[number, number]>([0, 1]);
+    const [sliceValues, setSliceValues] = useState<number[]>(Array(MAX_DIMENSIONS).fill(DEFAULT_COORDINATE));
+    const [perceptionNoise, setPerceptionNoise] = useState(0);
+    const [awareness, setAwareness] = useState(1);
+    const [turnoutModel, setTurnoutModel] = useState<TurnoutModel>('full');
+    const [turnoutSensitivity, setTurnoutSensitivity] = useState(DEFAULT_TURNOUT_SENSITIVITY);
+    const [trialCount, setTrialCount] = useState(20);
+    const [trialResults, setTrialResults] = useState<Record<string, NoiseTrialSummary> | null>(null);
+    const [multiWinnerMethod, setMultiWinnerMethod] = useState<MultiWinnerMethod>('stv');
+    const [seatCount, setSeatCount] = useState(3);
+    const [showRepresentatives, setShowRepresentatives] = useState(false);
     const [showSettings, setShowSettings] = useState(false);
-    const [voters, setVoters] = useState([]);
-    const [voterCount, setVoterCount] = useState(10000);
-    const [voterDistribution, setVoterDistribution] = useState('uniform');
-    const [hasGeneratedVoters, setHasGeneratedVoters] = useState(false);
+    const [voterCount, setVoterCount] = useState(shared.voterCount ?? 10000);
+    const [voterDistribution, setVoterDistribution] = useState<VoterDistribution>(shared.voterDistribution ?? 'uniform');
+    const [mixture, setMixture] = useState<VoterCluster[]>(shared.clusters ?? mixturePresets.polarised.clusters);
+    // A link that names voter settings regenerates the same voters straight away
+    const [voters, setVoters] = useState<Voter[]>(() =>
+        sharesVoters ? generateVoters(voterCount, voterDistribution, seed, mixture, dimensions) : []
+    );
+    const [hasGeneratedVoters, setHasGeneratedVoters] = useState(sharesVoters);
+    const [editingMixture, setEditingMixture] = useState(false);
+    const [clusterDrag, setClusterDrag] = useState<{ id: string; handle: ClusterHandle } | null>(null);
+    const [importFormat, setImportFormat] = useState<BallotFormat>('rankedCsv');
+    const [importedBallots, setImportedBallots] = useState<ImportedBallots | null>(null);
+    const [importedCandidates, setImportedCandidates] = useState<Candidate[]>([]);
+    const [importError, setImportError] = useState<string | null>(null);
+    // Offscreen canvas holding the most recently completed map render
+    const [mapLayer, setMapLayer] = useState<HTMLCanvasElement | null>(null);
+    const [exactRegions, setExactRegions] = useState(true);
+    const [mapMode, setMapMode] = useState<MapMode>('ballot');
+    const [mapSpread, setMapSpread] = useState(DEFAULT_MAP_SPREAD);
+    const [mapVoterCount, setMapVoterCount] = useState(DEFAULT_MAP_VOTERS);
+    const [positioningRule, setPositioningRule] = useState<PositioningRule>('bestResponse');
+    const [positioningStep, setPositioningStep] = useState(DEFAULT_POSITIONING_STEP);
+    const [positioning, setPositioning] = useState<PositioningState | null>(null);
+    const [positioningRunning, setPositioningRunning] = useState(false);
+    // Where candidates stood before the simulation moved them
+    const [positioningStart, setPositioningStart] = useState<Candidate[] | null>(null);
+    const [positioningComparison, setPositioningComparison] = useState<{ start: Candidate[]; outcomes: Record<string, PositioningState> } | null>(null);
+    const [comparingMethod, setComparingMethod] = useState<VotingMethod | null>(null);
+    const [benchmarkTrials, setBenchmarkTrials] = useState(DEFAULT_BENCHMARK_TRIALS);
+    const [benchmarkVoters, setBenchmarkVoters] = useState(DEFAULT_BENCHMARK_VOTERS);
+    const [benchmarkCandidates, setBenchmarkCandidates] = useState<[number, number]>([3, 5]);
+    // Settings are frozen when a run starts so later edits do not mix into it
+    const [benchmarkRun, setBenchmarkRun] = useState<{ settings: BenchmarkSettings; options: ElectionOptions } | null>(null);
+    const [benchmark, setBenchmark] = useState<BenchmarkState | null>(null);
+    const [benchmarkRunning, setBenchmarkRunning] = useState(false);
+    const [criteriaReports, setCriteriaReports] = useState<Record<string, CriterionViolation[]> | null>(null);
+    const [checkingCriteria, setCheckingCriteria] = useState<VotingMethod | null>(null);
+    const [selectedViolation, setSelectedViolation] = useState<{ method: VotingMethod; violation: CriterionViolation } | null>(null);
+    // Bumped whenever a criteria check starts or goes stale, so an older run stops
+    const criteriaRun = useRef(0);
+    const [benchmarkSort, setBenchmarkSort] = useState<{ column: BenchmarkColumn | null; descending: boolean }>({ column: null, descending: true });
 
     const availableColors = [
         '#22c55e', '#ef4444', '#3b82f6', '#f59e0b', '#8b5cf6',
         '#ec4899', '#10b981', '#6366f1', '#f97316', '#06b6d4'
     ];
 
-
-
-
-
-    const randn_bm = () => {
-        let u = 0, v = 0;
-        while (u === 0) u = Math.random();
-        while (v === 0) v = Math.random();
-        return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-    };
-
-
-
-    const generateVoters = useCallback((count: number, distribution: 'uniform' | 'normal' | 'clustered') => {
-        const newVoters: Voter[] = [];
-
-        for (let i = 0; i < count; i++) {
-            let x: number, y: number;
-
-            switch (distribution) {
-                case 'normal':
-                    const standardDev = 0.15;
-
-                    // Generate values until we get one in bounds
-                    // This avoids edge accumulation
-                    do {
-                        x = 0.5 + (randn_bm() * standardDev);
-                        y = 0.5 + (randn_bm() * standardDev);
-                    } while (x < 0 || x > 1 || y < 0 || y > 1);
-                    break;
-
-                case 'clustered':
-                    const clusters = [[0.3, 0.3], [0.7, 0.7], [0.5, 0.5]];
-                    const cluster = clusters[Math.floor(Math.random() * clusters.length)];
-                    x = Math.min(1, Math.max(0, cluster[0] + (randn_bm() * 0.2)));
-                    y = Math.min(1, Math.max(0, cluster[1] + (randn_bm() * 0.2)));
-                    break;
-
-                default: // uniform
-                    x = Math.random();
-                    y = Math.random();
-            }
-
-            newVoters.push({
-                id: `voter-${i}`,
-                x,
-                y
-            });
-        }
-
-        return newVoters;
-    }, []);
-
-
     const addCandidate = () => {
         if (candidates.length >= availableColors.length) return;
 
@@ -112,28 +268,277 @@ const VotingMethodViz = () => {
         ));
     };
 
-    const updateCandidatePosition = (id: string, newX: number, newY: number) => {
-        const x = Math.max(0, Math.min(1, newX));
-        const y = Math.max(0, Math.min(1, newY));
+    // Replace the mixture, regenerating voters from it if they came from the mixture
+    const applyMixture = (clusters: VoterCluster[]) => {
+        setMixture(clusters);
+        if (hasGeneratedVoters && voterDistribution === 'mixture') {
+            setVoters(generateVoters(voterCount, 'mixture', seed, clusters, dimensions));
+        }
+    };
+
+    const updateCluster = (id: string, changes: Partial<VoterCluster>) =>
+        applyMixture(mixture.map(c => c.id === id ? { ...c, ...changes } : c));
+
+    const addCluster = () => applyMixture([...mixture, {
+        id: `cluster-${Date.now()}`,
+        weight: 1,
+        x: 0.5,
+        y: 0.5,
+        sdX: 0.1,
+        sdY: 0.1,
+        correlation: 0,
+        shape: 'gaussian'
+    }]);
+
+    const loadMixturePreset = (name: string) => {
+        setVoterDistribution('mixture');
+        setMixture(mixturePresets[name].clusters);
+        if (hasGeneratedVoters) setVoters(generateVoters(voterCount, 'mixture', seed, mixturePresets[name].clusters, dimensions));
+    };
+
+    // Clusters live on the x/y plane, so they can only be edited when the canvas shows it
+    const showMixtureEditor = editingMixture && voterDistribution === 'mixture' && sliceAxes[0] === 0 && sliceAxes[1] === 1;
+
+    const handleCoordinateInput = (id: string, dimension: number, value: string) => {
+        const numValue = parseFloat(value);
+        if (isNaN(numValue)) return;
 
         setCandidates(candidates.map(c =>
-            c.id === id ? { ...c, x, y } : c
+            c.id === id ? setCoordinate(c, dimension, Math.max(0, Math.min(1, numValue))) : c
         ));
     };
 
-    const handleCoordinateInput = (id: string, coord: 'x' | 'y', value: string) => {
-        const numValue = parseFloat(value);
-        if (isNaN(numValue)) return;
+    const space = useMemo<IssueSpace>(() => ({
+        dimensions,
+        metric,
+        minkowskiP,
+        salience: salience.slice(0, dimensions)
+    }), [dimensions, metric, minkowskiP, salience]);
+
+    // Circles only match preference contours in the unweighted Euclidean plane
+    const isPlainPlane = dimensions === 2 && metric === 'euclidean' && salience[0] === 1 && salience[1] === 1;
+
+    // The point of issue space under canvas position (u, v) in the current slice
+    const slicePoint = useCallback((u: number, v: number) => {
+        const base = { x: sliceValues[0], y: sliceValues[1], dims: sliceValues.slice(2, dimensions) };
+        return setCoordinate(setCoordinate(base, sliceAxes[0], u), sliceAxes[1], v);
+    }, [sliceAxes, sliceValues, dimensions]);
+
+    // Canvas position (0–1) of a point projected onto the slice
+    const project = useCallback((point: Candidate | Voter) => ({
+        u: getCoordinate(point, sliceAxes[0]),
+        v: getCoordinate(point, sliceAxes[1])
+    }), [sliceAxes]);
+
+    // Theoretical results treat a uniform grid of sample points across the shown slice as the electorate
+    const samplePointVoters = useMemo(() => {
+        const samplePoints = 50;
+        const gridVoters: Voter[] = [];
+        for (let x = 0; x < samplePoints; x++) {
+            for (let y = 0; y < samplePoints; y++) {
+                gridVoters.push({
+                    id: `sample-${x}-${y}`,
+                    ...slicePoint(x / (samplePoints - 1), y / (samplePoints - 1))
+                });
+            }
+        }
+        return gridVoters;
+    }, [slicePoint]);
+
+    // Group turnout rates only apply to voters drawn from the mixture. Keyed by
+    // the rates themselves so dragging a cluster does not rerun every election.
+    const groupTurnoutKey = voterDistribution === 'mixture' ? JSON.stringify(clusterTurnout(mixture)) : '{}';
+    const groupTurnout = useMemo(() => JSON.parse(groupTurnoutKey) as Record<string, number>, [groupTurnoutKey]);
+
+    const electionOptions = useMemo<ElectionOptions>(() => ({
+        approvalThreshold,
+        scoreScale,
+        scoreNormalization,
+        scoreRadius,
+        tieBreakPolicy,
+        tieBreakSeed: seed,
+        voterStrategy,
+        strategicFraction,
+        perceptionNoise,
+        awareness,
+        perceptionSeed: seed,
+        space,
+        maxRankings: maxRankings ?? undefined,
+        rankingRadius: rankingRadius ?? undefined,
+        bordaPartialRule,
+        turnoutModel,
+        turnoutSensitivity,
+        groupTurnout
+    }), [
+        approvalThreshold, scoreScale, scoreNormalization, scoreRadius, tieBreakPolicy, seed,
+        voterStrategy, strategicFraction, perceptionNoise, awareness, maxRankings, rankingRadius, bordaPartialRule, space,
+        turnoutModel, turnoutSensitivity, groupTurnout
+    ]);
+
+    // Keep the URL in step with the scenario; voter settings only once voters exist
+    useEffect(() => {
+        const timer = setTimeout(() => replaceScenarioQuery(encodeScenarioQuery({
+            candidates,
+            method: selectedMethod,
+            approvalThreshold,
+            ...(dimensions !== 2 && { dimensions }),
+            ...(hasGeneratedVoters && { voterDistribution, voterCount, seed }),
+            ...(hasGeneratedVoters && voterDistribution === 'mixture' && { clusters: mixture })
+        })), URL_UPDATE_DELAY);
+        return () => clearTimeout(timer);
+    }, [candidates, selectedMethod, approvalThreshold, dimensions, hasGeneratedVoters, voterDistribution, voterCount, seed, mixture]);
+
+    // Trial results and criteria checks describe one scenario; drop them when it changes
+    useEffect(() => {
+        setTrialResults(null);
+        criteriaRun.current++;
+        setCriteriaReports(null);
+        setCheckingCriteria(null);
+        setSelectedViolation(null);
+    }, [candidates, voters, electionOptions]);
+
+    // The candidates results are counted for. Dragging would otherwise recount every
+    // election on each mouse move, so mid-drag they catch up once the pointer rests.
+    const [countedCandidates, setCountedCandidates] = useState(candidates);
+    if (!isDragging && countedCandidates !== candidates) setCountedCandidates(candidates);
+    useEffect(() => {
+        if (!isDragging) return;
+        const timer = setTimeout(() => setCountedCandidates(candidates), RECOUNT_DELAY);
+        return () => clearTimeout(timer);
+    }, [isDragging, candidates]);
+
+    // Weighted ballots actually cast, after abstention
+    const turnout = useMemo(
+        () => effectiveTurnout(voters, countedCandidates, electionOptions),
+        [voters, countedCandidates, electionOptions]
+    );
+
+    // Sincere ballots of the generated electorate, cast once and counted by every method
+    const sincereBallots = useMemo(
+        () => hasGeneratedVoters && voters.length > 0 ? castBallots(voters, countedCandidates, electionOptions) : null,
+        [countedCandidates, voters, hasGeneratedVoters, electionOptions]
+    );
+
+    // Every method's result over the generated voters
+    const actualVotes = useMemo(() => {
+        if (!sincereBallots) return null;
+        const results = {} as Record<VotingMethod, {
+            result: ElectionResult;
+            sincereWinnerId: string | null;
+            percentages: Record<string, number>;
+        }>;
+        (Object.keys(methods) as VotingMethod[]).forEach(method => {
+            const result = countBallots(voters, sincereBallots, countedCandidates, method, electionOptions);
+            // With strategic voters, also count the sincere ballots to show what changed
+            const sincereWinnerId = voterStrategy !== 'sincere' && hasStrategicModel(method)
+                ? countBallots(voters, sincereBallots, countedCandidates, method, { ...electionOptions, voterStrategy: 'sincere' }).winnerId
+                : result.winnerId;
+            results[method] = {
+                result,
+                sincereWinnerId,
+                percentages: getVotePercentages(result, method, turnout.voting, countedCandidates.length)
+            };
+        });
+        return results;
+    }, [countedCandidates, voters, sincereBallots, electionOptions, voterStrategy, turnout]);
+
+    const selectedPairwise = actualVotes?.[selectedMethod].result.pairwise;
+
+    // Smith and Schwartz sets come from the generated electorate's pairwise majorities
+    const electorateSets = useMemo(() => {
+        const result = actualVotes?.smithApproval.result;
+        return result ? { smithSet: result.smithSet ?? [], schwartzSet: result.schwartzSet ?? [] } : null;
+    }, [actualVotes]);
+
+    const councilResult = useMemo(
+        () => sincereBallots
+            ? multiWinnerRunners[multiWinnerMethod](sincereBallots, countedCandidates, seatCount, electionOptions)
+            : null,
+        [countedCandidates, sincereBallots, multiWinnerMethod, seatCount, electionOptions]
+    );
+
+    // Front-runners the strategic voters respond to in the selected method
+    const strategyFrontRunners = useMemo(() => {
+        if (voterStrategy === 'sincere' || !hasStrategicModel(selectedMethod)) return null;
+        return actualVotes?.[selectedMethod].result.frontRunners ?? null;
+    }, [actualVotes, selectedMethod, voterStrategy]);
+
+    // Candidates reposition against the generated electorate, or the theoretical grid before there is one
+    const positioningVoters = useMemo(
+        () => thinVoters(hasGeneratedVoters && voters.length > 0 ? voters : samplePointVoters),
+        [hasGeneratedVoters, voters, samplePointVoters]
+    );
+    const positioningMedian = useMemo(() => medianVoter(positioningVoters, sliceAxes), [positioningVoters, sliceAxes]);
+    const positioningSettings = useMemo(
+        () => ({ rule: positioningRule, step: positioningStep, axes: sliceAxes }),
+        [positioningRule, positioningStep, sliceAxes]
+    );
+    const showPositioning = positioning !== null || positioningComparison !== null;
+
+    // Everything the map colouring depends on, posted to the render workers
+    const mapSpec = useMemo<MapSpec>(() => ({
+        candidates,
+        method: selectedMethod,
+        approvalThreshold,
+        scoreScale,
+        scoreNormalization,
+        scoreRadius,
+        frontRunners: strategyFrontRunners,
+        space,
+        sliceAxes,
+        sliceValues,
+        electorate: mapMode === 'election'
+            ? { spread: mapSpread, voterCount: mapVoterCount, seed, options: electionOptions }
+            : null
+    }), [
+        candidates, selectedMethod, approvalThreshold, scoreScale, scoreNormalization, scoreRadius,
+        strategyFrontRunners, space, sliceAxes, sliceValues, mapMode, mapSpread, mapVoterCount, seed, electionOptions
+    ]);
+
+    // What the map shows at position (u, v): a voter's top choice or an election's winner
+    const mapWinner = useMemo(() => createMapWinner(mapSpec), [mapSpec]);
 
-        const candidate = candidates.find(c => c.id === id);
-        if (!candidate) return;
+    // Region polygons, when the map can be drawn from geometry instead of pixel by pixel
+    const canDrawRegions = hasExactRegions(mapSpec);
+    const regions = useMemo(
+        () => exactRegions && canDrawRegions ? mapRegions(mapSpec) : null,
+        [exactRegions, canDrawRegions, mapSpec]
+    );
+    const drawingRegions = regions !== null;
+
+    // Render workers live as long as the component
+    useEffect(() => {
+        const pool = createBrowserMapWorkerPool();
+        mapPool.current = pool;
+        return () => {
+            pool.dispose();
+            mapPool.current = null;
+        };
+    }, []);
 
-        updateCandidatePosition(
-            id,
-            coord === 'x' ? numValue : candidate.x,
-            coord === 'y' ? numValue : candidate.y
+    // Render the map off the main thread, at low resolution while a candidate
+    // is dragged. Tiles are composited into an offscreen layer that replaces
+    // the shown map once complete; a newer render cancels an older one.
+    const previewingMap = isDragging !== null;
+    useEffect(() => {
+        const pool = mapPool.current;
+        const canvas = canvasRef.current;
+        if (!pool || !canvas || drawingRegions) return;
+
+        const scale = previewingMap ? PREVIEW_SCALE : 1;
+        const layer = document.createElement('canvas');
+        layer.width = Math.ceil(canvas.width / scale);
+        layer.height = Math.ceil(canvas.height / scale);
+        const layerCtx = layer.getContext('2d');
+        pool.render(
+            mapSpec,
+            layer.width,
+            layer.height,
+            (tile, pixels) => layerCtx?.putImageData(new ImageData(pixels, tile.width, tile.height), tile.x, tile.y),
+            () => setMapLayer(layer)
         );
-    };
+        return () => pool.cancel();
+    }, [mapSpec, previewingMap, drawingRegions]);
 
     const drawVisualization = useCallback(() => {
         const canvas = canvasRef.current;
@@ -145,65 +550,47 @@ const VotingMethodViz = () => {
         const width = canvas.width;
         const height = canvas.height;
 
-        // Draw the voting map
-        const imageData = ctx.createImageData(width, height);
-        for (let x = 0; x < width; x++) {
-            for (let y = 0; y < height; y++) {
-                const voterX = x / width;
-                const voterY = 1 - (y / height);
-
-                let winnerId;
-                if (selectedMethod === 'approval') {
-                    // For approval, color based on approved candidates
-                    const prefs = getVoterPreference(voterX, voterY, candidates);
-                    const approvedCandidates = prefs.filter(p => p.dist <= approvalThreshold);
-                    winnerId = approvedCandidates.length > 0 ? approvedCandidates[0].id : prefs[0].id;
-                } else if (selectedMethod === 'borda') {
-                    // For Borda, color based on points
-                    const prefs = getVoterPreference(voterX, voterY, candidates);
-                    const points = new Map();
-                    prefs.forEach((p, i) => {
-                        points.set(p.id, candidates.length - 1 - i);
-                    });
-                    winnerId = [...points.entries()].reduce((a, b) =>
-                        a[1] > b[1] ? a : b)[0];
-                } else {
-                    // For plurality and IRV, color based on closest candidate
-                    winnerId = getVoterPreference(voterX, voterY, candidates)[0].id;
-                }
-
-                const winnerColor = candidates.find(c => c.id === winnerId)?.color ?? '#000000';
-                const rgb = parseInt(winnerColor.slice(1), 16);
-
-                const idx = (y * width + x) * 4;
-                imageData.data[idx] = (rgb >> 16) & 255;     // R
-                imageData.data[idx + 1] = (rgb >> 8) & 255;  // G
-                imageData.data[idx + 2] = rgb & 255;         // B
-                imageData.data[idx + 3] = 255;               // A
-            }
+        // Draw the voting map: exact regions, or the rendered layer with a
+        // low-resolution preview scaled up without smoothing
+        ctx.clearRect(0, 0, width, height);
+        if (regions) {
+            drawRegions(ctx, regions, id => candidates.find(c => c.id === id)?.color ?? NO_WINNER_COLOR, width, height);
+        } else if (mapLayer) {
+            ctx.imageSmoothingEnabled = false;
+            ctx.drawImage(mapLayer, 0, 0, width, height);
+            ctx.imageSmoothingEnabled = true;
         }
-        ctx.putImageData(imageData, 0, 0);
 
-        // Draw voters
+        // Draw voters, optionally coloured by the council member representing them
+        const representatives = showRepresentatives ? councilResult?.representatives : undefined;
         ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
-        voters.forEach(voter => {
+        voters.forEach((voter, i) => {
+            if (representatives) {
+                const representative = candidates.find(c => c.id === representatives[i]);
+                ctx.fillStyle = representative ? representative.color : 'rgba(0, 0, 0, 0.3)';
+            }
             ctx.beginPath();
             ctx.arc(
-                voter.x * width,
-                (1 - voter.y) * height,
+                project(voter).u * width,
+                (1 - project(voter).v) * height,
                 2,
                 0,
                 2 * Math.PI
             );
             ctx.fill();
+            if (representatives) {
+                ctx.strokeStyle = 'white';
+                ctx.lineWidth = 0.5;
+                ctx.stroke();
+            }
         });
 
         // Draw candidates
         candidates.forEach((candidate) => {
             ctx.beginPath();
             ctx.arc(
-                candidate.x * width,
-                (1 - candidate.y) * height,
+                project(candidate).u * width,
+                (1 - project(candidate).v) * height,
                 8,
                 0,
                 2 * Math.PI
@@ -217,17 +604,43 @@ const VotingMethodViz = () => {
             ctx.fillStyle = 'black';
             ctx.font = '12px sans-serif';
             ctx.textAlign = 'center';
-            ctx.fillText(candidate.name, candidate.x * width, (1 - candidate.y) * height + 20);
+            ctx.fillText(candidate.name, project(candidate).u * width, (1 - project(candidate).v) * height + 20);
         });
 
-        if (selectedMethod === 'approval') {
+        if (selectedMethod === 'smithApproval' && electorateSets) {
+            // Ring the Smith set members
+            ctx.strokeStyle = 'black';
+            ctx.lineWidth = 2;
+            ctx.setLineDash([4, 3]);
+            candidates
+                .filter(c => electorateSets.smithSet.includes(c.id))
+                .forEach((candidate) => {
+                    ctx.beginPath();
+                    ctx.arc(project(candidate).u * width, (1 - project(candidate).v) * height, 14, 0, 2 * Math.PI);
+                    ctx.stroke();
+                });
+            ctx.setLineDash([]);
+        }
+
+        if ((selectedMethod === 'score' || selectedMethod === 'star') && scoreNormalization === 'bands' && isPlainPlane) {
+            // Candidates score 0 beyond this radius
+            ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
+            ctx.lineWidth = 1;
+            candidates.forEach((candidate) => {
+                ctx.beginPath();
+                ctx.arc(project(candidate).u * width, (1 - project(candidate).v) * height, scoreRadius * width, 0, 2 * Math.PI);
+                ctx.stroke();
+            });
+        }
+
+        if (selectedMethod === 'approval' && !strategyFrontRunners && isPlainPlane) {
             ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
             ctx.lineWidth = 1;
             candidates.forEach((candidate) => {
                 ctx.beginPath();
                 ctx.arc(
-                    candidate.x * width,
-                    (1 - candidate.y) * height,
+                    project(candidate).u * width,
+                    (1 - project(candidate).v) * height,
                     approvalThreshold * width,
                     0,
                     2 * Math.PI
@@ -235,7 +648,80 @@ const VotingMethodViz = () => {
                 ctx.stroke();
             });
         }
-    }, [candidates, selectedMethod, approvalThreshold, voters]);
+
+        if (selectedViolation) {
+            // Outline the voters and ring the candidate the violation is about
+            const { violation } = selectedViolation;
+            ctx.strokeStyle = 'rgba(220, 38, 38, 0.8)';
+            ctx.lineWidth = 1;
+            violation.voters?.forEach((voter) => {
+                ctx.beginPath();
+                ctx.arc(project(voter).u * width, (1 - project(voter).v) * height, 3, 0, 2 * Math.PI);
+                ctx.stroke();
+            });
+            const candidate = candidates.find(c => c.id === violation.candidateId);
+            if (candidate) {
+                ctx.lineWidth = 3;
+                ctx.setLineDash([5, 3]);
+                ctx.beginPath();
+                ctx.arc(project(candidate).u * width, (1 - project(candidate).v) * height, 16, 0, 2 * Math.PI);
+                ctx.stroke();
+                ctx.setLineDash([]);
+            }
+        }
+
+        if (showPositioning) {
+            // Cross at the median voter the candidates are drawn towards (or away from)
+            const mx = positioningMedian[0] * width;
+            const my = (1 - positioningMedian[1]) * height;
+            ctx.strokeStyle = 'black';
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.moveTo(mx - 6, my);
+            ctx.lineTo(mx + 6, my);
+            ctx.moveTo(mx, my - 6);
+            ctx.lineTo(mx, my + 6);
+            ctx.stroke();
+            ctx.fillStyle = 'black';
+            ctx.font = '11px sans-serif';
+            ctx.textAlign = 'left';
+            ctx.fillText('median', mx + 8, my - 4);
+        }
+
+        if (showMixtureEditor) {
+            // Cluster ellipses at two standard deviations, with drag handles
+            mixture.forEach((cluster) => {
+                const { rx, ry, angle } = clusterEllipse(cluster);
+                ctx.strokeStyle = 'rgba(0, 0, 0, 0.7)';
+                ctx.lineWidth = 1.5;
+                ctx.setLineDash(cluster.shape === 'gaussian' ? [6, 4] : []);
+                ctx.beginPath();
+                ctx.ellipse(
+                    cluster.x * width,
+                    (1 - cluster.y) * height,
+                    ELLIPSE_SCALE * rx * width,
+                    ELLIPSE_SCALE * ry * height,
+                    -angle,
+                    0,
+                    2 * Math.PI
+                );
+                ctx.stroke();
+                ctx.setLineDash([]);
+
+                Object.entries(clusterHandles(cluster)).forEach(([handle, { u, v }]) => {
+                    ctx.fillStyle = handle === 'mean' ? 'black' : 'white';
+                    ctx.strokeStyle = 'black';
+                    ctx.lineWidth = 1;
+                    ctx.fillRect(u * width - 4, (1 - v) * height - 4, 8, 8);
+                    ctx.strokeRect(u * width - 4, (1 - v) * height - 4, 8, 8);
+                });
+            });
+        }
+    }, [
+        candidates, selectedMethod, approvalThreshold, scoreNormalization, scoreRadius, voters, electorateSets,
+        showRepresentatives, councilResult, strategyFrontRunners, isPlainPlane, project, showMixtureEditor, mixture, mapLayer,
+        regions, showPositioning, positioningMedian, selectedViolation
+    ]);
 
     const handleCanvasMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
         const canvas = canvasRef.current;
@@ -249,17 +735,56 @@ const VotingMethodViz = () => {
         const x = ((e.clientX - rect.left) * scaleX) / canvas.width;
         const y = 1 - ((e.clientY - rect.top) * scaleY) / canvas.height;
 
+        if (showMixtureEditor) {
+            for (const cluster of mixture) {
+                const handles = Object.entries(clusterHandles(cluster)) as [ClusterHandle, { u: number; v: number }][];
+                const hit = handles.find(([, { u, v }]) => distance(x, y, u, v) < 0.03);
+                if (hit) {
+                    setClusterDrag({ id: cluster.id, handle: hit[0] });
+                    e.preventDefault();
+                    return;
+                }
+            }
+        }
+
         const clickedCandidate = candidates.find(candidate =>
-            distance(x, y, candidate.x, candidate.y) < 0.1  // Increased click detection area
+            distance(x, y, project(candidate).u, project(candidate).v) < 0.1  // Increased click detection area
         );
 
         if (clickedCandidate) {
+            // Dragging takes over from any running simulation
+            setPositioningRunning(false);
+            setPositioning(null);
             setIsDragging(clickedCandidate.id);
             e.preventDefault(); // Prevent text selection while dragging
         }
     };
 
     const handleCanvasMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (clusterDrag !== null) {
+            const canvas = canvasRef.current;
+            if (!canvas) return;
+
+            const rect = canvas.getBoundingClientRect();
+            const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+            const y = Math.max(0, Math.min(1, 1 - (e.clientY - rect.top) / rect.height));
+
+            // Voters are regenerated once the drag ends, not on every move
+            setMixture(mixture.map(cluster => {
+                if (cluster.id !== clusterDrag.id) return cluster;
+                switch (clusterDrag.handle) {
+                    case 'mean':
+                        return { ...cluster, x, y };
+                    case 'sdX':
+                        return { ...cluster, sdX: Math.max(0.01, Math.abs(x - cluster.x) / ELLIPSE_SCALE) };
+                    case 'sdY':
+                        return { ...cluster, sdY: Math.max(0.01, Math.abs(y - cluster.y) / ELLIPSE_SCALE) };
+                }
+            }));
+            e.preventDefault();
+            return;
+        }
+
         if (isDragging !== null) {
             const canvas = canvasRef.current;
             if (!canvas) return;
@@ -276,7 +801,9 @@ const VotingMethodViz = () => {
             const clampedY = Math.max(0, Math.min(1, y));
 
             setCandidates(candidates.map(candidate =>
-                candidate.id === isDragging ? { ...candidate, x: clampedX, y: clampedY } : candidate
+                candidate.id === isDragging
+                    ? setCoordinate(setCoordinate(candidate, sliceAxes[0], clampedX), sliceAxes[1], clampedY)
+                    : candidate
             ));
 
             e.preventDefault(); // Prevent text selection while dragging
@@ -285,188 +812,290 @@ const VotingMethodViz = () => {
 
     const handleCanvasMouseUp = () => {
         setIsDragging(null);
-    };
-
-
-    const calculateWinningAreas = useCallback((method: keyof typeof votingMethods) => {
-        const samplePoints = 50;
-        const votes = new Map<string, number>();
-        candidates.forEach(c => votes.set(c.id, 0));
-
-        // For IRV, we need to collect all votes first
-        const allVotes: string[][] = [];
-
-        for (let x = 0; x < samplePoints; x++) {
-            for (let y = 0; y < samplePoints; y++) {
-                const voterX = x / (samplePoints - 1);
-                const voterY = y / (samplePoints - 1);
-                const voteResult = votingMethods[method](voterX, voterY, candidates, method === 'approval' ? approvalThreshold : undefined);
-
-                if (method === 'approval') {
-                    // For approval, count all approved candidates
-                    voteResult.forEach(id => votes.set(id, votes.get(id)! + 1));
-                } else if (method === 'borda') {
-                    // For Borda, give points based on ranking
-                    voteResult.forEach((id, index) => {
-                        votes.set(id, votes.get(id)! + (candidates.length - 1 - index));
-                    });
-                } else if (method === 'irv') {
-                    // For IRV, collect all votes for later processing
-                    allVotes.push(voteResult);
-                } else {
-                    // For plurality, just count first preference
-                    votes.set(voteResult[0], votes.get(voteResult[0])! + 1);
-                }
-            }
+        if (clusterDrag !== null) {
+            setClusterDrag(null);
+            applyMixture(mixture);
         }
+    };
 
-        // Special handling for IRV
-        if (method === 'irv') {
-            let remainingCandidates = new Set(candidates.map(c => c.id));
 
-            while (remainingCandidates.size > 1) {
-                const roundVotes = new Map<string, number>();
-                remainingCandidates.forEach(id => roundVotes.set(id, 0));
+    // Every method's winner over the theoretical grid, shown beside the generated voters' results
+    const winningAreas = useMemo(() => {
+        if (!hasGeneratedVoters) return null;
+        const ballots = castBallots(samplePointVoters, countedCandidates, electionOptions);
+        const results = {} as Record<VotingMethod, { result: ElectionResult; percentages: Record<string, number> }>;
+        (Object.keys(methods) as VotingMethod[]).forEach(method => {
+            const result = countBallots(samplePointVoters, ballots, countedCandidates, method, electionOptions);
+            results[method] = {
+                result,
+                percentages: getVotePercentages(result, method, samplePointVoters.length, countedCandidates.length)
+            };
+        });
+        return results;
+    }, [countedCandidates, samplePointVoters, hasGeneratedVoters, electionOptions]);
 
-                // Count first preferences among remaining candidates
-                allVotes.forEach(prefs => {
-                    const firstChoice = prefs.find(id => remainingCandidates.has(id));
-                    if (firstChoice) {
-                        roundVotes.set(firstChoice, roundVotes.get(firstChoice)! + 1);
-                    }
-                });
 
-                const totalVotes = [...roundVotes.values()].reduce((a, b) => a + b, 0);
-                const majorityThreshold = totalVotes / 2;
+    useEffect(() => {
+        drawVisualization();
+    }, [drawVisualization]);
 
-                // Check if any candidate has a majority
-                const [winner] = [...roundVotes.entries()].reduce((a, b) =>
-                    b[1] > a[1] ? b : a
-                );
-                if (roundVotes.get(winner)! > majorityThreshold) {
-                    votes.clear();
-                    candidates.forEach(c => votes.set(c.id, 0));
-                    votes.set(winner, totalVotes);
-                    break;
-                }
 
-                // Eliminate candidate with fewest votes
-                const [loser] = [...roundVotes.entries()].reduce((a, b) =>
-                    a[1] < b[1] ? a : b
-                );
-                remainingCandidates.delete(loser);
-            }
 
-            // If we get here without finding a majority winner, the last remaining candidate wins
-            if (remainingCandidates.size === 1) {
-                const winner = remainingCandidates.values().next().value;
-                votes.clear();
-                candidates.forEach(c => votes.set(c.id, 0));
-                votes.set(winner, samplePoints * samplePoints);
+    // Imported ballots skip the spatial model: every method counts them as cast
+    const importedResults = useMemo(() => {
+        if (!importedBallots) return null;
+        const results: Partial<Record<VotingMethod, { result: ElectionResult; percentages: Record<string, number> }>> = {};
+        (Object.keys(methods) as VotingMethod[]).forEach(method => {
+            const result = electionRunners[method](importedBallots.ballots, importedCandidates, electionOptions);
+            results[method] = {
+                result,
+                percentages: getVotePercentages(result, method, importedBallots.ballots.length, importedCandidates.length)
+            };
+        });
+        return results;
+    }, [importedBallots, importedCandidates, electionOptions]);
+
+    const handleImportBallots = (file: File) => {
+        const format = formatForFile(file.name, importFormat);
+        setImportFormat(format);
+        file.text().then(text => {
+            try {
+                const imported = parseBallots(text, format);
+                // Imported candidates have no position; they all sit at the centre
+                setImportedCandidates(imported.candidateNames.map((name, i) => ({
+                    id: `${i + 1}`,
+                    x: 0.5,
+                    y: 0.5,
+                    color: availableColors[i % availableColors.length],
+                    name
+                })));
+                setImportedBallots(imported);
+                setImportError(null);
+            } catch (error) {
+                setImportedBallots(null);
+                setImportError(error instanceof Error ? error.message : String(error));
             }
-        }
-
-        const totalPoints = method === 'approval' ?
-            [...votes.values()].reduce((a, b) => a + b, 0) :
-            method === 'borda' ?
-                (samplePoints * samplePoints * (candidates.length * (candidates.length - 1) / 2)) :
-                samplePoints * samplePoints;
-
-        const results: Record<string, number> = {};
-        for (const [id, voteCount] of votes.entries()) {
-            results[id] = (voteCount / totalPoints) * 100;
-        }
-
-        return {
-            votes: Object.fromEntries(votes),
-            percentages: results
-        };
-    }, [candidates, votingMethods, approvalThreshold]);
-
-    const calculateActualVotes = useCallback((method: keyof typeof votingMethods) => {
-        if (!hasGeneratedVoters || voters.length === 0) return null;
-
-        const votes = new Map<string, number>();
-        candidates.forEach(c => votes.set(c.id, 0));
-
-        if (method === 'irv') {
-            let remainingCandidates = [...candidates];
-            const allVotes = voters.map(voter =>
-                votingMethods[method](voter.x, voter.y, candidates)
-            );
-
-            while (remainingCandidates.length > 1) {
-                const roundVotes = new Map<string, number>();
-                remainingCandidates.forEach(c => roundVotes.set(c.id, 0));
-
-                allVotes.forEach(prefs => {
-                    const firstChoice = prefs.find(id =>
-                        remainingCandidates.some(c => c.id === id)
-                    );
-                    if (firstChoice) {
-                        roundVotes.set(firstChoice, roundVotes.get(firstChoice)! + 1);
-                    }
-                });
+        });
+    };
 
-                const majorityNeeded = voters.length / 2;
-                const leader = [...roundVotes.entries()].reduce((a, b) =>
-                    a[1] > b[1] ? a : b
-                );
+    const currentScenario = (): Scenario => ({
+        version: SCENARIO_VERSION,
+        candidates,
+        method: selectedMethod,
+        options: electionOptions,
+        voterDistribution,
+        voterCount,
+        seed,
+        dimensions,
+        clusters: mixture,
+        ...(hasGeneratedVoters && { voters })
+    });
+
+    const methodExports = (): MethodExport[] =>
+        (Object.entries(methods) as [VotingMethod, string][]).flatMap(([method, label]) => {
+            const voterResults = actualVotes?.[method];
+            if (!voterResults) return [];
+            return [{
+                method,
+                label,
+                result: voterResults.result,
+                percentages: voterResults.percentages,
+                areaPercentages: winningAreas?.[method].percentages
+            }];
+        });
 
-                if (leader[1] > majorityNeeded) {
-                    votes.set(leader[0], leader[1]);
-                    break;
-                }
+    // Replace everything on screen with a saved scenario; unset options go back to their defaults
+    const applyScenario = (scenario: Scenario) => {
+        const { options } = scenario;
+        const count = Math.min(MAX_DIMENSIONS, Math.max(2, scenario.dimensions));
+        setCandidates(scenario.candidates);
+        setSelectedMethod(scenario.method);
+        setApprovalThreshold(options.approvalThreshold ?? 0.3);
+        setScoreScale(options.scoreScale ?? 5);
+        setScoreNormalization(options.scoreNormalization ?? 'minMax');
+        setScoreRadius(options.scoreRadius ?? 0.5);
+        setTieBreakPolicy(options.tieBreakPolicy ?? 'candidateOrder');
+        setVoterStrategy(options.voterStrategy ?? 'sincere');
+        setStrategicFraction(options.strategicFraction ?? 1);
+        setMaxRankings(options.maxRankings ?? null);
+        setRankingRadius(options.rankingRadius ?? null);
+        setBordaPartialRule(options.bordaPartialRule ?? 'pessimistic');
+        setPerceptionNoise(options.perceptionNoise ?? 0);
+        setAwareness(options.awareness ?? 1);
+        setTurnoutModel(options.turnoutModel ?? 'full');
+        setTurnoutSensitivity(options.turnoutSensitivity ?? DEFAULT_TURNOUT_SENSITIVITY);
+        setDimensions(count);
+        setSliceAxes(([h, v]) => h < count && v < count ? [h, v] : [0, 1]);
+        setMetric(options.space?.metric ?? 'euclidean');
+        setMinkowskiP(options.space?.minkowskiP ?? 3);
+        setSalience(Array.from({ length: MAX_DIMENSIONS }, (_, i) => options.space?.salience?.[i] ?? 1));
+        setSeed(scenario.seed);
+        setVoterDistribution(scenario.voterDistribution);
+        setVoterCount(scenario.voterCount);
+        if (scenario.clusters.length > 0) setMixture(scenario.clusters);
+        setVoters(scenario.voters ?? generateVoters(
+            scenario.voterCount, scenario.voterDistribution, scenario.seed, scenario.clusters, count
+        ));
+        setHasGeneratedVoters(true);
+    };
 
-                const loser = [...roundVotes.entries()].reduce((a, b) =>
-                    a[1] < b[1] ? a : b
-                )[0];
-                remainingCandidates = remainingCandidates.filter(c => c.id !== loser);
-            }
+    const mapTitle = () => `${methods[selectedMethod]} — ${candidates.length} candidates`;
 
-            if (remainingCandidates.length === 1) {
-                votes.set(remainingCandidates[0].id, voters.length);
-            }
+    const handleExportMap = (format: 'png' | 'svg') => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        if (format === 'svg') {
+            const svg = mapToSvg({
+                title: mapTitle(),
+                winners: regions ? [] : sampleWinners((u, v) => {
+                    const id = mapWinner(u, v);
+                    return id === NO_WINNER_ID ? null : id;
+                }),
+                regions: regions ?? undefined,
+                candidates,
+                markers: candidates.map(c => ({ name: c.name, color: c.color, ...project(c) })),
+                points: voters.map(project)
+            }, canvas.width);
+            downloadFile(`${selectedMethod}-map.svg`, svg, 'image/svg+xml');
         } else {
-            voters.forEach(voter => {
-                const voteResult = votingMethods[method](voter.x, voter.y, candidates, method === 'approval' ? approvalThreshold : undefined);
-                if (method === 'approval') {
-                    voteResult.forEach(id => votes.set(id, votes.get(id)! + 1));
-                } else if (method === 'borda') {
-                    voteResult.forEach((id, index) => {
-                        votes.set(id, votes.get(id)! + (candidates.length - 1 - index));
-                    });
-                } else {
-                    votes.set(voteResult[0], votes.get(voteResult[0])! + 1);
-                }
+            canvasToPng(canvasWithLegend(canvas, mapTitle(), candidates)).then(blob => {
+                if (blob) downloadFile(`${selectedMethod}-map.png`, blob);
             });
         }
+    };
 
-        const totalVotes = method === 'approval' ?
-            [...votes.values()].reduce((a, b) => a + b, 0) :
-            method === 'borda' ?
-                (voters.length * (candidates.length * (candidates.length - 1) / 2)) :
-                voters.length;
+    const handleRunNoiseTrials = () => {
+        setTrialResults(runNoiseTrials(voters, candidates, Object.keys(methods) as VotingMethod[], electionOptions, trialCount));
+    };
 
-        const results: Record<string, number> = {};
-        for (const [id, voteCount] of votes.entries()) {
-            results[id] = (voteCount / totalVotes) * 100;
+    // Animate the simulation one round at a time
+    useEffect(() => {
+        if (!positioningRunning || !positioning || positioning.status !== 'running') return;
+        const timer = setTimeout(() => {
+            const next = advancePositioning(positioning, positioningVoters, selectedMethod, electionOptions, positioningSettings);
+            setPositioning(next);
+            setCandidates(next.candidates);
+            if (next.status !== 'running') setPositioningRunning(false);
+        }, POSITIONING_FRAME_DELAY);
+        return () => clearTimeout(timer);
+    }, [positioningRunning, positioning, positioningVoters, selectedMethod, electionOptions, positioningSettings]);
+
+    const handleStartPositioning = () => {
+        if (!positioning || positioning.status !== 'running') {
+            setPositioningStart(candidates);
+            setPositioning(startPositioning(candidates, sliceAxes));
         }
+        setPositioningRunning(true);
+    };
 
-        return {
-            votes: Object.fromEntries(votes),
-            percentages: results
+    const handleResetPositioning = () => {
+        setPositioningRunning(false);
+        setPositioning(null);
+        if (positioningStart) setCandidates(positioningStart);
+        setPositioningStart(null);
+    };
+
+    // Simulate every method from the current positions, one method per tick
+    // so the page stays responsive and shows progress
+    const handleComparePositioning = () => {
+        const methodList = Object.keys(methods) as VotingMethod[];
+        const start = candidates;
+        const outcomes: Record<string, PositioningState> = {};
+        setPositioningComparison({ start, outcomes: {} });
+
+        const runMethod = (i: number) => {
+            if (i >= methodList.length) {
+                setComparingMethod(null);
+                return;
+            }
+            setComparingMethod(methodList[i]);
+            setTimeout(() => {
+                outcomes[methodList[i]] = simulatePositioning(
+                    positioningVoters, start, methodList[i], electionOptions, positioningSettings, COMPARISON_ROUNDS
+                );
+                setPositioningComparison({ start, outcomes: { ...outcomes } });
+                runMethod(i + 1);
+            }, 0);
         };
-    }, [candidates, voters, hasGeneratedVoters, votingMethods]);
+        runMethod(0);
+    };
 
+    // Run benchmark trials a batch at a time so progress shows and Stop responds
     useEffect(() => {
-        drawVisualization();
-    }, [drawVisualization]);
+        if (!benchmarkRunning || !benchmark || !benchmarkRun) return;
+        if (benchmark.trialsRun >= benchmarkRun.settings.trials) {
+            setBenchmarkRunning(false);
+            return;
+        }
+        const timer = setTimeout(() => {
+            setBenchmark(advanceBenchmark(benchmark, benchmarkRun.settings, benchmarkRun.options, BENCHMARK_BATCH_SIZE));
+        }, 0);
+        return () => clearTimeout(timer);
+    }, [benchmarkRunning, benchmark, benchmarkRun]);
+
+    const handleStartBenchmark = () => {
+        const [fewest, most] = benchmarkCandidates;
+        setBenchmarkRun({
+            settings: {
+                trials: benchmarkTrials,
+                voterCount: benchmarkVoters,
+                distribution: voterDistribution,
+                clusters: mixture,
+                dimensions,
+                candidateCounts: Array.from({ length: most - fewest + 1 }, (_, i) => fewest + i),
+                seed,
+                methods: Object.keys(methods) as VotingMethod[]
+            },
+            options: electionOptions
+        });
+        setBenchmark(createBenchmark());
+        setBenchmarkRunning(true);
+    };
 
+    const benchmarkRows = useMemo(() => {
+        if (!benchmark) return [];
+        const rows = summarizeBenchmark(benchmark, Object.keys(methods) as VotingMethod[]);
+        const { column, descending } = benchmarkSort;
+        if (!column) return rows;
+        const value = (row: BenchmarkRow) => row[column.stat][column.strategy].mean;
+        return [...rows].sort((a, b) => descending ? value(b) - value(a) : value(a) - value(b));
+    }, [benchmark, benchmarkSort]);
+
+    const handleSortBenchmark = (column: BenchmarkColumn | null) => {
+        setBenchmarkSort(({ column: current, descending }) => ({
+            column,
+            descending: current?.stat === column?.stat && current?.strategy === column?.strategy ? !descending : true
+        }));
+    };
 
+    // Check one method per tick so the page stays responsive and shows progress
+    const handleCheckCriteria = () => {
+        const run = ++criteriaRun.current;
+        const methodList = Object.keys(methods) as VotingMethod[];
+        const electorate = hasGeneratedVoters && voters.length > 0 ? voters : samplePointVoters;
+        const reports: Record<string, CriterionViolation[]> = {};
+        setCriteriaReports({});
+        setSelectedViolation(null);
+
+        const checkMethod = (i: number) => {
+            if (run !== criteriaRun.current) return;
+            if (i >= methodList.length) {
+                setCheckingCriteria(null);
+                return;
+            }
+            setCheckingCriteria(methodList[i]);
+            setTimeout(() => {
+                if (run !== criteriaRun.current) return;
+                reports[methodList[i]] = checkCriteria(electorate, candidates, methodList[i], electionOptions);
+                setCriteriaReports({ ...reports });
+                checkMethod(i + 1);
+            }, 0);
+        };
+        checkMethod(0);
+    };
 
     const handleGenerateVoters = () => {
-        const newVoters = generateVoters(voterCount, voterDistribution);
+        const newVoters = generateVoters(voterCount, voterDistribution, seed, mixture, dimensions);
         setVoters(newVoters);
         setHasGeneratedVoters(true);
     };
@@ -480,7 +1109,7 @@ const VotingMethodViz = () => {
                     <div className="flex gap-4 items-center">
                         <select
                             value={selectedMethod}
-                            onChange={(e) => setSelectedMethod(e.target.value)}
+                            onChange={(e) => setSelectedMethod(e.target.value as VotingMethod)}
                             className="block w-40 px-4 py-2 border rounded-md shadow-sm"
                         >
                             {Object.entries(methods).map(([value, label]) => (
@@ -497,34 +1126,42 @@ const VotingMethodViz = () => {
                         </button>
                     </div>
                     <p className="mt-2 text-gray-600">
-                        {methodDescriptions[selectedMethod as keyof typeof methods]}
+                        {methodDescriptions[selectedMethod]}
                     </p>
                 </div>
             </div>
 
+            <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+                <ScenarioLibrary current={currentScenario} onLoad={applyScenario} />
+            </div>
+
             {hasGeneratedVoters ? (
                 <div className="mt-4 space-y-4">
                     {/* Theoretical Area Coverage */}
                     <div className="p-4 bg-gray-50 rounded-lg">
                         <h3 className="font-semibold mb-2">Theoretical Area Coverage</h3>
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                            {Object.entries(methods).map(([method, label]) => {
-                                const areaResults = calculateWinningAreas(method);
-                                const winner = candidates.find(c =>
-                                    c.id === Object.entries(areaResults.percentages)
-                                        .reduce((a, b) => a[1] > b[1] ? a : b)[0]
-                                );
+                            {(Object.entries(methods) as [VotingMethod, string][]).map(([method, label]) => {
+                                const areaResults = winningAreas?.[method];
+                                if (!areaResults) return null;
+                                const winner = candidates.find(c => c.id === areaResults.result.winnerId);
 
                                 return (
                                     <div key={`area-${method}`} className={`p-3 rounded-lg border ${method === selectedMethod ? 'bg-white border-blue-500' : 'bg-white'}`}>
                                         <div className="font-medium">{label}</div>
-                                        <div className="flex items-center gap-2 mt-1">
-                                            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: winner?.color }} />
-                                            <span>{winner?.name}</span>
-                                        </div>
-                                        <div className="text-sm text-gray-600">
-                                            {areaResults.percentages[winner.id].toFixed(1)}% of map area
-                                        </div>
+                                        {winner ? (
+                                            <>
+                                                <div className="flex items-center gap-2 mt-1">
+                                                    <div className="w-3 h-3 rounded-full" style={{ backgroundColor: winner.color }} />
+                                                    <span>{winner.name}</span>
+                                                </div>
+                                                <div className="text-sm text-gray-600">
+                                                    {(areaResults.percentages[winner.id] ?? 0).toFixed(1)}% of map area
+                                                </div>
+                                            </>
+                                        ) : (
+                                            <div className="mt-1 text-gray-600">No winner (tie)</div>
+                                        )}
                                     </div>
                                 );
                             })}
@@ -533,30 +1170,205 @@ const VotingMethodViz = () => {
 
                     {/* Actual Voter Results */}
                     <div className="p-4 bg-gray-50 rounded-lg">
-                        <h3 className="font-semibold mb-2">Actual Voter Results ({voters.length} voters)</h3>
+                        <h3 className="font-semibold mb-2">
+                            Actual Voter Results ({voters.length} voters
+                            {(hasTurnoutModel(electionOptions) || turnout.eligible !== voters.length) &&
+                                `; effective turnout ${(turnout.rate * 100).toFixed(1)}%, ${formatVotes(turnout.voting)} of ${formatVotes(turnout.eligible)} votes cast`}
+                            )
+                        </h3>
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-                            {Object.entries(methods).map(([method, label]) => {
-                                const voterResults = calculateActualVotes(method);
-                                const winner = candidates.find(c =>
-                                    c.id === Object.entries(voterResults.percentages)
-                                        .reduce((a, b) => a[1] > b[1] ? a : b)[0]
-                                );
+                            {(Object.entries(methods) as [VotingMethod, string][]).map(([method, label]) => {
+                                const voterResults = actualVotes?.[method];
+                                if (!voterResults) return null;
 
                                 return (
-                                    <div key={`votes-${method}`} className={`p-3 rounded-lg border ${method === selectedMethod ? 'bg-white border-blue-500' : 'bg-white'}`}>
-                                        <div className="font-medium">{label}</div>
-                                        <div className="flex items-center gap-2 mt-1">
-                                            <div className="w-3 h-3 rounded-full" style={{ backgroundColor: winner?.color }} />
-                                            <span>{winner?.name}</span>
-                                        </div>
-                                        <div className="text-sm text-gray-600">
-                                            {voterResults.votes[winner.id]} votes ({voterResults.percentages[winner.id].toFixed(1)}%)
-                                        </div>
-                                    </div>
+                                    <ResultCard
+                                        key={`votes-${method}`}
+                                        method={method}
+                                        label={label}
+                                        selected={method === selectedMethod}
+                                        candidates={candidates}
+                                        {...voterResults}
+                                    />
                                 );
                             })}
                         </div>
                     </div>
+
+                    {/* Winner stability under perception noise */}
+                    {hasPerceptionError(electionOptions) && (
+                        <div className="p-4 bg-gray-50 rounded-lg">
+                            <h3 className="font-semibold mb-2">Perception Noise Trials</h3>
+                            <div className="flex items-center gap-2 mb-2">
+                                <label>Trials:</label>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max="200"
+                                    value={trialCount}
+                                    onChange={(e) => setTrialCount(Math.max(1, Math.min(200, parseInt(e.target.value) || 1)))}
+                                    className="px-2 py-1 border rounded w-20"
+                                />
+                                <button
+                                    onClick={handleRunNoiseTrials}
+                                    className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                                >
+                                    Run Trials
+                                </button>
+                            </div>
+                            <p className="text-sm text-gray-600 mb-2">
+                                Re-runs every method with {trialCount} independent perception draws and reports how often each picks the same winner.
+                            </p>
+                            {trialResults && (
+                                <table className="text-sm bg-white border">
+                                    <thead>
+                                        <tr>
+                                            <th className="px-2 py-1 border text-left">Method</th>
+                                            <th className="px-2 py-1 border text-left">Most common winner</th>
+                                            <th className="px-2 py-1 border text-right">Share of trials</th>
+                                            <th className="px-2 py-1 border text-left">Noiseless winner</th>
+                                            <th className="px-2 py-1 border text-right">Matches noiseless</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {(Object.entries(methods) as [VotingMethod, string][]).map(([method, label]) => {
+                                            const summary = trialResults[method];
+                                            if (!summary) return null;
+                                            const modal = candidates.find(c => c.id === summary.modalWinnerId);
+                                            const noiseless = candidates.find(c => c.id === summary.noiselessWinnerId);
+                                            return (
+                                                <tr key={method}>
+                                                    <td className="px-2 py-1 border">{label}</td>
+                                                    <td className="px-2 py-1 border" style={{ color: modal?.color }}>{modal?.name ?? 'none'}</td>
+                                                    <td className="px-2 py-1 border text-right">{(summary.modalShare * 100).toFixed(0)}%</td>
+                                                    <td className="px-2 py-1 border" style={{ color: noiseless?.color }}>{noiseless?.name ?? 'none (tie)'}</td>
+                                                    <td className="px-2 py-1 border text-right">{(summary.noiselessShare * 100).toFixed(0)}%</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    )}
+
+                    {/* Smith and Schwartz sets */}
+                    {electorateSets && (
+                        <div className="p-4 bg-gray-50 rounded-lg">
+                            <h3 className="font-semibold mb-2">Top Sets ({voters.length} voters)</h3>
+                            {([
+                                ['Smith set', electorateSets.smithSet, 'Smallest group that beats every outsider head-to-head'],
+                                ['Schwartz set', electorateSets.schwartzSet, 'Candidates who beat back everyone who beats them']
+                            ] as [string, string[], string][]).map(([label, members, hint]) => (
+                                <div key={label} className="flex flex-wrap items-center gap-2 mt-1" title={hint}>
+                                    <span className="font-medium w-28">{label}:</span>
+                                    {candidates.filter(c => members.includes(c.id)).map(c => (
+                                        <span key={c.id} className="flex items-center gap-1 px-2 py-0.5 bg-white border rounded">
+                                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: c.color }} />
+                                            {c.name}
+                                        </span>
+                                    ))}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Multi-winner council */}
+                    {councilResult && (
+                        <div className="p-4 bg-gray-50 rounded-lg">
+                            <h3 className="font-semibold mb-2">Multi-Winner Council</h3>
+                            <div className="flex flex-wrap gap-4 items-center mb-2">
+                                <select
+                                    value={multiWinnerMethod}
+                                    onChange={(e) => setMultiWinnerMethod(e.target.value as MultiWinnerMethod)}
+                                    className="px-2 py-1 border rounded"
+                                >
+                                    {Object.entries(multiWinnerMethods).map(([value, label]) => (
+                                        <option key={value} value={value}>{label}</option>
+                                    ))}
+                                </select>
+                                <div className="flex items-center gap-2">
+                                    <label>Seats:</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        max={isPartyListMethod(multiWinnerMethod) ? 50 : candidates.length}
+                                        value={seatCount}
+                                        onChange={(e) => setSeatCount(Math.max(1, parseInt(e.target.value) || 1))}
+                                        className="px-2 py-1 border rounded w-20"
+                                    />
+                                </div>
+                                <label className="flex items-center gap-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={showRepresentatives}
+                                        onChange={(e) => setShowRepresentatives(e.target.checked)}
+                                    />
+                                    Colour voters by representative
+                                </label>
+                            </div>
+                            <p className="text-sm text-gray-600 mb-2">{multiWinnerDescriptions[multiWinnerMethod]}</p>
+                            <div className="space-y-1">
+                                {candidates.map(candidate => {
+                                    const seats = councilResult.seats[candidate.id] ?? 0;
+                                    const represented = councilResult.representatives.filter(id => id === candidate.id).length;
+                                    return (
+                                        <div key={candidate.id} className="flex items-center gap-2">
+                                            <span className="w-32 truncate">{candidate.name}</span>
+                                            <div className="flex gap-0.5 w-48 flex-wrap">
+                                                {Array.from({ length: seats }, (_, i) => (
+                                                    <div key={i} className="w-3 h-3 rounded-sm" style={{ backgroundColor: candidate.color }} />
+                                                ))}
+                                            </div>
+                                            <span className="text-sm text-gray-600">
+                                                {seats} {seats === 1 ? 'seat' : 'seats'}
+                                                {seats > 0 && ` · represents ${represented} voters (${(represented / voters.length * 100).toFixed(1)}%)`}
+                                            </span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                            <ul className="mt-2 text-xs text-gray-500 space-y-0.5">
+                                {councilResult.roundDetails.map((detail, i) => (
+                                    <li key={i}>{detail}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {/* Pairwise preferences for the selected Condorcet method */}
+                    {selectedPairwise && (
+                        <div className="p-4 bg-gray-50 rounded-lg">
+                            <h3 className="font-semibold mb-2">Pairwise Preferences ({methods[selectedMethod]})</h3>
+                            <p className="text-sm text-gray-600 mb-2">Each cell shows how many voters prefer the row candidate to the column candidate.</p>
+                            <table className="text-sm bg-white border">
+                                <thead>
+                                    <tr>
+                                        <th className="px-2 py-1 border"></th>
+                                        {candidates.map(c => (
+                                            <th key={c.id} className="px-2 py-1 border" style={{ color: c.color }}>{c.name}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {candidates.map(row => (
+                                        <tr key={row.id}>
+                                            <th className="px-2 py-1 border text-left" style={{ color: row.color }}>{row.name}</th>
+                                            {candidates.map(col => {
+                                                const count = selectedPairwise[row.id]?.[col.id];
+                                                const beats = count !== undefined && count > selectedPairwise[col.id][row.id];
+                                                return (
+                                                    <td key={col.id} className={`px-2 py-1 border text-right ${beats ? 'font-semibold' : ''}`}>
+                                                        {row.id === col.id ? '—' : count !== undefined && formatVotes(count)}
+                                                    </td>
+                                                );
+                                            })}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
                 </div>
             ) : (
                 <div className="mt-4 p-4 bg-gray-100 rounded-lg text-center">
@@ -570,6 +1382,369 @@ const VotingMethodViz = () => {
                 </div>
             )}
 
+            {/* Analyses that need no generated voters; positioning and criteria use the theoretical grid until there are some */}
+            <div className="mt-4 space-y-4">
+                {/* Candidates repositioning to improve their own results */}
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <h3 className="font-semibold mb-2">Candidate Positioning ({methods[selectedMethod]})</h3>
+                    <div className="flex flex-wrap items-center gap-4 mb-2">
+                        <select
+                            value={positioningRule}
+                            onChange={(e) => setPositioningRule(e.target.value as PositioningRule)}
+                            className="px-2 py-1 border rounded"
+                        >
+                            {Object.entries(positioningRules).map(([value, label]) => (
+                                <option key={value} value={value}>{label}</option>
+                            ))}
+                        </select>
+                        <div className="flex items-center gap-2">
+                            <label>Step:</label>
+                            <input
+                                type="range"
+                                min="0.005"
+                                max="0.1"
+                                step="0.005"
+                                value={positioningStep}
+                                onChange={(e) => setPositioningStep(parseFloat(e.target.value))}
+                                className="w-32"
+                            />
+                            <span>{positioningStep.toFixed(3)}</span>
+                        </div>
+                        <button
+                            onClick={() => positioningRunning ? setPositioningRunning(false) : handleStartPositioning()}
+                            disabled={comparingMethod !== null}
+                            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                        >
+                            {positioningRunning ? 'Pause' : positioning?.status === 'running' ? 'Resume' : 'Start'}
+                        </button>
+                        <button
+                            onClick={handleResetPositioning}
+                            disabled={!positioningStart}
+                            className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+                        >
+                            Reset Positions
+                        </button>
+                        <button
+                            onClick={handleComparePositioning}
+                            disabled={positioningRunning || comparingMethod !== null}
+                            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                        >
+                            Compare All Methods
+                        </button>
+                    </div>
+                    <p className="text-sm text-gray-600 mb-2">
+                        {positioningDescriptions[positioningRule]} A candidate&apos;s result is 1 for winning plus their share of the tally
+                        (or their average head-to-head share under ranked methods), measured
+                        against {hasGeneratedVoters ? `${positioningVoters.length} of the generated voters` : 'the theoretical grid'}.
+                    </p>
+                    {positioning && (
+                        <p className="text-sm mb-2">
+                            {describePositioning(positioning)}; candidates average{' '}
+                            {meanDistanceFrom(positioning.candidates, positioningMedian, sliceAxes).toFixed(3)} from the median voter
+                            {positioningStart && ` (started at ${meanDistanceFrom(positioningStart, positioningMedian, sliceAxes).toFixed(3)})`}.
+                        </p>
+                    )}
+                    {comparingMethod && (
+                        <p className="text-sm text-gray-600 mb-2">Simulating {methods[comparingMethod]}…</p>
+                    )}
+                    {positioningComparison && Object.keys(positioningComparison.outcomes).length > 0 && (
+                        <table className="text-sm bg-white border">
+                            <thead>
+                                <tr>
+                                    <th className="px-2 py-1 border text-left">Method</th>
+                                    <th className="px-2 py-1 border text-left">Outcome (up to {COMPARISON_ROUNDS} rounds)</th>
+                                    <th className="px-2 py-1 border text-right">Distance from median</th>
+                                    <th className="px-2 py-1 border text-left">Candidates moved</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {(Object.entries(methods) as [VotingMethod, string][]).map(([method, label]) => {
+                                    const outcome = positioningComparison.outcomes[method];
+                                    if (!outcome) return null;
+                                    const before = meanDistanceFrom(positioningComparison.start, positioningMedian, sliceAxes);
+                                    const after = meanDistanceFrom(outcome.candidates, positioningMedian, sliceAxes);
+                                    return (
+                                        <tr key={method}>
+                                            <td className="px-2 py-1 border">{label}</td>
+                                            <td className="px-2 py-1 border">{describePositioning(outcome)}</td>
+                                            <td className="px-2 py-1 border text-right">{before.toFixed(3)} → {after.toFixed(3)}</td>
+                                            <td className="px-2 py-1 border">
+                                                {after < before - 0.01 ? 'towards the centre' : after > before + 0.01 ? 'outwards' : 'little change'}
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+
+                {/* Voting criteria the current scenario makes each method fail */}
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <h3 className="font-semibold mb-2">Criteria Check</h3>
+                    <div className="flex items-center gap-4 mb-2">
+                        <button
+                            onClick={handleCheckCriteria}
+                            disabled={checkingCriteria !== null}
+                            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                        >
+                            Check Criteria
+                        </button>
+                        {checkingCriteria && <span className="text-sm text-gray-600">Checking {methods[checkingCriteria]}…</span>}
+                    </div>
+                    <p className="text-sm text-gray-600 mb-2">
+                        Tests every method on {hasGeneratedVoters ? 'the generated voters' : 'the theoretical grid of voters'} and the
+                        current candidates. Click a ✗ to show the candidate and voters involved on the map.
+                    </p>
+                    {criteriaReports && Object.keys(criteriaReports).length > 0 && (
+                        <table className="text-sm bg-white border">
+                            <thead>
+                                <tr>
+                                    <th className="px-2 py-1 border text-left">Method</th>
+                                    {(Object.entries(criteria) as [Criterion, string][]).map(([criterion, label]) => (
+                                        <th key={criterion} className="px-2 py-1 border text-center" title={criterionDescriptions[criterion]}>
+                                            {label}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {(Object.entries(methods) as [VotingMethod, string][]).map(([method, label]) => {
+                                    const violations = criteriaReports[method];
+                                    if (!violations) return null;
+                                    return (
+                                        <tr key={method}>
+                                            <td className="px-2 py-1 border">{label}</td>
+                                            {(Object.keys(criteria) as Criterion[]).map(criterion => {
+                                                const violation = violations.find(v => v.criterion === criterion);
+                                                const selected = selectedViolation?.violation === violation;
+                                                return (
+                                                    <td key={criterion} className="px-2 py-1 border text-center">
+                                                        {violation ? (
+                                                            <button
+                                                                onClick={() => setSelectedViolation(selected ? null : { method, violation })}
+                                                                className={`px-2 rounded text-red-600 ${selected ? 'bg-red-100' : 'hover:bg-red-50'}`}
+                                                                title={violation.explanation}
+                                                            >
+                                                                ✗
+                                                            </button>
+                                                        ) : (
+                                                            <span className="text-green-600">✓</span>
+                                                        )}
+                                                    </td>
+                                                );
+                                            })}
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                    {selectedViolation && (
+                        <p className="text-sm mt-2">
+                            <span className="font-medium">
+                                {methods[selectedViolation.method]} fails {criteria[selectedViolation.violation.criterion]}:
+                            </span>{' '}
+                            {selectedViolation.violation.explanation}
+                        </p>
+                    )}
+                </div>
+
+                {/* Voter Satisfaction Efficiency over many random elections */}
+                <div className="p-4 bg-gray-50 rounded-lg">
+                    <h3 className="font-semibold mb-2">Satisfaction Benchmark</h3>
+                    <div className="flex flex-wrap items-center gap-4 mb-2">
+                        <div className="flex items-center gap-2">
+                            <label>Elections:</label>
+                            <input
+                                type="number"
+                                min="10"
+                                max="100000"
+                                step="100"
+                                value={benchmarkTrials}
+                                onChange={(e) => setBenchmarkTrials(Math.max(10, Math.min(100000, parseInt(e.target.value) || 10)))}
+                                className="px-2 py-1 border rounded w-24"
+                            />
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <label>Voters each:</label>
+                            <input
+                                type="number"
+                                min="10"
+                                max="5000"
+                                step="10"
+                                value={benchmarkVoters}
+                                onChange={(e) => setBenchmarkVoters(Math.max(10, Math.min(5000, parseInt(e.target.value) || 10)))}
+                                className="px-2 py-1 border rounded w-20"
+                            />
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <label>Candidates:</label>
+                            <input
+                                type="number"
+                                min="2"
+                                max="10"
+                                value={benchmarkCandidates[0]}
+                                onChange={(e) => {
+                                    const fewest = Math.max(2, Math.min(10, parseInt(e.target.value) || 2));
+                                    setBenchmarkCandidates(([, most]) => [fewest, Math.max(fewest, most)]);
+                                }}
+                                className="px-2 py-1 border rounded w-16"
+                            />
+                            <span>to</span>
+                            <input
+                                type="number"
+                                min="2"
+                                max="10"
+                                value={benchmarkCandidates[1]}
+                                onChange={(e) => {
+                                    const most = Math.max(2, Math.min(10, parseInt(e.target.value) || 2));
+                                    setBenchmarkCandidates(([fewest]) => [Math.min(fewest, most), most]);
+                                }}
+                                className="px-2 py-1 border rounded w-16"
+                            />
+                        </div>
+                        {benchmarkRunning ? (
+                            <button
+                                onClick={() => setBenchmarkRunning(false)}
+                                className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600"
+                            >
+                                Stop
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleStartBenchmark}
+                                className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+                            >
+                                Run Benchmark
+                            </button>
+                        )}
+                    </div>
+                    <p className="text-sm text-gray-600 mb-2">
+                        Generates random elections from the current voter distribution ({voterDistribution}), with candidates drawn from
+                        the same distribution, and scores each method&apos;s winner by average voter utility (minus distance).
+                        Voter Satisfaction Efficiency is 100% for the best candidate and 0% for a random one; Bayesian regret is the
+                        utility lost against the best candidate. Strategic voters follow the Voter Strategy settings (fraction{' '}
+                        {(strategicFraction * 100).toFixed(0)}%).
+                    </p>
+                    {benchmark && benchmarkRun && (
+                        <div className="text-sm mb-2">
+                            {benchmark.trialsRun} of {benchmarkRun.settings.trials} elections
+                            {benchmark.skipped > 0 && ` (${benchmark.skipped} skipped: every candidate equally good)`}
+                            {benchmarkRunning && '…'}
+                        </div>
+                    )}
+                    {benchmarkRows.length > 0 && (
+                        <table className="text-sm bg-white border">
+                            <thead>
+                                <tr>
+                                    <th
+                                        className="px-2 py-1 border text-left cursor-pointer"
+                                        onClick={() => handleSortBenchmark(null)}
+                                    >
+                                        Method
+                                    </th>
+                                    {benchmarkColumns.map(column => {
+                                        const active = benchmarkSort.column?.stat === column.stat && benchmarkSort.column?.strategy === column.strategy;
+                                        return (
+                                            <th
+                                                key={`${column.stat}-${column.strategy}`}
+                                                className="px-2 py-1 border text-right cursor-pointer"
+                                                onClick={() => handleSortBenchmark(column)}
+                                            >
+                                                {column.stat === 'vse' ? 'VSE' : 'Regret'} ({benchmarkStrategies[column.strategy]})
+                                                {active && (benchmarkSort.descending ? ' ▼' : ' ▲')}
+                                            </th>
+                                        );
+                                    })}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {benchmarkRows.map(row => (
+                                    <tr key={row.method}>
+                                        <td className="px-2 py-1 border">{methods[row.method]}</td>
+                                        {benchmarkColumns.map(({ stat, strategy }) => {
+                                            const { mean, margin } = row[stat][strategy];
+                                            return (
+                                                <td key={`${stat}-${strategy}`} className="px-2 py-1 border text-right">
+                                                    {stat === 'vse'
+                                                        ? `${(mean * 100).toFixed(1)}% ± ${(margin * 100).toFixed(1)}`
+                                                        : `${mean.toFixed(4)} ± ${margin.toFixed(4)}`}
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    {benchmarkRows.length > 0 && (
+                        <p className="text-xs text-gray-500 mt-1">± gives the 95% confidence interval. Click a column heading to sort.</p>
+                    )}
+                </div>
+            </div>
+
+            {/* Real ballot data */}
+            <div className="mt-4 mb-4 p-4 bg-gray-50 rounded-lg">
+                <h3 className="font-semibold mb-2">
+                    Imported Ballots{importedBallots && ` (${importedBallots.ballots.length} ballots, ${importedCandidates.length} candidates)`}
+                </h3>
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <select
+                        value={importFormat}
+                        onChange={(e) => setImportFormat(e.target.value as BallotFormat)}
+                        className="px-2 py-1 border rounded"
+                    >
+                        {Object.entries(ballotFormats).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                        ))}
+                    </select>
+                    <input
+                        type="file"
+                        accept=".csv,.txt,.soi,.soc,.toc"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) handleImportBallots(file);
+                            e.target.value = '';
+                        }}
+                    />
+                    {importedBallots && (
+                        <button
+                            onClick={() => setImportedBallots(null)}
+                            className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+                        >
+                            Clear
+                        </button>
+                    )}
+                </div>
+                <p className="text-sm text-gray-600 mb-2">{ballotFormatDescriptions[importFormat]}</p>
+                {importError && <p className="text-sm text-red-600 mb-2">Could not import ballots: {importError}</p>}
+                {importedBallots && importedResults && (
+                    <>
+                        {importedBallots.notes.map(note => (
+                            <p key={note} className="text-sm text-amber-700 mb-2">{note}</p>
+                        ))}
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                            {(Object.entries(methods) as [VotingMethod, string][]).map(([method, label]) => {
+                                const imported = importedResults[method];
+                                if (!imported) return null;
+
+                                return (
+                                    <ResultCard
+                                        key={`imported-${method}`}
+                                        method={method}
+                                        label={label}
+                                        selected={method === selectedMethod}
+                                        candidates={importedCandidates}
+                                        {...imported}
+                                    />
+                                );
+                            })}
+                        </div>
+                    </>
+                )}
+            </div>
+
             {showSettings && (
                 <div className="mb-4 p-4 bg-gray-50 rounded-lg">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -590,7 +1765,7 @@ const VotingMethodViz = () => {
                                             <input
                                                 type="number"
                                                 value={candidate.x.toFixed(2)}
-                                                onChange={(e) => handleCoordinateInput(candidate.id, 'x', e.target.value)}
+                                                onChange={(e) => handleCoordinateInput(candidate.id, 0, e.target.value)}
                                                 step="0.05"
                                                 min="0"
                                                 max="1"
@@ -600,12 +1775,26 @@ const VotingMethodViz = () => {
                                             <input
                                                 type="number"
                                                 value={candidate.y.toFixed(2)}
-                                                onChange={(e) => handleCoordinateInput(candidate.id, 'y', e.target.value)}
+                                                onChange={(e) => handleCoordinateInput(candidate.id, 1, e.target.value)}
                                                 step="0.05"
                                                 min="0"
                                                 max="1"
                                                 className="px-2 py-1 border rounded w-20"
                                             />
+                                            {Array.from({ length: dimensions - 2 }, (_, i) => i + 2).map(dimension => (
+                                                <React.Fragment key={dimension}>
+                                                    <label className="text-sm">D{dimension + 1}:</label>
+                                                    <input
+                                                        type="number"
+                                                        value={getCoordinate(candidate, dimension).toFixed(2)}
+                                                        onChange={(e) => handleCoordinateInput(candidate.id, dimension, e.target.value)}
+                                                        step="0.05"
+                                                        min="0"
+                                                        max="1"
+                                                        className="px-2 py-1 border rounded w-20"
+                                                    />
+                                                </React.Fragment>
+                                            ))}
                                         </div>
                                         <button
                                             onClick={() => removeCandidate(candidate.id)}
@@ -644,7 +1833,7 @@ const VotingMethodViz = () => {
                                         className="px-2 py-1 border rounded w-24"
                                     />
                                     <button
-                                        onClick={() => setVoters(generateVoters(voterCount, voterDistribution))}
+                                        onClick={() => setVoters(generateVoters(voterCount, voterDistribution, seed, mixture, dimensions))}
                                         className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
                                     >
                                         Generate Voters
@@ -654,14 +1843,416 @@ const VotingMethodViz = () => {
                                     <label>Distribution:</label>
                                     <select
                                         value={voterDistribution}
-                                        onChange={(e) => setVoterDistribution(e.target.value as typeof voterDistribution)}
+                                        onChange={(e) => setVoterDistribution(e.target.value as VoterDistribution)}
                                         className="px-2 py-1 border rounded"
                                     >
                                         <option value="uniform">Uniform</option>
                                         <option value="normal">Normal</option>
                                         <option value="clustered">Clustered</option>
+                                        <option value="mixture">Custom mixture</option>
+                                    </select>
+                                </div>
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <label>Mixture presets:</label>
+                                    {Object.entries(mixturePresets).map(([name, preset]) => (
+                                        <button
+                                            key={name}
+                                            onClick={() => loadMixturePreset(name)}
+                                            className="px-2 py-1 bg-gray-100 hover:bg-gray-200 rounded text-sm"
+                                        >
+                                            {preset.label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {voterDistribution === 'mixture' && (
+                                    <div className="space-y-2 p-2 border rounded bg-white">
+                                        <div className="flex items-center justify-between">
+                                            <label className="flex items-center gap-2">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={editingMixture}
+                                                    onChange={(e) => setEditingMixture(e.target.checked)}
+                                                />
+                                                Edit clusters on the map
+                                            </label>
+                                            <button
+                                                onClick={addCluster}
+                                                className="px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+                                            >
+                                                Add Cluster
+                                            </button>
+                                        </div>
+                                        {mixture.map((cluster, i) => (
+                                            <div key={cluster.id} className="flex flex-wrap items-center gap-2 text-sm">
+                                                <span className="font-medium w-16">Cluster {i + 1}</span>
+                                                <label>Weight:</label>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step="0.1"
+                                                    value={cluster.weight}
+                                                    onChange={(e) => updateCluster(cluster.id, { weight: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                                    className="px-1 py-0.5 border rounded w-16"
+                                                />
+                                                <select
+                                                    value={cluster.shape}
+                                                    onChange={(e) => updateCluster(cluster.id, { shape: e.target.value as ClusterShape })}
+                                                    className="px-1 py-0.5 border rounded"
+                                                >
+                                                    {Object.entries(clusterShapes).map(([value, label]) => (
+                                                        <option key={value} value={value}>{label}</option>
+                                                    ))}
+                                                </select>
+                                                <label>Correlation:</label>
+                                                <input
+                                                    type="range"
+                                                    min="-0.95"
+                                                    max="0.95"
+                                                    step="0.05"
+                                                    value={cluster.correlation}
+                                                    onChange={(e) => updateCluster(cluster.id, { correlation: parseFloat(e.target.value) })}
+                                                    className="w-20"
+                                                />
+                                                <span className="w-10">{cluster.correlation.toFixed(2)}</span>
+                                                <label>Turnout:</label>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    max="100"
+                                                    step="5"
+                                                    value={cluster.turnout !== undefined ? Math.round(cluster.turnout * 100) : ''}
+                                                    placeholder="100"
+                                                    onChange={(e) => updateCluster(cluster.id, {
+                                                        turnout: e.target.value === ''
+                                                            ? undefined
+                                                            : Math.max(0, Math.min(100, parseFloat(e.target.value) || 0)) / 100
+                                                    })}
+                                                    className="px-1 py-0.5 border rounded w-16"
+                                                />
+                                                <span>%</span>
+                                                <span className="text-gray-600">
+                                                    ({cluster.x.toFixed(2)}, {cluster.y.toFixed(2)}) σ {cluster.sdX.toFixed(2)} × {cluster.sdY.toFixed(2)}
+                                                </span>
+                                                <button
+                                                    onClick={() => applyMixture(mixture.filter(c => c.id !== cluster.id))}
+                                                    className="px-2 py-0.5 text-red-600 hover:bg-red-50 rounded ml-auto"
+                                                >
+                                                    Remove
+                                                </button>
+                                            </div>
+                                        ))}
+                                        <p className="text-gray-600 text-sm">
+                                            Drag a cluster&apos;s black handle to move it and its white handles to stretch it.
+                                            Voters are redrawn from the mixture after each change.
+                                        </p>
+                                    </div>
+                                )}
+                                <div className="flex items-center gap-2">
+                                    <label>Random seed:</label>
+                                    <input
+                                        type="number"
+                                        value={seed}
+                                        onChange={(e) => setSeed(parseInt(e.target.value) || 0)}
+                                        className="px-2 py-1 border rounded w-28"
+                                    />
+                                </div>
+                                <p className="text-sm text-gray-600">
+                                    The seed drives voter generation, random tie-breaks and perception draws: the same seed,
+                                    distribution and count always give the same voters.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div>
+                            <h3 className="font-semibold mb-2">Issue Space</h3>
+                            <div className="space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <label>Dimensions:</label>
+                                    <select
+                                        value={dimensions}
+                                        onChange={(e) => {
+                                            const count = parseInt(e.target.value);
+                                            setDimensions(count);
+                                            setSliceAxes(([h, v]) => h < count && v < count ? [h, v] : [0, 1]);
+                                        }}
+                                        className="px-2 py-1 border rounded"
+                                    >
+                                        {Array.from({ length: MAX_DIMENSIONS - 1 }, (_, i) => i + 2).map(count => (
+                                            <option key={count} value={count}>{count}</option>
+                                        ))}
+                                    </select>
+                                    <label>Metric:</label>
+                                    <select
+                                        value={metric}
+                                        onChange={(e) => setMetric(e.target.value as DistanceMetric)}
+                                        className="px-2 py-1 border rounded"
+                                    >
+                                        {Object.entries(distanceMetrics).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                    {metric === 'minkowski' && (
+                                        <>
+                                            <label>p:</label>
+                                            <input
+                                                type="number"
+                                                min="1"
+                                                step="0.5"
+                                                value={minkowskiP}
+                                                onChange={(e) => setMinkowskiP(Math.max(1, parseFloat(e.target.value) || 1))}
+                                                className="px-2 py-1 border rounded w-16"
+                                            />
+                                        </>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <label>Canvas shows:</label>
+                                    {(['Horizontal', 'Vertical'] as const).map((axisLabel, axis) => (
+                                        <select
+                                            key={axisLabel}
+                                            title={`${axisLabel} axis`}
+                                            value={sliceAxes[axis]}
+                                            onChange={(e) => {
+                                                const next: [number, number] = [...sliceAxes];
+                                                next[axis] = parseInt(e.target.value);
+                                                if (next[0] !== next[1]) setSliceAxes(next);
+                                            }}
+                                            className="px-2 py-1 border rounded"
+                                        >
+                                            {Array.from({ length: dimensions }, (_, i) => (
+                                                <option key={i} value={i}>D{i + 1}</option>
+                                            ))}
+                                        </select>
+                                    ))}
+                                </div>
+                                {Array.from({ length: dimensions }, (_, i) => (
+                                    <div key={i} className="flex items-center gap-2 text-sm">
+                                        <span className="w-8">D{i + 1}</span>
+                                        <label>Salience:</label>
+                                        <input
+                                            type="range"
+                                            min="0"
+                                            max="3"
+                                            step="0.1"
+                                            value={salience[i]}
+                                            onChange={(e) => setSalience(salience.map((w, j) => j === i ? parseFloat(e.target.value) : w))}
+                                            className="w-24"
+                                        />
+                                        <span className="w-8">{salience[i].toFixed(1)}</span>
+                                        {!sliceAxes.includes(i) && (
+                                            <>
+                                                <label>Slice at:</label>
+                                                <input
+                                                    type="range"
+                                                    min="0"
+                                                    max="1"
+                                                    step="0.01"
+                                                    value={sliceValues[i]}
+                                                    onChange={(e) => setSliceValues(sliceValues.map((v, j) => j === i ? parseFloat(e.target.value) : v))}
+                                                    className="w-24"
+                                                />
+                                                <span>{sliceValues[i].toFixed(2)}</span>
+                                            </>
+                                        )}
+                                    </div>
+                                ))}
+                                <p className="text-sm text-gray-600">
+                                    Preferences use the chosen metric across every dimension, each scaled by its salience.
+                                    The map is a 2D slice with the other dimensions held at the slider values. Non-Euclidean
+                                    metrics and uneven salience can make pairwise majorities cycle. Regenerate voters after
+                                    adding dimensions to spread them across the new ones.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div>
+                            <h3 className="font-semibold mb-2">Voter Strategy</h3>
+                            <div className="space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <label>Voters:</label>
+                                    <select
+                                        value={voterStrategy}
+                                        onChange={(e) => setVoterStrategy(e.target.value as VoterStrategy)}
+                                        className="px-2 py-1 border rounded"
+                                    >
+                                        {Object.entries(voterStrategies).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
                                     </select>
                                 </div>
+                                {voterStrategy !== 'sincere' && (
+                                    <div className="flex items-center gap-2">
+                                        <label>Strategic voters:</label>
+                                        <input
+                                            type="range"
+                                            min="0"
+                                            max="1"
+                                            step="0.05"
+                                            value={strategicFraction}
+                                            onChange={(e) => setStrategicFraction(parseFloat(e.target.value))}
+                                            className="w-48"
+                                        />
+                                        <span>{Math.round(strategicFraction * 100)}%</span>
+                                    </div>
+                                )}
+                                <p className="text-sm text-gray-600">
+                                    {strategyDescriptions[voterStrategy]} Plurality voters compromise on their preferred
+                                    front-runner, Borda voters bury the rival front-runner and approval voters approve
+                                    everyone better than their average candidate; other methods stay sincere. The map
+                                    shows how a strategic voter at each point votes.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div>
+                            <h3 className="font-semibold mb-2">Ranked Ballots</h3>
+                            <div className="space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <label>Rank at most:</label>
+                                    <select
+                                        value={maxRankings ?? ''}
+                                        onChange={(e) => setMaxRankings(e.target.value === '' ? null : parseInt(e.target.value))}
+                                        className="px-2 py-1 border rounded"
+                                    >
+                                        <option value="">All candidates</option>
+                                        {Array.from({ length: candidates.length - 1 }, (_, i) => i + 1).map(k => (
+                                            <option key={k} value={k}>{k}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <label className="flex items-center gap-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={rankingRadius !== null}
+                                            onChange={(e) => setRankingRadius(e.target.checked ? 0.4 : null)}
+                                        />
+                                        Only rank within:
+                                    </label>
+                                    {rankingRadius !== null && (
+                                        <>
+                                            <input
+                                                type="range"
+                                                min="0.1"
+                                                max="1"
+                                                step="0.05"
+                                                value={rankingRadius}
+                                                onChange={(e) => setRankingRadius(parseFloat(e.target.value))}
+                                                className="w-32"
+                                            />
+                                            <span>{rankingRadius.toFixed(2)}</span>
+                                        </>
+                                    )}
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <label>Borda partial ballots:</label>
+                                    <select
+                                        value={bordaPartialRule}
+                                        onChange={(e) => setBordaPartialRule(e.target.value as BordaPartialRule)}
+                                        className="px-2 py-1 border rounded"
+                                    >
+                                        {Object.entries(bordaPartialRules).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <p className="text-sm text-gray-600">
+                                    Limits apply to rankings only (IRV, Borda and the Condorcet methods). Instant Runoff
+                                    reports exhausted ballots each round.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div>
+                            <h3 className="font-semibold mb-2">Voter Perception</h3>
+                            <div className="space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <label>Position error:</label>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="0.3"
+                                        step="0.01"
+                                        value={perceptionNoise}
+                                        onChange={(e) => setPerceptionNoise(parseFloat(e.target.value))}
+                                        className="w-40"
+                                    />
+                                    <span>σ = {perceptionNoise.toFixed(2)}</span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <label>Awareness:</label>
+                                    <input
+                                        type="range"
+                                        min="0.2"
+                                        max="1"
+                                        step="0.05"
+                                        value={awareness}
+                                        onChange={(e) => setAwareness(parseFloat(e.target.value))}
+                                        className="w-40"
+                                    />
+                                    <span>{Math.round(awareness * 100)}%</span>
+                                </div>
+                                <p className="text-sm text-gray-600">
+                                    Each voter sees every candidate&apos;s position shifted by Gaussian error and knows each
+                                    candidate with the given chance; ballots only rank known candidates where the voter
+                                    believes them to be. The map still shows exact positions.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div>
+                            <h3 className="font-semibold mb-2">Turnout</h3>
+                            <div className="space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <label>Abstention:</label>
+                                    <select
+                                        value={turnoutModel}
+                                        onChange={(e) => setTurnoutModel(e.target.value as TurnoutModel)}
+                                        className="px-2 py-1 border rounded"
+                                    >
+                                        {Object.entries(turnoutModels).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {turnoutModel !== 'full' && (
+                                    <div className="flex items-center gap-2">
+                                        <label>Sensitivity:</label>
+                                        <input
+                                            type="range"
+                                            min="1"
+                                            max="20"
+                                            step="0.5"
+                                            value={turnoutSensitivity}
+                                            onChange={(e) => setTurnoutSensitivity(parseFloat(e.target.value))}
+                                            className="w-40"
+                                        />
+                                        <span>{turnoutSensitivity.toFixed(1)}</span>
+                                    </div>
+                                )}
+                                <p className="text-sm text-gray-600">
+                                    {turnoutDescriptions[turnoutModel]} Mixture clusters can also set a fixed turnout rate.
+                                    Each ballot counts with its voter&apos;s weight times their chance of turning out.
+                                </p>
+                            </div>
+                        </div>
+
+                        <div>
+                            <h3 className="font-semibold mb-2">Tie-Breaking</h3>
+                            <div className="space-y-2">
+                                <div className="flex items-center gap-2">
+                                    <label>Policy:</label>
+                                    <select
+                                        value={tieBreakPolicy}
+                                        onChange={(e) => setTieBreakPolicy(e.target.value as TieBreakPolicy)}
+                                        className="px-2 py-1 border rounded"
+                                    >
+                                        {Object.entries(tieBreakPolicies).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <p className="text-sm text-gray-600">Every tie that gets broken is listed in the round details.</p>
                             </div>
                         </div>
 
@@ -683,6 +2274,52 @@ const VotingMethodViz = () => {
                                 </div>
                             </div>
                         )}
+
+                        {(selectedMethod === 'score' || selectedMethod === 'star') && (
+                            <div>
+                                <h3 className="font-semibold mb-2">Score Voting Settings</h3>
+                                <div className="space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        <label>Scale:</label>
+                                        <select
+                                            value={scoreScale}
+                                            onChange={(e) => setScoreScale(parseInt(e.target.value) as ScoreScale)}
+                                            className="px-2 py-1 border rounded"
+                                        >
+                                            <option value={5}>0–5</option>
+                                            <option value={10}>0–10</option>
+                                            <option value={100}>0–100</option>
+                                        </select>
+                                    </div>
+                                    <div className="flex items-center gap-2">
+                                        <label>Normalization:</label>
+                                        <select
+                                            value={scoreNormalization}
+                                            onChange={(e) => setScoreNormalization(e.target.value as ScoreNormalization)}
+                                            className="px-2 py-1 border rounded"
+                                        >
+                                            <option value="minMax">Per-voter min/max</option>
+                                            <option value="bands">Absolute distance bands</option>
+                                        </select>
+                                    </div>
+                                    {scoreNormalization === 'bands' && (
+                                        <div className="flex items-center gap-2">
+                                            <label>Zero-score distance:</label>
+                                            <input
+                                                type="range"
+                                                min="0.1"
+                                                max="1"
+                                                step="0.05"
+                                                value={scoreRadius}
+                                                onChange={(e) => setScoreRadius(parseFloat(e.target.value))}
+                                                className="w-40"
+                                            />
+                                            <span>{(scoreRadius * 100).toFixed(0)}%</span>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 </div>
             )}
@@ -699,6 +2336,109 @@ const VotingMethodViz = () => {
                     onMouseUp={handleCanvasMouseUp}
                     onMouseLeave={handleCanvasMouseUp}
                 />
+                <div className="flex flex-wrap items-center gap-4 mt-2 text-sm">
+                    <div className="flex items-center gap-2">
+                        <label>Map shows:</label>
+                        <select
+                            value={mapMode}
+                            onChange={(e) => setMapMode(e.target.value as MapMode)}
+                            className="px-2 py-1 border rounded"
+                        >
+                            {Object.entries(mapModes).map(([mode, label]) => (
+                                <option key={mode} value={mode}>{label}</option>
+                            ))}
+                        </select>
+                    </div>
+                    {mapMode === 'election' && (
+                        <>
+                            <div className="flex items-center gap-2">
+                                <label>Spread:</label>
+                                <input
+                                    type="range"
+                                    min="0.02"
+                                    max="0.5"
+                                    step="0.01"
+                                    value={mapSpread}
+                                    onChange={(e) => setMapSpread(parseFloat(e.target.value))}
+                                    className="w-32"
+                                />
+                                <span>{mapSpread.toFixed(2)}</span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <label>Voters per point:</label>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max={MAX_MAP_VOTERS}
+                                    value={mapVoterCount}
+                                    onChange={(e) => setMapVoterCount(
+                                        Math.max(1, Math.min(MAX_MAP_VOTERS, parseInt(e.target.value) || 1))
+                                    )}
+                                    className="px-2 py-1 border rounded w-20"
+                                />
+                            </div>
+                        </>
+                    )}
+                </div>
+                <p className="text-sm text-gray-600 mt-1">{mapModeDescriptions[mapMode]}</p>
+                <label
+                    className="flex items-center gap-2 mt-2 text-sm"
+                    title={canDrawRegions ? undefined : 'Only single-voter sincere ballots with straight-line (Euclidean) distances give polygon regions'}
+                >
+                    <input
+                        type="checkbox"
+                        checked={exactRegions && canDrawRegions}
+                        disabled={!canDrawRegions}
+                        onChange={(e) => setExactRegions(e.target.checked)}
+                    />
+                    Draw exact region boundaries
+                </label>
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                    <span className="font-medium">Export:</span>
+                    <button
+                        onClick={() => downloadFile('scenario.json', serializeScenario(currentScenario()), 'application/json')}
+                        className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded"
+                    >
+                        Scenario JSON
+                    </button>
+                    <button
+                        onClick={() => downloadFile('results.json', resultsToJson(methodExports(), candidates), 'application/json')}
+                        disabled={!hasGeneratedVoters}
+                        className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded disabled:text-gray-400"
+                    >
+                        Results JSON
+                    </button>
+                    <button
+                        onClick={() => downloadFile('results.csv', resultsToCsv(methodExports(), candidates), 'text/csv')}
+                        disabled={!hasGeneratedVoters}
+                        className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded disabled:text-gray-400"
+                    >
+                        Results CSV
+                    </button>
+                    <button
+                        onClick={() => downloadFile(
+                            'ballots.csv',
+                            ballotsToCsv(actualVotes?.[selectedMethod].result.ballots ?? [], candidates),
+                            'text/csv'
+                        )}
+                        disabled={!hasGeneratedVoters}
+                        className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded disabled:text-gray-400"
+                    >
+                        Ballots CSV
+                    </button>
+                    <button
+                        onClick={() => handleExportMap('png')}
+                        className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded"
+                    >
+                        Map PNG
+                    </button>
+                    <button
+                        onClick={() => handleExportMap('svg')}
+                        className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded"
+                    >
+                        Map SVG
+                    </button>
+                </div>
             </div>
         </div>
     );
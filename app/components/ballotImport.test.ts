@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'vitest';
+import { formatForFile, parseApprovalCsv, parseBallots, parsePrefLib, parseRankedCsv } from './ballotImport';
+import { electionRunners } from './election';
+import type { Candidate } from './types';
+
+const toCandidates = (names: string[]): Candidate[] =>
+    names.map((name, i) => ({ id: `${i + 1}`, x: 0.5, y: 0.5, color: 'black', name }));
+
+describe('Ranked CSV ballots', () => {
+    test('numbers candidates in order of first appearance', () => {
+        const imported = parseRankedCsv('Alice,Bob,Carol\nCarol,Alice\n\nBob');
+        expect(imported.candidateNames).toEqual(['Alice', 'Bob', 'Carol']);
+        expect(imported.ballots.map(b => b.ranking)).toEqual([['1', '2', '3'], ['3', '1'], ['2']]);
+        expect(imported.ballots[1].approved).toEqual(['3']);
+    });
+
+    test('a count column repeats ballots and quoted names may contain commas', () => {
+        const imported = parseRankedCsv('count,rank 1,rank 2\n3,"Smith, J",Lee\n2,Lee,');
+        expect(imported.candidateNames).toEqual(['Smith, J', 'Lee']);
+        expect(imported.ballots).toHaveLength(5);
+        expect(imported.ballots[4].ranking).toEqual(['2']);
+    });
+
+    test('skips a rank header and ignores repeated names', () => {
+        const imported = parseRankedCsv('Rank 1,Rank 2,Rank 3\nA,B,A');
+        expect(imported.ballots).toEqual([{ ranking: ['1', '2'], approved: ['1'] }]);
+    });
+
+    test('rejects a bad count', () => {
+        expect(() => parseRankedCsv('count,1st\nmany,A')).toThrow('Line 2: "many" is not a ballot count');
+    });
+});
+
+describe('Approval CSV ballots', () => {
+    test('reads approval marks under each candidate', () => {
+        const imported = parseApprovalCsv('count,A,B,C\n2,1,x,\n1,0,,yes');
+        expect(imported.candidateNames).toEqual(['A', 'B', 'C']);
+        expect(imported.ballots).toHaveLength(3);
+        expect(imported.ballots[0]).toEqual({ ranking: ['1', '2'], approved: ['1', '2'], scores: { 1: 1, 2: 1, 3: 0 } });
+        expect(imported.ballots[2].approved).toEqual(['3']);
+    });
+
+    test('needs a header and a ballot', () => {
+        expect(() => parseApprovalCsv('A,B')).toThrow();
+    });
+});
+
+describe('PrefLib ballots', () => {
+    const modern = [
+        '# FILE NAME: example.toc',
+        '# DATA TYPE: toc',
+        '# NUMBER ALTERNATIVES: 3',
+        '# ALTERNATIVE NAME 1: Alice',
+        '# ALTERNATIVE NAME 2: Bob',
+        '# ALTERNATIVE NAME 3: Carol',
+        '4: 1,2,3',
+        '3: 3,{1,2}',
+        '2: {2,3},1'
+    ].join('\n');
+
+    test('reads names and counted orders, keeping ties in file order', () => {
+        const imported = parsePrefLib(modern);
+        expect(imported.candidateNames).toEqual(['Alice', 'Bob', 'Carol']);
+        expect(imported.ballots).toHaveLength(9);
+        expect(imported.ballots[4]).toEqual({ ranking: ['3', '1', '2'], approved: ['3'] });
+        expect(imported.ballots[8]).toEqual({ ranking: ['2', '3', '1'], approved: ['2', '3'] });
+        expect(imported.notes).toEqual(['5 ballots rank tied alternatives; ranked methods see ties in the order the file lists them']);
+    });
+
+    test('reads the legacy format with incomplete orders', () => {
+        const imported = parsePrefLib('3\n1,Alice\n2,Bob\n3,Carol\n5,5,2\n3,2,1\n2,3');
+        expect(imported.candidateNames).toEqual(['Alice', 'Bob', 'Carol']);
+        expect(imported.ballots.map(b => b.ranking)).toEqual([['2', '1'], ['2', '1'], ['2', '1'], ['3'], ['3']]);
+        expect(imported.notes).toEqual([]);
+    });
+
+    test('rejects alternatives the file does not name', () => {
+        expect(() => parsePrefLib('# ALTERNATIVE NAME 1: A\n1: 1,2')).toThrow('Line 2: alternative 2 is not named in the file');
+    });
+
+    test('is chosen by file extension', () => {
+        expect(formatForFile('ED-00004.soi', 'rankedCsv')).toBe('preflib');
+        expect(formatForFile('ballots.csv', 'approvalCsv')).toBe('approvalCsv');
+    });
+});
+
+describe('Running methods on imported ballots', () => {
+    test('IRV and plurality can disagree on real data', () => {
+        const imported = parseBallots('count,1st,2nd\n4,A,B\n3,C,B\n2,B,C', 'rankedCsv');
+        const candidates = toCandidates(imported.candidateNames);
+        expect(electionRunners.plurality(imported.ballots, candidates, {}).winnerId).toBe('1');
+        // B is eliminated and transfers to C, who wins 5 to 4
+        const irv = electionRunners.irv(imported.ballots, candidates, {});
+        expect(irv.winnerId).toBe('3');
+        expect(irv.roundDetails.length).toBeGreaterThan(1);
+    });
+});
@@ -0,0 +1,206 @@
+import type { Ballot, BallotFormat, ImportedBallots } from './types';
+
+export const ballotFormats: Record<BallotFormat, string> = {
+    rankedCsv: 'Ranked CSV',
+    approvalCsv: 'Approval CSV',
+    preflib: 'PrefLib (.soi, .soc, .toc)'
+};
+
+export const ballotFormatDescriptions: Record<BallotFormat, string> = {
+    rankedCsv: 'One ballot per row listing candidate names, most preferred first. An optional "count" header column repeats each row.',
+    approvalCsv: 'A header row of candidate names, then one ballot per row with 1, x or yes under each approved candidate. An optional first "count" column repeats each row.',
+    preflib: 'PrefLib ordinal data: strict complete (.soc), strict incomplete (.soi) or with ties (.toc).'
+};
+
+// PrefLib files are recognised by extension; anything else keeps the chosen format
+export const formatForFile = (fileName: string, fallback: BallotFormat): BallotFormat =>
+    /\.(soi|soc|toc)$/i.test(fileName) ? 'preflib' : fallback;
+
+const idFor = (index: number): string => `${index + 1}`;
+
+const dataLines = (text: string): string[] =>
+    text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+
+// Split one CSV line into trimmed cells, honouring double-quoted fields
+const splitCsvLine = (line: string): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    cells.push(cell.trim());
+    return cells;
+};
+
+const parseCount = (cell: string, line: number): number => {
+    const count = Number(cell);
+    if (!Number.isInteger(count) || count < 0) throw new Error(`Line ${line}: "${cell}" is not a ballot count`);
+    return count;
+};
+
+const isCountHeader = (cell: string): boolean => /^(count|weight|ballots?)$/i.test(cell);
+const isRankHeader = (cell: string): boolean =>
+    /^(rank|choice|preference)\s*\d+$/i.test(cell) || /^\d+(st|nd|rd|th)$/i.test(cell);
+
+const repeat = (ballot: Ballot, count: number): Ballot[] =>
+    Array.from({ length: count }, () => ({ ...ballot }));
+
+// Ranked ballots carry no scores: rated methods fall back to n-1 points for
+// first place down to 0. Only the first preference is approved.
+const rankedBallot = (ranking: string[], approved: string[] = ranking.slice(0, 1)): Ballot =>
+    ({ ranking, approved });
+
+// One ballot per row, candidate names most preferred first. Candidates are
+// numbered in order of first appearance; repeated names keep their first rank.
+export const parseRankedCsv = (text: string): ImportedBallots => {
+    const rows = dataLines(text).filter(line => !line.startsWith('#')).map(splitCsvLine);
+    if (rows.length === 0) throw new Error('The file has no ballots');
+
+    const header = rows[0];
+    const hasCount = isCountHeader(header[0]);
+    const body = hasCount || header.every(cell => cell === '' || isRankHeader(cell)) ? rows.slice(1) : rows;
+
+    const candidateNames: string[] = [];
+    const ballots: Ballot[] = [];
+    body.forEach((row, i) => {
+        const count = hasCount ? parseCount(row[0], i + 2) : 1;
+        const ranking: string[] = [];
+        (hasCount ? row.slice(1) : row).filter(name => name !== '').forEach(name => {
+            if (!candidateNames.includes(name)) candidateNames.push(name);
+            const id = idFor(candidateNames.indexOf(name));
+            if (!ranking.includes(id)) ranking.push(id);
+        });
+        ballots.push(...repeat(rankedBallot(ranking), count));
+    });
+
+    return { candidateNames, ballots, notes: [] };
+};
+
+const APPROVED_CELL = /^(1|x|yes|y|true)$/i;
+
+// A header row of candidate names, then one row of approval marks per ballot.
+// Approval ballots have no order, so ranked methods see approved candidates in
+// column order; rated methods score approved candidates 1 and the rest 0.
+export const parseApprovalCsv = (text: string): ImportedBallots => {
+    const rows = dataLines(text).filter(line => !line.startsWith('#')).map(splitCsvLine);
+    if (rows.length < 2) throw new Error('An approval CSV needs a header row of candidate names and at least one ballot');
+
+    const hasCount = isCountHeader(rows[0][0]);
+    const candidateNames = hasCount ? rows[0].slice(1) : rows[0];
+    if (candidateNames.some(name => name === '')) throw new Error('Every column in the header row needs a candidate name');
+
+    const ballots: Ballot[] = [];
+    rows.slice(1).forEach((row, i) => {
+        const count = hasCount ? parseCount(row[0], i + 2) : 1;
+        const marks = hasCount ? row.slice(1) : row;
+        const approved = candidateNames.map((_, c) => idFor(c)).filter((_, c) => APPROVED_CELL.test(marks[c] ?? ''));
+        const scores: Record<string, number> = {};
+        candidateNames.forEach((_, c) => scores[idFor(c)] = approved.includes(idFor(c)) ? 1 : 0);
+        ballots.push(...repeat({ ranking: approved, approved, scores }, count));
+    });
+
+    return {
+        candidateNames,
+        ballots,
+        notes: ['Approval ballots have no order: ranked methods see approved candidates in column order']
+    };
+};
+
+// A PrefLib preference order such as "3,{1,2},4": single alternatives or
+// braced groups of alternatives tied at the same rank
+const parseOrder = (order: string, line: number): number[][] =>
+    (order.match(/\{[^}]*\}|[^,\s{}]+/g) ?? []).map(token =>
+        token.replace(/[{}]/g, '').split(',').map(cell => cell.trim()).filter(cell => cell !== '').map(cell => {
+            const alternative = Number(cell);
+            if (!Number.isInteger(alternative)) throw new Error(`Line ${line}: "${cell}" is not an alternative number`);
+            return alternative;
+        })
+    ).filter(group => group.length > 0);
+
+// PrefLib .soi/.soc/.toc files, in both the current format ("# ALTERNATIVE
+// NAME 1: …" metadata, then "count: order" lines) and the legacy one (number
+// of alternatives, "i,name" lines, a totals line, then "count,order" lines).
+// Tied alternatives keep the order the file lists them in; all of the tied
+// top group is approved.
+export const parsePrefLib = (text: string): ImportedBallots => {
+    const lines = dataLines(text);
+    const names = new Map<number, string>();
+    const orders: Array<{ count: number; order: string; line: number }> = [];
+
+    if (lines[0]?.startsWith('#')) {
+        lines.forEach((line, i) => {
+            const name = line.match(/^#\s*ALTERNATIVE NAME (\d+):\s*(.*)$/i);
+            if (name) names.set(Number(name[1]), name[2].trim());
+            else if (!line.startsWith('#')) {
+                const [count, order] = line.split(':');
+                if (order === undefined) throw new Error(`Line ${i + 1}: expected "count: order"`);
+                orders.push({ count: parseCount(count.trim(), i + 1), order, line: i + 1 });
+            }
+        });
+    } else {
+        const alternatives = parseCount(lines[0] ?? '', 1);
+        lines.slice(1, alternatives + 1).forEach((line, i) => {
+            const [number, ...name] = line.split(',');
+            names.set(parseCount(number.trim(), i + 2), name.join(',').trim());
+        });
+        lines.slice(alternatives + 2).forEach((line, i) => {
+            const comma = line.indexOf(',');
+            const lineNumber = alternatives + 3 + i;
+            if (comma === -1) throw new Error(`Line ${lineNumber}: expected "count,order"`);
+            orders.push({ count: parseCount(line.slice(0, comma).trim(), lineNumber), order: line.slice(comma + 1), line: lineNumber });
+        });
+    }
+    if (names.size === 0) throw new Error('The file does not name any alternatives');
+
+    const alternatives = [...names.keys()].sort((a, b) => a - b);
+    const idOf = (alternative: number, line: number): string => {
+        const index = alternatives.indexOf(alternative);
+        if (index === -1) throw new Error(`Line ${line}: alternative ${alternative} is not named in the file`);
+        return idFor(index);
+    };
+
+    let tiedBallots = 0;
+    const ballots: Ballot[] = [];
+    orders.forEach(({ count, order, line }) => {
+        const groups = parseOrder(order, line).map(group => group.map(alternative => idOf(alternative, line)));
+        if (groups.some(group => group.length > 1)) tiedBallots += count;
+        ballots.push(...repeat(rankedBallot(groups.flat(), groups[0] ?? []), count));
+    });
+
+    return {
+        candidateNames: alternatives.map(alternative => names.get(alternative)!),
+        ballots,
+        notes: tiedBallots > 0
+            ? [`${tiedBallots} ballots rank tied alternatives; ranked methods see ties in the order the file lists them`]
+            : []
+    };
+};
+
+export const parseBallots = (text: string, format: BallotFormat): ImportedBallots => {
+    switch (format) {
+        case 'approvalCsv':
+            return parseApprovalCsv(text);
+        case 'preflib':
+            return parsePrefLib(text);
+        default:
+            return parseRankedCsv(text);
+    }
+};
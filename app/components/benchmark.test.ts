@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'vitest';
+import {
+    advanceBenchmark,
+    averageUtilities,
+    createBenchmark,
+    estimate,
+    runBenchmarkTrial,
+    scoreWinner,
+    summarizeBenchmark,
+    trialCandidates,
+    type BenchmarkSettings
+} from './benchmark';
+import type { Candidate, Voter } from './types';
+
+const settings: BenchmarkSettings = {
+    trials: 30,
+    voterCount: 50,
+    distribution: 'normal',
+    clusters: [],
+    dimensions: 2,
+    candidateCounts: [3, 4],
+    seed: 1,
+    methods: ['plurality', 'borda', 'copeland']
+};
+
+describe('Utilities and VSE', () => {
+    const candidates: Candidate[] = [
+        { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+        { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' }
+    ];
+
+    test('averages minus the distance, counting voter weights', () => {
+        const voters: Voter[] = [{ id: 'v0', x: 0, y: 0, weight: 3 }, { id: 'v1', x: 1, y: 0 }];
+        expect(averageUtilities(voters, candidates)).toEqual({ A: -0.25, B: -0.75 });
+    });
+
+    test('scores the best candidate 1 and an average pick 0', () => {
+        const utilities = { A: -0.2, B: -0.4, C: -0.6 };
+        expect(scoreWinner(utilities, 'A')).toEqual({ vse: 1, regret: 0 });
+        expect(scoreWinner(utilities, 'B')!.vse).toBeCloseTo(0);
+        expect(scoreWinner(utilities, 'C')!.vse).toBeCloseTo(-1);
+        expect(scoreWinner(utilities, null)!.regret).toBeCloseTo(0.2);
+        expect(scoreWinner({ A: -0.3, B: -0.3 }, 'A')).toBeNull();
+    });
+
+    test('gives the mean with a 95% confidence interval', () => {
+        expect(estimate(4, 2, 2)).toEqual({ mean: 0.5, margin: 1.96 * Math.sqrt(1 / 3 / 4) });
+        expect(estimate(0, 0, 0)).toEqual({ mean: 0, margin: 0 });
+    });
+});
+
+describe('Benchmark runs', () => {
+    test('draws candidates reproducibly and cycles through the counts', () => {
+        expect(trialCandidates(settings, 0)).toHaveLength(3);
+        expect(trialCandidates(settings, 1)).toHaveLength(4);
+        expect(trialCandidates(settings, 5)).toEqual(trialCandidates(settings, 5));
+    });
+
+    test('scores every method under both strategies', () => {
+        const outcomes = runBenchmarkTrial(settings, 0, {})!;
+        expect(Object.keys(outcomes).sort()).toEqual([
+            'borda:sincere', 'borda:strategic', 'copeland:sincere', 'copeland:strategic', 'plurality:sincere', 'plurality:strategic'
+        ]);
+        // Copeland has no strategic model, so both strategies agree
+        expect(outcomes['copeland:strategic']).toEqual(outcomes['copeland:sincere']);
+    });
+
+    test('runs in batches to the same totals as one pass', () => {
+        const batched = advanceBenchmark(advanceBenchmark(createBenchmark(), settings, {}, 10), settings, {}, 50);
+        const whole = advanceBenchmark(createBenchmark(), settings, {}, 30);
+        expect(batched.trialsRun).toBe(30);
+        expect(batched.tallies).toEqual(whole.tallies);
+    });
+
+    test('Condorcet methods beat plurality on satisfaction', () => {
+        const state = advanceBenchmark(createBenchmark(), settings, {}, 30);
+        const rows = summarizeBenchmark(state, settings.methods);
+        const vse = Object.fromEntries(rows.map(row => [row.method, row.vse.sincere.mean]));
+        expect(rows).toHaveLength(3);
+        expect(vse.copeland).toBeGreaterThan(vse.plurality);
+        expect(vse.copeland).toBeLessThanOrEqual(1);
+    });
+});
@@ -0,0 +1,192 @@
+import { castBallots, countBallots, type VotingMethod } from './election';
+import { spaceDistance } from './space';
+import { hasStrategicModel } from './strategy';
+import type { BenchmarkStrategy, Candidate, ElectionOptions, Voter, VoterCluster, VoterDistribution } from './types';
+import { generateVoters } from './voterGeneration';
+
+export const benchmarkStrategies: Record<BenchmarkStrategy, string> = {
+    sincere: 'Sincere',
+    strategic: 'Strategic'
+};
+
+export const DEFAULT_BENCHMARK_TRIALS = 1000;
+export const DEFAULT_BENCHMARK_VOTERS = 200;
+
+// Trials run between pauses that let the page repaint progress
+export const BENCHMARK_BATCH_SIZE = 20;
+
+// z for a two-sided 95% confidence interval
+const Z_95 = 1.96;
+
+// Candidates are drawn with a seed this far from the voters' so the two never coincide
+const CANDIDATE_SEED_OFFSET = 1000003;
+
+export interface BenchmarkSettings {
+    trials: number;
+    voterCount: number;
+    distribution: VoterDistribution;
+    clusters: VoterCluster[];
+    dimensions: number;
+    // Trial t has candidateCounts[t % candidateCounts.length] candidates
+    candidateCounts: number[];
+    seed: number;
+    methods: VotingMethod[];
+}
+
+export interface TrialOutcome {
+    // 1 when the method picks the utility-maximising candidate, 0 for a random pick
+    vse: number;
+    // Average utility lost against the utility-maximising candidate
+    regret: number;
+}
+
+// Running sums for one method and strategy
+interface Tally {
+    count: number;
+    vse: number;
+    vseSquares: number;
+    regret: number;
+    regretSquares: number;
+}
+
+export interface BenchmarkState {
+    trialsRun: number;
+    // Trials where every candidate was equally good, so VSE is undefined
+    skipped: number;
+    tallies: Record<string, Tally>;
+}
+
+export interface Estimate {
+    mean: number;
+    // Half-width of the 95% confidence interval
+    margin: number;
+}
+
+export interface BenchmarkRow {
+    method: VotingMethod;
+    vse: Record<BenchmarkStrategy, Estimate>;
+    regret: Record<BenchmarkStrategy, Estimate>;
+}
+
+const tallyKey = (method: VotingMethod, strategy: BenchmarkStrategy) => `${method}:${strategy}`;
+
+// Average utility of each candidate, taking a voter's utility for a candidate
+// as minus the distance between them
+export const averageUtilities = (voters: Voter[], candidates: Candidate[], options: ElectionOptions = {}): Record<string, number> => {
+    const totalWeight = voters.reduce((sum, v) => sum + (v.weight ?? 1), 0);
+    const utilities: Record<string, number> = {};
+    candidates.forEach(c => {
+        const total = voters.reduce((sum, v) => sum - (v.weight ?? 1) * spaceDistance(v, c, options.space), 0);
+        utilities[c.id] = totalWeight > 0 ? total / totalWeight : 0;
+    });
+    return utilities;
+};
+
+// Score one winner against the best and an average (random) candidate.
+// A tied election with no winner counts as a random pick. Returns null when
+// every candidate is equally good and VSE is undefined.
+export const scoreWinner = (utilities: Record<string, number>, winnerId: string | null): TrialOutcome | null => {
+    const values = Object.values(utilities);
+    const best = Math.max(...values);
+    const random = values.reduce((a, b) => a + b, 0) / values.length;
+    if (best - random < 1e-12) return null;
+    const chosen = winnerId !== null ? utilities[winnerId] : random;
+    return { vse: (chosen - random) / (best - random), regret: best - chosen };
+};
+
+// The candidates for one trial, drawn from the same distribution as its voters
+export const trialCandidates = (settings: BenchmarkSettings, trial: number): Candidate[] => {
+    const count = settings.candidateCounts[trial % settings.candidateCounts.length];
+    return generateVoters(count, settings.distribution, settings.seed + trial + CANDIDATE_SEED_OFFSET, settings.clusters, settings.dimensions)
+        .map((point, i) => ({
+            id: `c${i}`,
+            x: point.x,
+            y: point.y,
+            ...(point.dims && { dims: point.dims }),
+            color: '',
+            name: `Candidate ${i + 1}`
+        }));
+};
+
+// Run one random election under every method and strategy. Ballots are cast
+// once and counted by each method; strategic voters follow `options`' fraction.
+export const runBenchmarkTrial = (
+    settings: BenchmarkSettings,
+    trial: number,
+    options: ElectionOptions
+): Record<string, TrialOutcome> | null => {
+    const voters = generateVoters(settings.voterCount, settings.distribution, settings.seed + trial, settings.clusters, settings.dimensions);
+    const candidates = trialCandidates(settings, trial);
+    const utilities = averageUtilities(voters, candidates, options);
+    if (scoreWinner(utilities, null) === null) return null;
+
+    const ballots = castBallots(voters, candidates, options);
+    const outcomes: Record<string, TrialOutcome> = {};
+    settings.methods.forEach(method => {
+        const sincere = countBallots(voters, ballots, candidates, method, { ...options, voterStrategy: 'sincere' });
+        // Methods without a strategic model are voted sincerely either way
+        const strategic = hasStrategicModel(method)
+            ? countBallots(voters, ballots, candidates, method, { ...options, voterStrategy: 'strategic' })
+            : sincere;
+        outcomes[tallyKey(method, 'sincere')] = scoreWinner(utilities, sincere.winnerId)!;
+        outcomes[tallyKey(method, 'strategic')] = scoreWinner(utilities, strategic.winnerId)!;
+    });
+    return outcomes;
+};
+
+export const createBenchmark = (): BenchmarkState => ({ trialsRun: 0, skipped: 0, tallies: {} });
+
+// Run trials [state.trialsRun, state.trialsRun + count) and add them to the totals
+export const advanceBenchmark = (
+    state: BenchmarkState,
+    settings: BenchmarkSettings,
+    options: ElectionOptions,
+    count: number = BENCHMARK_BATCH_SIZE
+): BenchmarkState => {
+    const tallies: Record<string, Tally> = {};
+    Object.entries(state.tallies).forEach(([key, tally]) => tallies[key] = { ...tally });
+    let skipped = state.skipped;
+    const end = Math.min(settings.trials, state.trialsRun + count);
+
+    for (let trial = state.trialsRun; trial < end; trial++) {
+        const outcomes = runBenchmarkTrial(settings, trial, options);
+        if (!outcomes) {
+            skipped++;
+            continue;
+        }
+        Object.entries(outcomes).forEach(([key, { vse, regret }]) => {
+            const tally = tallies[key] ??= { count: 0, vse: 0, vseSquares: 0, regret: 0, regretSquares: 0 };
+            tally.count++;
+            tally.vse += vse;
+            tally.vseSquares += vse * vse;
+            tally.regret += regret;
+            tally.regretSquares += regret * regret;
+        });
+    }
+
+    return { trialsRun: end, skipped, tallies };
+};
+
+// Mean and 95% confidence half-width from a sum and sum of squares
+export const estimate = (count: number, sum: number, squares: number): Estimate => {
+    if (count === 0) return { mean: 0, margin: 0 };
+    const mean = sum / count;
+    const variance = count > 1 ? Math.max(0, (squares - count * mean * mean) / (count - 1)) : 0;
+    return { mean, margin: Z_95 * Math.sqrt(variance / count) };
+};
+
+export const summarizeBenchmark = (state: BenchmarkState, methodList: VotingMethod[]): BenchmarkRow[] => {
+    const strategies = Object.keys(benchmarkStrategies) as BenchmarkStrategy[];
+    return methodList
+        .filter(method => strategies.every(strategy => state.tallies[tallyKey(method, strategy)]))
+        .map(method => {
+            const vse = {} as Record<BenchmarkStrategy, Estimate>;
+            const regret = {} as Record<BenchmarkStrategy, Estimate>;
+            strategies.forEach(strategy => {
+                const tally = state.tallies[tallyKey(method, strategy)];
+                vse[strategy] = estimate(tally.count, tally.vse, tally.vseSquares);
+                regret[strategy] = estimate(tally.count, tally.regret, tally.regretSquares);
+            });
+            return { method, vse, regret };
+        });
+};
@@ -0,0 +1,159 @@
+import { describe, expect, test } from 'vitest';
+import {
+    buildPairwiseMatrix,
+    copeland,
+    findSchwartzSet,
+    findSmithSet,
+    minimax,
+    rankedPairs,
+    schulze
+} from './condorcet';
+import { runElection } from './election';
+import { createTieBreaker } from './tieBreaking';
+import type { Candidate } from './types';
+
+const candidates: Candidate[] = [
+    { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+    { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+    { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+];
+
+const repeat = (ballot: string[], times: number): string[][] =>
+    Array.from({ length: times }, () => [...ballot]);
+
+// A beats B 5–2, B beats C 5–2, C beats A 4–3
+const cycleBallots = [
+    ...repeat(['A', 'B', 'C'], 3),
+    ...repeat(['B', 'C', 'A'], 2),
+    ...repeat(['C', 'A', 'B'], 2)
+];
+
+describe('Pairwise matrix', () => {
+    test('counts voters preferring each candidate over each other', () => {
+        const matrix = buildPairwiseMatrix(cycleBallots, candidates);
+        expect(matrix.A.B).toBe(5);
+        expect(matrix.B.A).toBe(2);
+        expect(matrix.B.C).toBe(5);
+        expect(matrix.C.A).toBe(4);
+        expect(matrix.A.C).toBe(3);
+    });
+
+    test('ranks unlisted candidates below listed ones', () => {
+        const matrix = buildPairwiseMatrix([['A']], candidates);
+        expect(matrix.A.B).toBe(1);
+        expect(matrix.A.C).toBe(1);
+        expect(matrix.B.C).toBe(0);
+        expect(matrix.C.B).toBe(0);
+    });
+});
+
+describe('Condorcet winner', () => {
+    // C is the Condorcet winner: the median voter sits closest to C
+    const ballots = [
+        ...repeat(['A', 'C', 'B'], 3),
+        ...repeat(['B', 'C', 'A'], 3),
+        ...repeat(['C', 'A', 'B'], 1)
+    ];
+    const matrix = buildPairwiseMatrix(ballots, candidates);
+
+    test('every Condorcet method elects the Condorcet winner', () => {
+        expect(schulze(matrix, candidates).winnerId).toBe('C');
+        expect(rankedPairs(matrix, candidates).winnerId).toBe('C');
+        expect(minimax(matrix, candidates).winnerId).toBe('C');
+        expect(copeland(matrix, candidates).winnerId).toBe('C');
+    });
+
+    test('Copeland scores count pairwise wins', () => {
+        expect(copeland(matrix, candidates).scores).toEqual({ A: 1, B: 0, C: 2 });
+    });
+
+    test('Minimax reports an undefeated winner with score 0', () => {
+        const outcome = minimax(matrix, candidates);
+        expect(outcome.scores.C).toBe(0);
+        expect(outcome.roundDetails).toContain('C is undefeated');
+    });
+});
+
+describe('Condorcet cycle', () => {
+    const matrix = buildPairwiseMatrix(cycleBallots, candidates);
+
+    test('Schulze resolves the cycle through strongest paths', () => {
+        const outcome = schulze(matrix, candidates);
+        expect(outcome.winnerId).toBe('A');
+        expect(outcome.roundDetails.some(d => d.startsWith('Strongest path A → C: 5'))).toBe(true);
+    });
+
+    test('Ranked Pairs skips the weakest majority', () => {
+        const outcome = rankedPairs(matrix, candidates);
+        expect(outcome.winnerId).toBe('A');
+        expect(outcome.roundDetails).toContain('Locked A > B (margin 3)');
+        expect(outcome.roundDetails).toContain('Skipped C > A (margin 1): would create a cycle');
+    });
+
+    test('Ranked Pairs orders equally strong conflicting majorities by the tie-break policy', () => {
+        const even = buildPairwiseMatrix([['A', 'B', 'C'], ['B', 'C', 'A'], ['C', 'A', 'B']], candidates);
+        const outcome = rankedPairs(even, candidates);
+        expect(outcome.winnerId).toBe('A');
+        expect(outcome.roundDetails[0]).toMatch(/^Tie for locking order of pairs with margin 1 between A, B, C: /);
+        expect(outcome.roundDetails).toContain('Locked A > B (margin 1)');
+        expect(outcome.roundDetails).toContain('Skipped C > A (margin 1): would create a cycle');
+
+        const reported = rankedPairs(even, candidates, createTieBreaker([], candidates, { tieBreakPolicy: 'noWinner' }));
+        expect(reported.winnerId).toBeNull();
+        expect(reported.roundDetails.some(line => line.includes('reported as no winner'))).toBe(true);
+    });
+
+    test('Ranked Pairs records no tie when equally strong majorities do not conflict', () => {
+        const outcome = rankedPairs(buildPairwiseMatrix([['A', 'B', 'C'], ['A', 'B', 'C']], candidates), candidates);
+        expect(outcome.winnerId).toBe('A');
+        expect(outcome.roundDetails.some(line => line.startsWith('Tie'))).toBe(false);
+    });
+
+    test('Minimax picks the candidate with the smallest worst defeat', () => {
+        const outcome = minimax(matrix, candidates);
+        expect(outcome.scores).toEqual({ A: 1, B: 3, C: 3 });
+        expect(outcome.winnerId).toBe('A');
+    });
+
+    test('Copeland gives every candidate in a three-way cycle one win', () => {
+        expect(copeland(matrix, candidates).scores).toEqual({ A: 1, B: 1, C: 1 });
+    });
+});
+
+describe('Smith and Schwartz sets', () => {
+    const four: Candidate[] = [...candidates, { id: 'D', x: 2, y: 0, color: 'black', name: 'D' }];
+
+    test('a Condorcet winner is the whole Smith and Schwartz set', () => {
+        const matrix = buildPairwiseMatrix([['C', 'A', 'B', 'D'], ['C', 'B', 'A', 'D'], ['A', 'C', 'B', 'D']], four);
+        expect(findSmithSet(matrix, four)).toEqual(['C']);
+        expect(findSchwartzSet(matrix, four)).toEqual(['C']);
+    });
+
+    test('a top cycle forms the Smith set and excludes candidates it beats', () => {
+        const ballots = cycleBallots.map(b => [...b, 'D']);
+        const matrix = buildPairwiseMatrix(ballots, four);
+        expect(findSmithSet(matrix, four)).toEqual(['A', 'B', 'C']);
+        expect(findSchwartzSet(matrix, four)).toEqual(['A', 'B', 'C']);
+    });
+
+    test('pairwise ties can make the Schwartz set smaller than the Smith set', () => {
+        // A beats B, A ties C, C ties B
+        const matrix = buildPairwiseMatrix([['A', 'B', 'C'], ['C', 'A', 'B']], candidates);
+        expect(findSmithSet(matrix, candidates)).toEqual(['A', 'B', 'C']);
+        expect(findSchwartzSet(matrix, candidates)).toEqual(['A', 'C']);
+    });
+});
+
+describe('Condorcet methods in the election engine', () => {
+    test('results include the pairwise matrix', () => {
+        const voters = [
+            { id: 'v1', x: 0.1, y: 0 },
+            { id: 'v2', x: 0.45, y: 0 },
+            { id: 'v3', x: 0.9, y: 0 }
+        ];
+        const result = runElection(voters, candidates, 'schulze');
+        expect(result.winnerId).toBe('C');
+        expect(result.pairwise?.C.A).toBe(2);
+        expect(result.pairwise?.C.B).toBe(2);
+    });
+});
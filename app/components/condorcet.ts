@@ -0,0 +1,309 @@
+import { formatVotes } from './format';
+import { createTieBreaker, type TieBreaker } from './tieBreaking';
+import type { Candidate, PairwiseMatrix } from './types';
+
+const candidateName = (candidates: Candidate[], id: string): string =>
+    candidates.find(c => c.id === id)?.name ?? id;
+
+// Count, for every ordered pair (a, b), how many ballots rank a above b,
+// each counting its weight (default 1).
+// Candidates missing from a ballot are treated as ranked below every listed one.
+export const buildPairwiseMatrix = (ballots: string[][], candidates: Candidate[], weights: number[] = []): PairwiseMatrix => {
+    const matrix: PairwiseMatrix = {};
+    candidates.forEach(a => {
+        matrix[a.id] = {};
+        candidates.forEach(b => {
+            if (a.id !== b.id) matrix[a.id][b.id] = 0;
+        });
+    });
+
+    ballots.forEach((ballot, i) => {
+        const weight = weights[i] ?? 1;
+        const position = new Map<string, number>();
+        ballot.forEach((id, i) => position.set(id, i));
+
+        candidates.forEach(a => {
+            const rankA = position.get(a.id);
+            if (rankA === undefined) return;
+            candidates.forEach(b => {
+                if (a.id === b.id) return;
+                const rankB = position.get(b.id);
+                if (rankB === undefined || rankA < rankB) matrix[a.id][b.id] += weight;
+            });
+        });
+    });
+
+    return matrix;
+};
+
+const margin = (matrix: PairwiseMatrix, a: string, b: string): number =>
+    matrix[a][b] - matrix[b][a];
+
+interface CondorcetOutcome {
+    // null when a tie was reported rather than broken
+    winnerId: string | null;
+    scores: Record<string, number>;
+    roundDetails: string[];
+}
+
+// Schulze: compare candidates by the strength of their strongest beatpath
+export const schulze = (
+    matrix: PairwiseMatrix,
+    candidates: Candidate[],
+    tieBreaker: TieBreaker = createTieBreaker([], candidates)
+): CondorcetOutcome => {
+    const ids = candidates.map(c => c.id);
+    const paths: PairwiseMatrix = {};
+
+    ids.forEach(a => {
+        paths[a] = {};
+        ids.forEach(b => {
+            if (a !== b) paths[a][b] = matrix[a][b] > matrix[b][a] ? matrix[a][b] : 0;
+        });
+    });
+
+    // Widest-path Floyd–Warshall
+    ids.forEach(k => {
+        ids.forEach(i => {
+            if (i === k) return;
+            ids.forEach(j => {
+                if (j === i || j === k) return;
+                paths[i][j] = Math.max(paths[i][j], Math.min(paths[i][k], paths[k][j]));
+            });
+        });
+    });
+
+    const scores: Record<string, number> = {};
+    ids.forEach(a => {
+        scores[a] = ids.filter(b => b !== a && paths[a][b] > paths[b][a]).length;
+    });
+
+    const roundDetails: string[] = [];
+    ids.forEach((a, i) => {
+        ids.slice(i + 1).forEach(b => {
+            roundDetails.push(
+                `Strongest path ${candidateName(candidates, a)} → ${candidateName(candidates, b)}: ${formatVotes(paths[a][b])}, ` +
+                `${candidateName(candidates, b)} → ${candidateName(candidates, a)}: ${formatVotes(paths[b][a])}`
+            );
+        });
+    });
+
+    // Several candidates can be unbeaten when strongest paths tie
+    const unbeaten: Record<string, number> = {};
+    ids.filter(a => ids.every(b => b === a || paths[a][b] >= paths[b][a])).forEach(a => unbeaten[a] = 0);
+    const winnerId = tieBreaker.pickHighest(unbeaten, Object.keys(unbeaten), 'the Schulze winner');
+    roundDetails.push(...tieBreaker.details);
+    if (winnerId) roundDetails.push(`${candidateName(candidates, winnerId)} wins: no strongest path against them is stronger`);
+
+    return { winnerId, scores, roundDetails };
+};
+
+// Ranked Pairs (Tideman): lock in majorities from largest to smallest,
+// skipping any that would create a cycle
+export const rankedPairs = (
+    matrix: PairwiseMatrix,
+    candidates: Candidate[],
+    tieBreaker: TieBreaker = createTieBreaker([], candidates)
+): CondorcetOutcome => {
+    const ids = candidates.map(c => c.id);
+    const pairs: Array<{ winner: string; loser: string; margin: number; support: number }> = [];
+
+    ids.forEach((a, i) => {
+        ids.slice(i + 1).forEach(b => {
+            const m = margin(matrix, a, b);
+            if (m > 0) pairs.push({ winner: a, loser: b, margin: m, support: matrix[a][b] });
+            else if (m < 0) pairs.push({ winner: b, loser: a, margin: -m, support: matrix[b][a] });
+        });
+    });
+
+    pairs.sort((p, q) => q.margin - p.margin || q.support - p.support);
+
+    const locked = new Map<string, Set<string>>();
+    ids.forEach(id => locked.set(id, new Set()));
+
+    const reaches = (from: string, to: string): boolean => {
+        const stack = [from];
+        const seen = new Set<string>();
+        while (stack.length > 0) {
+            const current = stack.pop()!;
+            if (current === to) return true;
+            if (seen.has(current)) continue;
+            seen.add(current);
+            locked.get(current)!.forEach(next => stack.push(next));
+        }
+        return false;
+    };
+
+    type Pair = typeof pairs[number];
+    const zeros = (keys: string[]) => Object.fromEntries(keys.map(id => [id, 0]));
+
+    // Equally strong pairs that cannot all be locked: the one locked first wins out,
+    // so the tie-breaker picks the order, by winner and then by loser. Returns null
+    // when the tie is reported rather than broken.
+    const orderTied = (tied: Pair[]): Pair[] | null => {
+        const ordered: Pair[] = [];
+        const remaining = [...tied];
+        const what = `locking order of pairs with margin ${formatVotes(tied[0].margin)}`;
+        while (remaining.length > 1) {
+            const winners = [...new Set(remaining.map(p => p.winner))];
+            const winner = winners.length > 1 ? tieBreaker.pickHighest(zeros(winners), winners, what) : winners[0];
+            if (!winner) return null;
+            const losers = remaining.filter(p => p.winner === winner).map(p => p.loser);
+            const loser = losers.length > 1
+                ? tieBreaker.pickLowest(zeros(losers), losers, `${what} won by ${candidateName(candidates, winner)}`)
+                : losers[0];
+            if (!loser) return null;
+            const next = remaining.findIndex(p => p.winner === winner && p.loser === loser);
+            ordered.push(...remaining.splice(next, 1));
+        }
+        return [...ordered, ...remaining];
+    };
+
+    // Whether locking every pair at once would close a cycle
+    const conflicts = (group: Pair[]): boolean => {
+        group.forEach(({ winner, loser }) => locked.get(winner)!.add(loser));
+        const cyclic = ids.some(id => [...locked.get(id)!].some(next => reaches(next, id)));
+        group.forEach(({ winner, loser }) => locked.get(winner)!.delete(loser));
+        return cyclic;
+    };
+
+    const roundDetails: string[] = [];
+    let reported = false;
+    for (let i = 0; i < pairs.length;) {
+        let end = i + 1;
+        while (end < pairs.length && pairs[end].margin === pairs[i].margin && pairs[end].support === pairs[i].support) end++;
+        let group: Pair[] | null = pairs.slice(i, end);
+        if (group.length > 1 && conflicts(group)) group = orderTied(group);
+        roundDetails.push(...tieBreaker.details.splice(0));
+        i = end;
+        if (!group) {
+            reported = true;
+            break;
+        }
+
+        group.forEach(({ winner, loser, margin: m }) => {
+            const label = `${candidateName(candidates, winner)} > ${candidateName(candidates, loser)} (margin ${formatVotes(m)})`;
+            if (reaches(loser, winner)) {
+                roundDetails.push(`Skipped ${label}: would create a cycle`);
+            } else {
+                locked.get(winner)!.add(loser);
+                roundDetails.push(`Locked ${label}`);
+            }
+        });
+    }
+
+    const scores: Record<string, number> = {};
+    ids.forEach(a => {
+        scores[a] = ids.filter(b => b !== a && reaches(a, b)).length;
+    });
+
+    if (reported) return { winnerId: null, scores, roundDetails };
+
+    // Tied majorities are never locked, so several candidates can remain undefeated
+    const undefeated: Record<string, number> = {};
+    ids.filter(a => ids.every(b => !locked.get(b)!.has(a))).forEach(a => undefeated[a] = 0);
+    const winnerId = tieBreaker.pickHighest(undefeated, Object.keys(undefeated), 'the Ranked Pairs winner');
+    roundDetails.push(...tieBreaker.details);
+    if (winnerId) roundDetails.push(`${candidateName(candidates, winnerId)} wins: no locked pair defeats them`);
+
+    return { winnerId, scores, roundDetails };
+};
+
+// Minimax: the candidate whose worst pairwise defeat (by margin) is smallest wins
+export const minimax = (
+    matrix: PairwiseMatrix,
+    candidates: Candidate[],
+    tieBreaker: TieBreaker = createTieBreaker([], candidates)
+): CondorcetOutcome => {
+    const ids = candidates.map(c => c.id);
+    const scores: Record<string, number> = {};
+    const roundDetails: string[] = [];
+
+    ids.forEach(a => {
+        let worst = 0;
+        let worstAgainst: string | null = null;
+        ids.forEach(b => {
+            if (b === a) return;
+            const defeat = margin(matrix, b, a);
+            if (defeat > worst) {
+                worst = defeat;
+                worstAgainst = b;
+            }
+        });
+        scores[a] = worst;
+        roundDetails.push(worstAgainst
+            ? `${candidateName(candidates, a)} worst defeat: by ${formatVotes(worst)} against ${candidateName(candidates, worstAgainst)}`
+            : `${candidateName(candidates, a)} is undefeated`
+        );
+    });
+
+    const winnerId = tieBreaker.pickLowest(scores, ids, 'smallest worst defeat');
+    roundDetails.push(...tieBreaker.details);
+    if (winnerId) roundDetails.push(`${candidateName(candidates, winnerId)} wins with the smallest worst defeat (${formatVotes(scores[winnerId])})`);
+
+    return { winnerId, scores, roundDetails };
+};
+
+// Copeland: one point per pairwise win, half a point per pairwise tie
+export const copeland = (
+    matrix: PairwiseMatrix,
+    candidates: Candidate[],
+    tieBreaker: TieBreaker = createTieBreaker([], candidates)
+): CondorcetOutcome => {
+    const ids = candidates.map(c => c.id);
+    const scores: Record<string, number> = {};
+    const roundDetails: string[] = [];
+
+    ids.forEach(a => {
+        let wins = 0, ties = 0, losses = 0;
+        ids.forEach(b => {
+            if (b === a) return;
+            const m = margin(matrix, a, b);
+            if (m > 0) wins++;
+            else if (m === 0) ties++;
+            else losses++;
+        });
+        scores[a] = wins + ties / 2;
+        roundDetails.push(
+            `${candidateName(candidates, a)}: ${wins} wins, ${ties} ties, ${losses} losses (score ${scores[a]})`
+        );
+    });
+
+    const winnerId = tieBreaker.pickHighest(scores, ids, 'highest Copeland score');
+    roundDetails.push(...tieBreaker.details);
+    if (winnerId) roundDetails.push(`${candidateName(candidates, winnerId)} wins with Copeland score ${scores[winnerId]}`);
+
+    return { winnerId, scores, roundDetails };
+};
+
+// Transitive closure of a "from → to" relation, including each candidate itself
+const reachability = (ids: string[], edge: (a: string, b: string) => boolean): Map<string, Set<string>> => {
+    const reach = new Map<string, Set<string>>();
+    ids.forEach(a => reach.set(a, new Set([a, ...ids.filter(b => b !== a && edge(a, b))])));
+
+    ids.forEach(k => {
+        ids.forEach(i => {
+            if (reach.get(i)!.has(k)) {
+                reach.get(k)!.forEach(j => reach.get(i)!.add(j));
+            }
+        });
+    });
+
+    return reach;
+};
+
+// Smith set: the smallest group whose every member beats every outsider.
+// Its members are exactly those who reach everyone through beat-or-tie chains.
+export const findSmithSet = (matrix: PairwiseMatrix, candidates: Candidate[]): string[] => {
+    const ids = candidates.map(c => c.id);
+    const reach = reachability(ids, (a, b) => margin(matrix, a, b) >= 0);
+    return ids.filter(a => reach.get(a)!.size === ids.length);
+};
+
+// Schwartz set: the union of minimal groups no outsider beats. A candidate
+// belongs if it beats back (through a chain of wins) everyone who beats it.
+export const findSchwartzSet = (matrix: PairwiseMatrix, candidates: Candidate[]): string[] => {
+    const ids = candidates.map(c => c.id);
+    const reach = reachability(ids, (a, b) => margin(matrix, a, b) > 0);
+    return ids.filter(a => ids.every(b => !reach.get(b)!.has(a) || reach.get(a)!.has(b)));
+};
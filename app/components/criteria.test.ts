@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'vitest';
+import { buildPairwiseMatrix } from './condorcet';
+import { checkCriteria, condorcetLoser, condorcetWinner, groupByRanking } from './criteria';
+import { castBallots } from './election';
+import { createRng } from './random';
+import type { Candidate, Voter } from './types';
+import { generateVoters } from './voterGeneration';
+
+// 101 voters spread evenly along the middle of the square
+const lineVoters: Voter[] = Array.from({ length: 101 }, (_, i) => ({ id: `v${i}`, x: i / 100, y: 0.5 }));
+
+// C sits between A and B and beats both head-to-head, but B splits its vote
+const candidates: Candidate[] = [
+    { id: 'A', x: 0.3, y: 0.5, color: 'red', name: 'A' },
+    { id: 'B', x: 0.71, y: 0.5, color: 'blue', name: 'B' },
+    { id: 'C', x: 0.6, y: 0.5, color: 'green', name: 'C' }
+];
+
+describe('Condorcet winner and loser', () => {
+    test('finds the candidates who beat and lose to everyone', () => {
+        const ballots = castBallots(lineVoters, candidates).map(b => b.ranking);
+        const matrix = buildPairwiseMatrix(ballots, candidates);
+        expect(condorcetWinner(matrix, candidates)).toBe('C');
+        expect(condorcetLoser(matrix, candidates)).toBe('B');
+    });
+
+    test('there is no Condorcet winner in a cycle', () => {
+        const cycle = [['A', 'B', 'C'], ['B', 'C', 'A'], ['C', 'A', 'B']];
+        expect(condorcetWinner(buildPairwiseMatrix(cycle, candidates), candidates)).toBeNull();
+    });
+});
+
+describe('Voter groups', () => {
+    test('groups voters by ranking, largest first', () => {
+        const groups = groupByRanking(lineVoters, castBallots(lineVoters, candidates), 2);
+        expect(groups).toHaveLength(2);
+        expect(groups[0].ranking).toEqual(['A', 'C', 'B']);
+        expect(groups[0].voters).toHaveLength(45);
+        expect(groups[0].weight).toBeGreaterThanOrEqual(groups[1].weight);
+    });
+});
+
+describe('Criteria check', () => {
+    test('plurality elects A over the Condorcet winner, with B as spoiler', () => {
+        const violations = checkCriteria(lineVoters, candidates, 'plurality');
+        const byCriterion = Object.fromEntries(violations.map(v => [v.criterion, v]));
+
+        expect(byCriterion.condorcetWinner.candidateId).toBe('C');
+        expect(byCriterion.independence.candidateId).toBe('B');
+        expect(byCriterion.independence.explanation).toContain('B is a spoiler');
+        expect(byCriterion.condorcetLoser).toBeUndefined();
+        expect(byCriterion.monotonicity).toBeUndefined();
+    });
+
+    test('Copeland passes every check here', () => {
+        expect(checkCriteria(lineVoters, candidates, 'copeland')).toEqual([]);
+    });
+
+    test('needs voters and at least two candidates', () => {
+        expect(checkCriteria([], candidates, 'plurality')).toEqual([]);
+        expect(checkCriteria(lineVoters, candidates.slice(0, 1), 'plurality')).toEqual([]);
+    });
+
+    test('approval and score, being monotone, never report monotonicity violations', () => {
+        for (let seed = 40; seed < 56; seed++) {
+            const rng = createRng(seed);
+            const field: Candidate[] = ['A', 'B', 'C', 'D'].map(id => ({ id, x: rng(), y: rng(), color: 'black', name: id }));
+            const electorate = generateVoters(300, 'uniform', seed);
+            (['approval', 'score'] as const).forEach(method => {
+                const violations = checkCriteria(electorate, field, method, { approvalThreshold: 0.3 });
+                expect(violations.filter(v => v.criterion === 'monotonicity')).toEqual([]);
+            });
+        }
+    });
+});
@@ -0,0 +1,242 @@
+import { buildPairwiseMatrix } from './condorcet';
+import { ballotWeight, castBallots, countBallots, runElection, type VotingMethod } from './election';
+import { DEFAULT_SPACE, getCoordinate, setCoordinate } from './space';
+import type { Ballot, Candidate, Criterion, ElectionOptions, PairwiseMatrix, Voter } from './types';
+
+export const criteria: Record<Criterion, string> = {
+    condorcetWinner: 'Condorcet winner',
+    condorcetLoser: 'Condorcet loser',
+    independence: 'Independence of irrelevant alternatives',
+    monotonicity: 'Monotonicity',
+    participation: 'Participation'
+};
+
+export const criterionDescriptions: Record<Criterion, string> = {
+    condorcetWinner: 'A candidate who beats every other head-to-head should win.',
+    condorcetLoser: 'A candidate who loses to every other head-to-head should not win.',
+    independence: 'Removing a losing candidate should not change the winner (no spoilers).',
+    monotonicity: 'Moving voters toward the winner should not make the winner lose.',
+    participation: 'Voters should never get a result they prefer by staying at home.'
+};
+
+// How far (0–1) each voter moves toward the winner in the monotonicity check
+export const MONOTONICITY_SHIFT = 0.25;
+
+// Only the largest groups of like-minded voters are tried in the group checks
+export const MAX_CRITERIA_GROUPS = 8;
+
+export interface CriterionViolation {
+    criterion: Criterion;
+    explanation: string;
+    // The candidate at the heart of the violation (e.g. the spoiler)
+    candidateId?: string;
+    // The voters whose change exposes it, shown where they stand
+    voters?: Voter[];
+}
+
+// Voters who cast the same ranking, largest groups first
+export interface VoterGroup {
+    ranking: string[];
+    voters: Voter[];
+    weight: number;
+}
+
+const candidateName = (candidates: Candidate[], id: string | null): string =>
+    id === null ? 'nobody (a tie)' : candidates.find(c => c.id === id)?.name ?? id;
+
+// The candidate who beats every other head-to-head, if there is one
+export const condorcetWinner = (matrix: PairwiseMatrix, candidates: Candidate[]): string | null =>
+    candidates.find(a => candidates.every(b => b.id === a.id || matrix[a.id][b.id] > matrix[b.id][a.id]))?.id ?? null;
+
+// The candidate who loses to every other head-to-head, if there is one
+export const condorcetLoser = (matrix: PairwiseMatrix, candidates: Candidate[]): string | null =>
+    candidates.find(a => candidates.every(b => b.id === a.id || matrix[a.id][b.id] < matrix[b.id][a.id]))?.id ?? null;
+
+export const groupByRanking = (voters: Voter[], ballots: Ballot[], max: number = MAX_CRITERIA_GROUPS): VoterGroup[] => {
+    const groups = new Map<string, VoterGroup>();
+    ballots.forEach((ballot, i) => {
+        const key = ballot.ranking.join(',');
+        const group = groups.get(key) ?? { ranking: ballot.ranking, voters: [], weight: 0 };
+        group.voters.push(voters[i]);
+        group.weight += ballotWeight(ballot);
+        groups.set(key, group);
+    });
+    return [...groups.values()].sort((a, b) => b.weight - a.weight).slice(0, max);
+};
+
+// Position in a ranking; unranked candidates come after every ranked one
+const rankOf = (ranking: string[], id: string): number => {
+    const i = ranking.indexOf(id);
+    return i === -1 ? ranking.length : i;
+};
+
+const describeRanking = (ranking: string[], candidates: Candidate[]): string =>
+    ranking.map(id => candidateName(candidates, id)).join(' > ');
+
+// Whether `after` differs from `before` only by favouring `winnerId` more: the
+// other candidates keep their order, nobody else gains an approval, and no
+// other score rises while the winner's does not fall
+const onlyRaises = (before: Ballot, after: Ballot, winnerId: string): boolean => {
+    const others = (ranking: string[]) => ranking.filter(id => id !== winnerId).join(',');
+    if (others(after.ranking) !== others(before.ranking)) return false;
+    if (rankOf(after.ranking, winnerId) > rankOf(before.ranking, winnerId)) return false;
+    if (after.approved.some(id => id !== winnerId && !before.approved.includes(id))) return false;
+    if (before.approved.includes(winnerId) && !after.approved.includes(winnerId)) return false;
+    return Object.entries(after.scores ?? {}).every(([id, score]) => {
+        const previous = before.scores?.[id] ?? 0;
+        return id === winnerId ? score >= previous : score <= previous;
+    });
+};
+
+// Move a voter `shift` of the way toward `target` in every issue dimension
+const moveToward = (voter: Voter, target: Candidate, shift: number, dimensions: number): Voter => {
+    let moved = voter;
+    for (let d = 0; d < dimensions; d++) {
+        const from = getCoordinate(voter, d);
+        moved = setCoordinate(moved, d, from + shift * (getCoordinate(target, d) - from));
+    }
+    return moved;
+};
+
+const checkCondorcet = (
+    winnerId: string | null,
+    matrix: PairwiseMatrix,
+    candidates: Candidate[]
+): CriterionViolation[] => {
+    const violations: CriterionViolation[] = [];
+    const best = condorcetWinner(matrix, candidates);
+    if (best !== null && winnerId !== best) {
+        violations.push({
+            criterion: 'condorcetWinner',
+            candidateId: best,
+            explanation: `${candidateName(candidates, best)} beats every other candidate head-to-head but ${candidateName(candidates, winnerId)} wins.`
+        });
+    }
+    const worst = condorcetLoser(matrix, candidates);
+    if (worst !== null && winnerId === worst) {
+        violations.push({
+            criterion: 'condorcetLoser',
+            candidateId: worst,
+            explanation: `${candidateName(candidates, worst)} loses to every other candidate head-to-head yet wins.`
+        });
+    }
+    return violations;
+};
+
+// Spoilers: a losing candidate whose withdrawal changes the winner
+const checkIndependence = (
+    voters: Voter[],
+    candidates: Candidate[],
+    method: VotingMethod,
+    options: ElectionOptions,
+    winnerId: string | null
+): CriterionViolation | null => {
+    if (winnerId === null) return null;
+    for (const loser of candidates.filter(c => c.id !== winnerId)) {
+        const remaining = candidates.filter(c => c.id !== loser.id);
+        const { winnerId: without } = runElection(voters, remaining, method, options);
+        if (without !== winnerId) {
+            return {
+                criterion: 'independence',
+                candidateId: loser.id,
+                explanation: `${loser.name} loses, but withdrawing them changes the winner from ` +
+                    `${candidateName(candidates, winnerId)} to ${candidateName(candidates, without)}: ${loser.name} is a spoiler.`
+            };
+        }
+    }
+    return null;
+};
+
+// Move each group of voters who do not already rank the winner first a little
+// toward the winner. Only voters whose ballot changes purely by the winner
+// rising (in ranking, approvals and scores alike) are moved, and everyone
+// else keeps their ballot, so any change of winner is a genuine monotonicity failure.
+const checkMonotonicity = (
+    voters: Voter[],
+    ballots: Ballot[],
+    candidates: Candidate[],
+    method: VotingMethod,
+    options: ElectionOptions,
+    winnerId: string | null
+): CriterionViolation | null => {
+    const winner = candidates.find(c => c.id === winnerId);
+    if (!winner) return null;
+    const dimensions = (options.space ?? DEFAULT_SPACE).dimensions;
+    const indexOf = new Map(voters.map((v, i) => [v, i]));
+
+    for (const group of groupByRanking(voters, ballots).filter(g => g.ranking[0] !== winner.id)) {
+        const moved = group.voters.map(v => moveToward(v, winner, MONOTONICITY_SHIFT, dimensions));
+        const movedBallots = castBallots(moved, candidates, options);
+        const raised = group.voters.map((_, i) => i).filter(i =>
+            onlyRaises(ballots[indexOf.get(group.voters[i])!], movedBallots[i], winner.id)
+        );
+        if (raised.length === 0) continue;
+
+        const shifted = [...voters];
+        const shiftedBallots = [...ballots];
+        raised.forEach(i => {
+            const index = indexOf.get(group.voters[i])!;
+            shifted[index] = moved[i];
+            // Moving may change a voter's turnout; their ballot still counts as much as before
+            shiftedBallots[index] = { ...movedBallots[i], weight: ballots[index].weight };
+        });
+        const { winnerId: after } = countBallots(shifted, shiftedBallots, candidates, method, options);
+        if (after !== winner.id) {
+            return {
+                criterion: 'monotonicity',
+                candidateId: winner.id,
+                voters: raised.map(i => group.voters[i]),
+                explanation: `Moving ${raised.length} voters who rank ${describeRanking(group.ranking, candidates)} ` +
+                    `${MONOTONICITY_SHIFT * 100}% of the way toward ${winner.name} raises ${winner.name} on their ballots, ` +
+                    `yet the winner becomes ${candidateName(candidates, after)}.`
+            };
+        }
+    }
+    return null;
+};
+
+// A group of like-minded voters who would get a winner they prefer by abstaining
+const checkParticipation = (
+    voters: Voter[],
+    ballots: Ballot[],
+    candidates: Candidate[],
+    method: VotingMethod,
+    options: ElectionOptions,
+    winnerId: string | null
+): CriterionViolation | null => {
+    if (winnerId === null) return null;
+    for (const group of groupByRanking(voters, ballots)) {
+        const members = new Set(group.voters);
+        const { winnerId: without } = runElection(voters.filter(v => !members.has(v)), candidates, method, options);
+        if (without !== null && rankOf(group.ranking, without) < rankOf(group.ranking, winnerId)) {
+            return {
+                criterion: 'participation',
+                candidateId: without,
+                voters: group.voters,
+                explanation: `The ${group.voters.length} voters who rank ${describeRanking(group.ranking, candidates)} ` +
+                    `get ${candidateName(candidates, without)}, whom they prefer to ${candidateName(candidates, winnerId)}, by not voting.`
+            };
+        }
+    }
+    return null;
+};
+
+// Check the scenario under one method, reporting at most one violation per criterion
+export const checkCriteria = (
+    voters: Voter[],
+    candidates: Candidate[],
+    method: VotingMethod,
+    options: ElectionOptions = {}
+): CriterionViolation[] => {
+    if (voters.length === 0 || candidates.length < 2) return [];
+    const ballots = castBallots(voters, candidates, options);
+    const matrix = buildPairwiseMatrix(ballots.map(b => b.ranking), candidates, ballots.map(ballotWeight));
+    const { winnerId } = runElection(voters, candidates, method, options);
+
+    return [
+        ...checkCondorcet(winnerId, matrix, candidates),
+        checkIndependence(voters, candidates, method, options, winnerId),
+        checkMonotonicity(voters, ballots, candidates, method, options, winnerId),
+        checkParticipation(voters, ballots, candidates, method, options, winnerId)
+    ].filter((violation): violation is CriterionViolation => violation !== null);
+};
@@ -0,0 +1,310 @@
+import { describe, expect, test } from 'vitest';
+import {
+    bordaPoints,
+    castBallots,
+    getVotePercentages,
+    runBordaElection,
+    runElection,
+    runIRVElection,
+    runSTARElection,
+    runScoreElection,
+    runSmithApprovalElection
+} from './election';
+import type { Ballot, Candidate, Voter } from './types';
+
+const makeVoters = (positions: Array<[number, number]>): Voter[] =>
+    positions.map(([x, y], i) => ({ id: `v${i}`, x, y }));
+
+const ranked = (...ranking: string[]): Ballot => ({ ranking, approved: [ranking[0]] });
+
+describe('Ballot casting', () => {
+    const candidates: Candidate[] = [
+        { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+        { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' }
+    ];
+
+    test('casts one ranked ballot per voter', () => {
+        const voters = makeVoters([[0.1, 0], [0.9, 0]]);
+        expect(castBallots(voters, candidates).map(b => b.ranking)).toEqual([['A', 'B'], ['B', 'A']]);
+    });
+
+    test('truncates rankings by length and distance', () => {
+        const voters = makeVoters([[0.1, 0], [0.9, 0]]);
+        const three = [...candidates, { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }];
+        expect(castBallots(voters, three, { maxRankings: 1 }).map(b => b.ranking)).toEqual([['A'], ['B']]);
+        expect(castBallots(voters, three, { rankingRadius: 0.5 }).map(b => b.ranking)).toEqual([['A', 'C'], ['B', 'C']]);
+    });
+
+    test('passes the approval threshold through', () => {
+        const voters = makeVoters([[0.5, 0]]);
+        expect(castBallots(voters, candidates, { approvalThreshold: 0.6 })[0].approved).toHaveLength(2);
+        expect(castBallots(voters, candidates, { approvalThreshold: 0.3 })[0].approved).toHaveLength(1);
+    });
+});
+
+describe('Plurality election', () => {
+    const candidates: Candidate[] = [
+        { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+        { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' }
+    ];
+
+    test('counts first choices and picks the leader', () => {
+        const voters = makeVoters([[0.1, 0], [0.2, 0], [0.9, 0]]);
+        const result = runElection(voters, candidates, 'plurality');
+        expect(result.winnerId).toBe('A');
+        expect(result.votes).toEqual({ A: 2, B: 1 });
+        expect(result.roundDetails.length).toBeGreaterThan(0);
+    });
+});
+
+describe('Approval election', () => {
+    const candidates: Candidate[] = [
+        { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+        { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+        { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+    ];
+
+    test('broadly acceptable candidate wins', () => {
+        const voters = makeVoters([[0.1, 0], [0.3, 0], [0.7, 0], [0.9, 0]]);
+        const result = runElection(voters, candidates, 'approval', { approvalThreshold: 0.45 });
+        expect(result.winnerId).toBe('C');
+        expect(result.votes.C).toBe(4);
+    });
+});
+
+describe('Borda election', () => {
+    const candidates: Candidate[] = [
+        { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+        { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+        { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+    ];
+
+    test('awards n-1 points for first place down to 0', () => {
+        const result = runBordaElection([ranked('A', 'C', 'B'), ranked('B', 'C', 'A')], candidates);
+        expect(result.votes).toEqual({ A: 2, B: 2, C: 2 });
+    });
+
+    test('partial-ballot rules score unranked candidates', () => {
+        const four = [...candidates, { id: 'D', x: 2, y: 0, color: 'black', name: 'D' }];
+        expect(bordaPoints(['A', 'C'], four)).toEqual({ A: 3, B: 0, C: 2, D: 0 });
+        expect(bordaPoints(['A', 'C'], four, 'modified')).toEqual({ A: 2, B: 0, C: 1, D: 0 });
+        expect(bordaPoints(['A', 'C'], four, 'averaged')).toEqual({ A: 3, B: 0.5, C: 2, D: 0.5 });
+        expect(bordaPoints(['A', 'C', 'B', 'D'], four, 'averaged')).toEqual(bordaPoints(['A', 'C', 'B', 'D'], four));
+    });
+
+    test('the partial-ballot rule can change the winner', () => {
+        // Bullet votes for A against full rankings putting B first
+        const ballots = [ranked('A'), ranked('A'), ranked('B', 'C', 'A'), ranked('B', 'A', 'C')];
+        expect(runBordaElection(ballots, candidates, { bordaPartialRule: 'pessimistic' }).votes).toEqual({ A: 5, B: 4, C: 1 });
+        expect(runBordaElection(ballots, candidates, { bordaPartialRule: 'modified' }).winnerId).toBe('B');
+    });
+
+    test('compromise candidate wins', () => {
+        const voters = makeVoters([[0.1, 0], [0.2, 0], [0.8, 0], [0.55, 0]]);
+        expect(runElection(voters, candidates, 'borda').winnerId).toBe('C');
+    });
+});
+
+describe('Score and STAR elections', () => {
+    const candidates: Candidate[] = [
+        { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+        { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+        { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+    ];
+
+    const scored = (scores: Record<string, number>): Ballot => ({
+        ranking: Object.keys(scores).sort((a, b) => scores[b] - scores[a]),
+        approved: [],
+        scores
+    });
+
+    test('score voting sums scores', () => {
+        const result = runScoreElection([
+            scored({ A: 5, B: 0, C: 4 }),
+            scored({ A: 0, B: 5, C: 4 })
+        ], candidates);
+        expect(result.votes).toEqual({ A: 5, B: 5, C: 8 });
+        expect(result.winnerId).toBe('C');
+    });
+
+    test('STAR runoff can overturn the score leader', () => {
+        // A has the highest total thanks to one enthusiastic voter,
+        // but more voters score C above A
+        const ballots = [
+            scored({ A: 5, B: 0, C: 0 }),
+            scored({ A: 5, B: 0, C: 0 }),
+            scored({ A: 0, B: 1, C: 2 }),
+            scored({ A: 0, B: 1, C: 2 }),
+            scored({ A: 0, B: 1, C: 2 })
+        ];
+        const result = runSTARElection(ballots, candidates);
+        expect(runScoreElection(ballots, candidates).winnerId).toBe('A');
+        expect(result.winnerId).toBe('C');
+        expect(result.roundDetails[1]).toBe('Runoff: A preferred on 2 ballots, C on 3, no preference on 0');
+    });
+
+    test('scores are read from voter positions on the chosen scale', () => {
+        const voters = makeVoters([[0.1, 0], [0.9, 0], [0.5, 0]]);
+        const result = runElection(voters, candidates, 'score', { scoreScale: 10 });
+        expect(result.winnerId).toBe('C');
+        expect(result.votes.C).toBeGreaterThan(result.votes.A);
+    });
+
+    test('ranked-only ballots fall back to Borda-style scores', () => {
+        const result = runScoreElection([ranked('A', 'C', 'B')], candidates);
+        expect(result.votes).toEqual({ A: 2, B: 0, C: 1 });
+    });
+});
+
+describe('IRV election', () => {
+    const candidates: Candidate[] = [
+        { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+        { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+        { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+    ];
+
+    test('declares a first-round majority winner', () => {
+        const result = runIRVElection([ranked('A', 'C', 'B'), ranked('A', 'C', 'B'), ranked('B', 'C', 'A')], candidates);
+        expect(result.winnerId).toBe('A');
+        expect(result.eliminated).toEqual([]);
+        expect(result.roundDetails).toHaveLength(1);
+    });
+
+    test('eliminates the last-place candidate and transfers votes', () => {
+        const ballots = [
+            ranked('A', 'C', 'B'), ranked('A', 'C', 'B'),
+            ranked('B', 'C', 'A'), ranked('B', 'C', 'A'),
+            ranked('C', 'B', 'A')
+        ];
+        const result = runIRVElection(ballots, candidates);
+        expect(result.eliminated).toEqual(['C']);
+        expect(result.winnerId).toBe('B');
+        expect(result.votes).toEqual({ A: 2, B: 3 });
+        expect(result.roundDetails).toHaveLength(2);
+    });
+
+    test('reports exhausted ballots and the majority of continuing ballots', () => {
+        const ballots = [
+            ranked('A', 'C', 'B'), ranked('A', 'C', 'B'),
+            ranked('B', 'C', 'A'), ranked('B', 'C', 'A'), ranked('B'),
+            ranked('C')
+        ];
+        const result = runIRVElection(ballots, candidates);
+        expect(result.roundDetails[0]).toBe('Round 1: C eliminated with 1 votes; 6 continuing ballots (majority 4), 0 exhausted');
+        // C's only voter ranked nobody else, so B's 3 votes are a majority of the 5 continuing ballots
+        expect(result.roundDetails[1]).toBe('Round 2: B wins with 3 votes; 5 continuing ballots (majority 3), 1 exhausted');
+    });
+
+    test('center squeeze: squeezed centrist loses under IRV but wins under Borda', () => {
+        const voters = makeVoters([
+            [0.1, 0], [0.1, 0], [0.1, 0], [0.1, 0],
+            [0.9, 0], [0.9, 0], [0.9, 0],
+            [0.45, 0], [0.6, 0]
+        ]);
+        expect(runElection(voters, candidates, 'irv').winnerId).toBe('A');
+        expect(runElection(voters, candidates, 'borda').winnerId).toBe('C');
+    });
+});
+
+describe('Smith+Approval election', () => {
+    const candidates: Candidate[] = [
+        { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+        { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+        { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+    ];
+
+    test('builds the Smith set from the whole electorate', () => {
+        const voters = makeVoters([[0.1, 0], [0.45, 0], [0.9, 0]]);
+        const result = runElection(voters, candidates, 'smithApproval');
+        expect(result.smithSet).toEqual(['C']);
+        expect(result.winnerId).toBe('C');
+    });
+
+    test('only counts approvals for Smith set members', () => {
+        // A is widely approved but C is the Condorcet winner
+        const ballots: Ballot[] = [
+            { ranking: ['A', 'C', 'B'], approved: ['A', 'C'] },
+            { ranking: ['C', 'A', 'B'], approved: ['C', 'A'] },
+            { ranking: ['B', 'C', 'A'], approved: ['B', 'A'] }
+        ];
+        const result = runSmithApprovalElection(ballots, candidates);
+        expect(result.smithSet).toEqual(['C']);
+        expect(result.winnerId).toBe('C');
+        expect(result.votes).toEqual({ A: 0, B: 0, C: 3 });
+    });
+
+    test('runs approval among every member of a cyclic Smith set', () => {
+        const ballots: Ballot[] = [
+            { ranking: ['A', 'B', 'C'], approved: ['A', 'B'] },
+            { ranking: ['B', 'C', 'A'], approved: ['B'] },
+            { ranking: ['C', 'A', 'B'], approved: ['C'] }
+        ];
+        const result = runSmithApprovalElection(ballots, candidates);
+        expect(result.smithSet).toEqual(['A', 'B', 'C']);
+        expect(result.schwartzSet).toEqual(['A', 'B', 'C']);
+        expect(result.winnerId).toBe('B');
+    });
+});
+
+describe('Vote percentages', () => {
+    const candidates: Candidate[] = [
+        { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+        { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' }
+    ];
+
+    test('plurality percentages are shares of voters', () => {
+        const voters = makeVoters([[0.1, 0], [0.2, 0], [0.3, 0], [0.9, 0]]);
+        const result = runElection(voters, candidates, 'plurality');
+        expect(getVotePercentages(result, 'plurality', voters.length, candidates.length)).toEqual({ A: 75, B: 25 });
+    });
+
+    test('borda percentages are shares of all points', () => {
+        const voters = makeVoters([[0.1, 0], [0.9, 0]]);
+        const result = runElection(voters, candidates, 'borda');
+        expect(getVotePercentages(result, 'borda', voters.length, candidates.length)).toEqual({ A: 50, B: 50 });
+    });
+});
+
+describe('Weighted ballots', () => {
+    const candidates: Candidate[] = [
+        { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+        { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+        { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+    ];
+
+    test('casts voter weights onto their ballots', () => {
+        const voters: Voter[] = [{ id: 'v0', x: 0.1, y: 0, weight: 3 }, { id: 'v1', x: 0.9, y: 0 }];
+        expect(castBallots(voters, candidates).map(b => b.weight)).toEqual([3, undefined]);
+    });
+
+    test('plurality counts each ballot by its weight', () => {
+        const voters: Voter[] = [
+            { id: 'v0', x: 0.1, y: 0 }, { id: 'v1', x: 0.1, y: 0 },
+            { id: 'v2', x: 0.9, y: 0, weight: 2.5 }
+        ];
+        const result = runElection(voters, candidates, 'plurality');
+        expect(result.winnerId).toBe('B');
+        expect(result.votes).toEqual({ A: 2, B: 2.5, C: 0 });
+    });
+
+    test('IRV majorities are measured in weight', () => {
+        const ballots = [
+            { ...ranked('A', 'C', 'B'), weight: 0.5 }, { ...ranked('A', 'C', 'B'), weight: 0.5 },
+            ranked('B', 'C', 'A'),
+            { ...ranked('C', 'A', 'B'), weight: 0.25 }
+        ];
+        const result = runIRVElection(ballots, candidates);
+        expect(result.eliminated).toEqual(['C']);
+        expect(result.votes).toEqual({ A: 1.25, B: 1 });
+        expect(result.winnerId).toBe('A');
+    });
+
+    test('abstention from alienation shrinks distant voters', () => {
+        const voters = makeVoters([[0, 0], [0.5, 0.5], [0.5, 0.5]]);
+        const result = runElection(voters, candidates.slice(0, 2), 'plurality', { turnoutModel: 'alienation', turnoutSensitivity: 5 });
+        // Two voters ~0.71 from both candidates count for e^-3.54 ≈ 0.03 each
+        expect(result.winnerId).toBe('A');
+        expect(result.votes.A).toBeGreaterThan(1);
+        expect(result.votes.B).toBeLessThan(0.1);
+    });
+});
@@ -0,0 +1,478 @@
+import {
+    buildPairwiseMatrix,
+    copeland,
+    findSchwartzSet,
+    findSmithSet,
+    minimax,
+    rankedPairs,
+    schulze
+} from './condorcet';
+import { formatVotes } from './format';
+import { createPerception, hasPerceptionError } from './perception';
+import { applyStrategy } from './strategy';
+import { createTieBreaker, type TieBreaker } from './tieBreaking';
+import { voterBallotWeight } from './turnout';
+import type { Ballot, BordaPartialRule, Candidate, ElectionOptions, ElectionResult, PairwiseMatrix, Voter } from './types';
+import { methods, votingMethods } from './votingMethods';
+
+export type VotingMethod = keyof typeof methods;
+
+const DEFAULT_APPROVAL_THRESHOLD = 0.3;
+
+const candidateName = (candidates: Candidate[], id: string): string =>
+    candidates.find(c => c.id === id)?.name ?? id;
+
+const emptyTally = (candidates: Candidate[]): Record<string, number> => {
+    const votes: Record<string, number> = {};
+    candidates.forEach(c => votes[c.id] = 0);
+    return votes;
+};
+
+const NO_WINNER_DETAIL = 'No winner: the tie was reported rather than broken';
+
+export const ballotWeight = (ballot: Ballot): number => ballot.weight ?? 1;
+
+// Total weight of the ballots: their number when every ballot counts once
+export const totalWeight = (ballots: Ballot[]): number =>
+    ballots.reduce((sum, ballot) => sum + ballotWeight(ballot), 0);
+
+const candidateNames = (candidates: Candidate[], ids: string[]): string =>
+    ids.map(id => candidateName(candidates, id)).join(', ');
+
+// Turn every voter's position into a ballot: a ranking by distance, the
+// set of candidates they approve of and the score they give each candidate.
+// Rankings can be truncated by a length limit or a distance cutoff.
+// With perception error, each voter judges the candidates they know of by
+// where they believe them to be; unknown candidates are left off the ballot.
+// Voter weights and expected turnout set how much each ballot counts.
+export const castBallots = (
+    voters: Voter[],
+    candidates: Candidate[],
+    options: ElectionOptions = {}
+): Ballot[] => {
+    const approvalThreshold = options.approvalThreshold ?? DEFAULT_APPROVAL_THRESHOLD;
+    const perceive = hasPerceptionError(options) ? createPerception(candidates, options) : () => candidates;
+    return voters.map(voter => {
+        const seen = perceive();
+        const weight = voterBallotWeight(voter, candidates, options);
+        return {
+            ranking: votingMethods.irv(
+                voter.x,
+                voter.y,
+                seen,
+                options.maxRankings,
+                options.rankingRadius,
+                options.space,
+                voter.dims
+            ),
+            approved: votingMethods.approval(voter.x, voter.y, seen, approvalThreshold, options.space, voter.dims),
+            scores: votingMethods.score(
+                voter.x,
+                voter.y,
+                seen,
+                options.scoreScale,
+                options.scoreNormalization,
+                options.scoreRadius,
+                options.space,
+                voter.dims
+            ),
+            ...(weight !== 1 && { weight })
+        };
+    });
+};
+
+// Ballots without scores (e.g. ranked-only data) score n-1 for first place down to 0
+const ballotScores = (ballot: Ballot, candidates: Candidate[]): Record<string, number> => {
+    if (ballot.scores) return ballot.scores;
+    const scores: Record<string, number> = {};
+    ballot.ranking.forEach((id, i) => scores[id] = candidates.length - 1 - i);
+    return scores;
+};
+
+const tallyScores = (ballots: Ballot[], candidates: Candidate[]): Record<string, number> => {
+    const votes = emptyTally(candidates);
+    ballots.forEach(ballot => {
+        Object.entries(ballotScores(ballot, candidates)).forEach(([id, score]) => {
+            votes[id] += score * ballotWeight(ballot);
+        });
+    });
+    return votes;
+};
+
+export const runPluralityElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    options: ElectionOptions = {}
+): ElectionResult => {
+    const votes = emptyTally(candidates);
+    ballots.forEach(ballot => {
+        if (ballot.ranking.length > 0) votes[ballot.ranking[0]] += ballotWeight(ballot);
+    });
+
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+    const winnerId = tieBreaker.pickHighest(votes, candidates.map(c => c.id), 'most votes');
+
+    return {
+        winnerId,
+        votes,
+        roundDetails: [
+            `Total votes: ${formatVotes(totalWeight(ballots))}`,
+            ...tieBreaker.details,
+            winnerId ? `${candidateName(candidates, winnerId)} wins with ${formatVotes(votes[winnerId])} votes` : NO_WINNER_DETAIL
+        ]
+    };
+};
+
+export const runApprovalElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    options: ElectionOptions = {}
+): ElectionResult => {
+    const votes = emptyTally(candidates);
+    ballots.forEach(ballot => {
+        ballot.approved.forEach(id => votes[id] += ballotWeight(ballot));
+    });
+
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+    const winnerId = tieBreaker.pickHighest(votes, candidates.map(c => c.id), 'most approvals');
+    const totalApprovals = Object.values(votes).reduce((a, b) => a + b, 0);
+    const voting = totalWeight(ballots);
+    const average = voting > 0 ? totalApprovals / voting : 0;
+
+    return {
+        winnerId,
+        votes,
+        roundDetails: [
+            `Average approvals per voter: ${average.toFixed(2)}`,
+            ...tieBreaker.details,
+            winnerId ? `${candidateName(candidates, winnerId)} wins with ${formatVotes(votes[winnerId])} approvals` : NO_WINNER_DETAIL
+        ]
+    };
+};
+
+export const bordaPartialRules: Record<BordaPartialRule, string> = {
+    pessimistic: 'Unranked get 0 (n-1 for first)',
+    modified: 'Modified Borda (m for first of m ranked)',
+    averaged: 'Unranked share the leftover points'
+};
+
+// Borda points a single ballot gives each candidate under the partial-ballot rule
+export const bordaPoints = (
+    ranking: string[],
+    candidates: Candidate[],
+    rule: BordaPartialRule = 'pessimistic'
+): Record<string, number> => {
+    const n = candidates.length;
+    const m = ranking.length;
+    // Unranked candidates split points (n-1-m) + ... + 0 under the averaged rule
+    const unranked = rule === 'averaged' && m < n ? (n - m - 1) / 2 : 0;
+    const points: Record<string, number> = {};
+    candidates.forEach(c => points[c.id] = unranked);
+    ranking.forEach((id, i) => points[id] = rule === 'modified' ? m - i : n - 1 - i);
+    return points;
+};
+
+export const runBordaElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    options: ElectionOptions = {}
+): ElectionResult => {
+    const votes = emptyTally(candidates);
+    ballots.forEach(ballot => {
+        Object.entries(bordaPoints(ballot.ranking, candidates, options.bordaPartialRule)).forEach(([id, points]) => {
+            votes[id] += points * ballotWeight(ballot);
+        });
+    });
+
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+    const winnerId = tieBreaker.pickHighest(votes, candidates.map(c => c.id), 'most Borda points');
+
+    return {
+        winnerId,
+        votes,
+        roundDetails: [
+            `Total Borda points: ${formatVotes(Object.values(votes).reduce((a, b) => a + b, 0))}`,
+            ...tieBreaker.details,
+            winnerId ? `${candidateName(candidates, winnerId)} wins with ${formatVotes(votes[winnerId])} points` : NO_WINNER_DETAIL
+        ]
+    };
+};
+
+export const runScoreElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    options: ElectionOptions = {}
+): ElectionResult => {
+    const votes = tallyScores(ballots, candidates);
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+    const winnerId = tieBreaker.pickHighest(votes, candidates.map(c => c.id), 'highest total score');
+    const voting = totalWeight(ballots);
+
+    return {
+        winnerId,
+        votes,
+        roundDetails: [
+            `Total score: ${formatVotes(Object.values(votes).reduce((a, b) => a + b, 0))}`,
+            ...tieBreaker.details,
+            winnerId
+                ? `${candidateName(candidates, winnerId)} wins with ${formatVotes(votes[winnerId])} points ` +
+                  `(average ${(voting > 0 ? votes[winnerId] / voting : 0).toFixed(2)})`
+                : NO_WINNER_DETAIL
+        ]
+    };
+};
+
+// STAR: the two highest scorers meet in an automatic runoff, won by whoever
+// is scored higher on more ballots. A tied runoff goes to the higher scorer.
+export const runSTARElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    options: ElectionOptions = {}
+): ElectionResult => {
+    const votes = tallyScores(ballots, candidates);
+    const ids = candidates.map(c => c.id);
+
+    if (ids.length < 2) {
+        return {
+            winnerId: ids[0] ?? null,
+            votes,
+            roundDetails: ids.length > 0 ? [`Scoring round: ${candidateName(candidates, ids[0])} is unopposed`] : []
+        };
+    }
+
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+    const first = tieBreaker.pickHighest(votes, ids, 'first place in the scoring round');
+    const second = first && tieBreaker.pickHighest(votes, ids.filter(id => id !== first), 'second place in the scoring round');
+
+    if (!first || !second) {
+        return { winnerId: null, votes, roundDetails: [...tieBreaker.details, NO_WINNER_DETAIL] };
+    }
+
+    const finalists = `${candidateName(candidates, first)} (${formatVotes(votes[first])}) and ` +
+        `${candidateName(candidates, second)} (${formatVotes(votes[second])}) advance`;
+
+    let preferFirst = 0, preferSecond = 0, noPreference = 0;
+    ballots.forEach(ballot => {
+        const scores = ballotScores(ballot, candidates);
+        const a = scores[first] ?? 0;
+        const b = scores[second] ?? 0;
+        if (a > b) preferFirst += ballotWeight(ballot);
+        else if (b > a) preferSecond += ballotWeight(ballot);
+        else noPreference += ballotWeight(ballot);
+    });
+
+    const scoringTies = tieBreaker.details.splice(0);
+    const winnerId = preferFirst !== preferSecond
+        ? (preferFirst > preferSecond ? first : second)
+        : tieBreaker.pickHighest(votes, [first, second], 'the tied runoff (by score)');
+
+    return {
+        winnerId,
+        votes,
+        roundDetails: [
+            ...scoringTies,
+            `Scoring round: ${finalists}`,
+            `Runoff: ${candidateName(candidates, first)} preferred on ${formatVotes(preferFirst)} ballots, ` +
+            `${candidateName(candidates, second)} on ${formatVotes(preferSecond)}, no preference on ${formatVotes(noPreference)}`,
+            ...tieBreaker.details,
+            winnerId ? `${candidateName(candidates, winnerId)} wins the runoff` : NO_WINNER_DETAIL
+        ]
+    };
+};
+
+export const runIRVElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    options: ElectionOptions = {}
+): ElectionResult => {
+    const remaining = candidates.map(c => c.id);
+    const roundDetails: string[] = [];
+    const eliminated: string[] = [];
+    const history: Record<string, number>[] = [];
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+
+    for (let round = 1; ; round++) {
+        const roundVotes: Record<string, number> = {};
+        remaining.forEach(id => roundVotes[id] = 0);
+
+        ballots.forEach(ballot => {
+            const choice = ballot.ranking.find(id => id in roundVotes);
+            if (choice) roundVotes[choice] += ballotWeight(ballot);
+        });
+
+        // Ballots ranking none of the remaining candidates are exhausted; the
+        // majority is counted over the continuing ballots only
+        const continuing = Object.values(roundVotes).reduce((a, b) => a + b, 0);
+        const exhausted = totalWeight(ballots) - continuing;
+        // Whole ballots need floor(n/2)+1; fractional weights need more than half
+        const majority = Number.isInteger(continuing) ? Math.floor(continuing / 2) + 1 : continuing / 2;
+        const count = `${formatVotes(continuing)} continuing ballots (majority ${formatVotes(majority)}), ` +
+            `${formatVotes(exhausted)} exhausted`;
+        // A majority leader is unique, so no tie-breaking is needed here
+        const leader = remaining.reduce((best, id) => roundVotes[id] > roundVotes[best] ? id : best);
+
+        if (roundVotes[leader] > continuing / 2 || remaining.length === 1) {
+            roundDetails.push(
+                `Round ${round}: ${candidateName(candidates, leader)} wins with ${formatVotes(roundVotes[leader])} votes; ${count}`
+            );
+            return { winnerId: leader, votes: roundVotes, roundDetails, eliminated };
+        }
+
+        const loser = tieBreaker.pickLowest(roundVotes, remaining, `last place in round ${round}`, history);
+        roundDetails.push(...tieBreaker.details.splice(0));
+        if (!loser) {
+            roundDetails.push(NO_WINNER_DETAIL);
+            return { winnerId: null, votes: roundVotes, roundDetails, eliminated };
+        }
+
+        history.push(roundVotes);
+        remaining.splice(remaining.indexOf(loser), 1);
+        eliminated.push(loser);
+        roundDetails.push(
+            `Round ${round}: ${candidateName(candidates, loser)} eliminated with ${formatVotes(roundVotes[loser])} votes; ${count}`
+        );
+    }
+};
+
+// Smith+Approval: find the Smith set from the electorate's pairwise majorities,
+// then count approvals among its members only. Voters who approve none of them
+// approve their favourite member instead.
+export const runSmithApprovalElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    options: ElectionOptions = {}
+): ElectionResult => {
+    const pairwise = buildPairwiseMatrix(ballots.map(b => b.ranking), candidates, ballots.map(ballotWeight));
+    const smithSet = findSmithSet(pairwise, candidates);
+    const schwartzSet = findSchwartzSet(pairwise, candidates);
+    const members = new Set(smithSet);
+
+    const votes = emptyTally(candidates);
+    ballots.forEach(ballot => {
+        const approvedMembers = ballot.approved.filter(id => members.has(id));
+        if (approvedMembers.length > 0) {
+            approvedMembers.forEach(id => votes[id] += ballotWeight(ballot));
+        } else {
+            const favourite = ballot.ranking.find(id => members.has(id));
+            if (favourite) votes[favourite] += ballotWeight(ballot);
+        }
+    });
+
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+    const winnerId = tieBreaker.pickHighest(votes, smithSet, 'most approvals in the Smith set');
+
+    return {
+        winnerId,
+        votes,
+        roundDetails: [
+            `Smith set: ${candidateNames(candidates, smithSet)}`,
+            `Schwartz set: ${candidateNames(candidates, schwartzSet)}`,
+            ...tieBreaker.details,
+            winnerId
+                ? `${candidateName(candidates, winnerId)} wins with ${formatVotes(votes[winnerId])} approvals among Smith set members`
+                : NO_WINNER_DETAIL
+        ],
+        pairwise,
+        smithSet,
+        schwartzSet
+    };
+};
+
+// Condorcet completion methods share one pairwise matrix built from ranked ballots
+const condorcetRunner = (
+    decide: (matrix: PairwiseMatrix, candidates: Candidate[], tieBreaker: TieBreaker) => {
+        winnerId: string | null;
+        scores: Record<string, number>;
+        roundDetails: string[];
+    }
+) => (ballots: Ballot[], candidates: Candidate[], options: ElectionOptions = {}): ElectionResult => {
+    const pairwise = buildPairwiseMatrix(ballots.map(b => b.ranking), candidates, ballots.map(ballotWeight));
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+    const { winnerId, scores, roundDetails } = decide(pairwise, candidates, tieBreaker);
+    return {
+        winnerId,
+        votes: scores,
+        roundDetails,
+        pairwise,
+        smithSet: findSmithSet(pairwise, candidates),
+        schwartzSet: findSchwartzSet(pairwise, candidates)
+    };
+};
+
+export const runSchulzeElection = condorcetRunner(schulze);
+export const runRankedPairsElection = condorcetRunner(rankedPairs);
+export const runMinimaxElection = condorcetRunner(minimax);
+export const runCopelandElection = condorcetRunner(copeland);
+
+export const electionRunners: Record<
+    VotingMethod,
+    (ballots: Ballot[], candidates: Candidate[], options: ElectionOptions) => ElectionResult
+> = {
+    plurality: runPluralityElection,
+    approval: runApprovalElection,
+    borda: runBordaElection,
+    score: runScoreElection,
+    star: runSTARElection,
+    irv: runIRVElection,
+    smithApproval: runSmithApprovalElection,
+    schulze: runSchulzeElection,
+    rankedPairs: runRankedPairsElection,
+    minimax: runMinimaxElection,
+    copeland: runCopelandElection
+};
+
+// Tally ballots already cast by `voters`, letting strategic voters adjust theirs first
+export const countBallots = (
+    voters: Voter[],
+    sincereBallots: Ballot[],
+    candidates: Candidate[],
+    method: VotingMethod,
+    options: ElectionOptions = {}
+): ElectionResult => {
+    const runner = (ballots: Ballot[]) => electionRunners[method](ballots, candidates, options);
+    if (!options.voterStrategy || options.voterStrategy === 'sincere') return { ...runner(sincereBallots), ballots: sincereBallots };
+
+    const { ballots, frontRunners, roundDetails } = applyStrategy(
+        voters,
+        sincereBallots,
+        candidates,
+        method,
+        options.voterStrategy,
+        options.strategicFraction ?? 1,
+        runner,
+        options
+    );
+    const result = runner(ballots);
+    return { ...result, roundDetails: [...roundDetails, ...result.roundDetails], frontRunners, ballots };
+};
+
+// Run a full election: every voter casts a ballot, strategic voters adjust
+// theirs to the polls, then the method tallies them
+export const runElection = (
+    voters: Voter[],
+    candidates: Candidate[],
+    method: VotingMethod,
+    options: ElectionOptions = {}
+): ElectionResult =>
+    countBallots(voters, castBallots(voters, candidates, options), candidates, method, options);
+
+// Express each candidate's tally as a percentage of what was available to win
+export const getVotePercentages = (
+    result: ElectionResult,
+    method: VotingMethod,
+    voterCount: number,
+    candidateCount: number
+): Record<string, number> => {
+    // Borda totals depend on how partial ballots are scored, so use the points actually awarded
+    const total = method === 'approval' || method === 'smithApproval' || method === 'score' || method === 'star' || method === 'borda'
+        ? Object.values(result.votes).reduce((a, b) => a + b, 0)
+        : method === 'schulze' || method === 'rankedPairs' || method === 'copeland'
+            ? candidateCount - 1
+            : voterCount;
+
+    const percentages: Record<string, number> = {};
+    Object.entries(result.votes).forEach(([id, count]) => {
+        percentages[id] = total > 0 ? (count / total) * 100 : 0;
+    });
+    return percentages;
+};
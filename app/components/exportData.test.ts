@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'vitest';
+import { parseRankedCsv } from './ballotImport';
+import { ballotsToCsv, csvCell, resultsToCsv, resultsToJson, type MethodExport } from './exportData';
+import type { Candidate } from './types';
+
+const candidates: Candidate[] = [
+    { id: '1', x: 0.2, y: 0.5, color: '#22c55e', name: 'Smith, J' },
+    { id: '2', x: 0.8, y: 0.5, color: '#ef4444', name: 'Lee' }
+];
+
+const results: MethodExport[] = [{
+    method: 'plurality',
+    label: 'Plurality',
+    result: { winnerId: '2', votes: { 1: 4, 2: 6 }, roundDetails: ['Total votes: 10', 'Lee wins with 6 votes'] },
+    percentages: { 1: 40, 2: 60 },
+    areaPercentages: { 1: 50, 2: 50 }
+}];
+
+describe('CSV cells', () => {
+    test('quotes only when needed', () => {
+        expect(csvCell('plain')).toBe('plain');
+        expect(csvCell(1.5)).toBe('1.5');
+        expect(csvCell('Smith, J')).toBe('"Smith, J"');
+        expect(csvCell('say "hi"')).toBe('"say ""hi"""');
+    });
+});
+
+describe('Exporting results', () => {
+    test('JSON keeps winners, tallies and round details', () => {
+        const exported = JSON.parse(resultsToJson(results, candidates));
+        expect(exported.candidates).toEqual([
+            { id: '1', name: 'Smith, J', color: '#22c55e' },
+            { id: '2', name: 'Lee', color: '#ef4444' }
+        ]);
+        expect(exported.methods[0]).toMatchObject({
+            method: 'plurality',
+            winnerId: '2',
+            winner: 'Lee',
+            votes: { 1: 4, 2: 6 },
+            areaPercentages: { 1: 50, 2: 50 },
+            roundDetails: ['Total votes: 10', 'Lee wins with 6 votes']
+        });
+    });
+
+    test('CSV has one row per method and candidate', () => {
+        expect(resultsToCsv(results, candidates)).toBe(
+            'method,candidate,votes,vote_percent,area_percent,winner\n' +
+            'Plurality,"Smith, J",4,40,50,\n' +
+            'Plurality,Lee,6,60,50,yes\n'
+        );
+    });
+});
+
+describe('Exporting ballots', () => {
+    test('writes weights, rankings, approvals and scores by name', () => {
+        const csv = ballotsToCsv([
+            { ranking: ['2', '1'], approved: ['2'], scores: { 1: 0, 2: 5 } },
+            { ranking: ['1'], approved: ['1'], weight: 0.4567 }
+        ], candidates);
+        expect(csv).toBe(
+            'ballot,weight,ranking,approved,"score Smith, J",score Lee\n' +
+            '1,1,"Lee > Smith, J",Lee,0,5\n' +
+            '2,0.4567,"Smith, J","Smith, J",,\n'
+        );
+    });
+
+    test('quoted names survive a round trip through the CSV parser', () => {
+        expect(parseRankedCsv(csvCell('Smith, J') + ',Lee').candidateNames).toEqual(['Smith, J', 'Lee']);
+    });
+});
@@ -0,0 +1,79 @@
+import { ballotWeight, type VotingMethod } from './election';
+import type { Ballot, Candidate, ElectionResult } from './types';
+
+// One method's outcome as shown in the results panels
+export interface MethodExport {
+    method: VotingMethod;
+    label: string;
+    result: ElectionResult;
+    percentages: Record<string, number>;
+    // Share of the map each candidate wins, from the theoretical area coverage
+    areaPercentages?: Record<string, number>;
+}
+
+const candidateName = (candidates: Candidate[], id: string | null): string =>
+    (id && candidates.find(c => c.id === id)?.name) ?? '';
+
+// Quote a CSV cell when it contains a separator, quote or line break
+export const csvCell = (value: string | number): string => {
+    const text = `${value}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]): string =>
+    rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+export const resultsToJson = (results: MethodExport[], candidates: Candidate[]): string =>
+    JSON.stringify({
+        candidates: candidates.map(({ id, name, color }) => ({ id, name, color })),
+        methods: results.map(({ method, label, result, percentages, areaPercentages }) => ({
+            method,
+            label,
+            winnerId: result.winnerId,
+            winner: candidateName(candidates, result.winnerId) || null,
+            votes: result.votes,
+            percentages,
+            ...(areaPercentages && { areaPercentages }),
+            roundDetails: result.roundDetails
+        }))
+    }, null, 2);
+
+// One row per method and candidate
+export const resultsToCsv = (results: MethodExport[], candidates: Candidate[]): string =>
+    toCsv([
+        ['method', 'candidate', 'votes', 'vote_percent', 'area_percent', 'winner'],
+        ...results.flatMap(({ label, result, percentages, areaPercentages }) => candidates.map(c => [
+            label,
+            c.name,
+            round(result.votes[c.id] ?? 0),
+            round(percentages[c.id] ?? 0),
+            areaPercentages ? round(areaPercentages[c.id] ?? 0) : '',
+            c.id === result.winnerId ? 'yes' : ''
+        ]))
+    ]);
+
+// One row per ballot: how much it counts, the ranking, the approvals and each candidate's score
+export const ballotsToCsv = (ballots: Ballot[], candidates: Candidate[]): string =>
+    toCsv([
+        ['ballot', 'weight', 'ranking', 'approved', ...candidates.map(c => `score ${c.name}`)],
+        ...ballots.map((ballot, i) => [
+            i + 1,
+            ballotWeight(ballot),
+            ballot.ranking.map(id => candidateName(candidates, id)).join(' > '),
+            ballot.approved.map(id => candidateName(candidates, id)).join('; '),
+            ...candidates.map(c => ballot.scores?.[c.id] !== undefined ? round(ballot.scores[c.id]) : '')
+        ])
+    ]);
+
+// Hand a file to the browser as a download
+export const downloadFile = (fileName: string, content: string | Blob, type = 'text/plain') => {
+    const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
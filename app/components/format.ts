@@ -0,0 +1,3 @@
+// Weighted ballots can give fractional totals; show whole numbers without decimals
+export const formatVotes = (value: number): string =>
+    Math.abs(value - Math.round(value)) < 1e-9 ? `${Math.round(value)}` : value.toFixed(2);
@@ -0,0 +1,41 @@
+import { describe, expect, test } from 'vitest';
+import { mapToSvg, NO_WINNER_COLOR, sampleWinners } from './mapExport';
+import type { Candidate } from './types';
+
+const candidates: Candidate[] = [
+    { id: '1', x: 0.25, y: 0.5, color: '#22c55e', name: 'A & B' },
+    { id: '2', x: 0.75, y: 0.5, color: '#ef4444', name: 'C' }
+];
+
+const markers = candidates.map(c => ({ name: c.name, color: c.color, u: c.x, v: c.y }));
+
+describe('Sampling a map', () => {
+    test('samples cell centres, top row first', () => {
+        const winners = sampleWinners((u, v) => `${u},${v}`, 2);
+        expect(winners).toEqual([['0.25,0.75', '0.75,0.75'], ['0.25,0.25', '0.75,0.25']]);
+    });
+});
+
+describe('SVG maps', () => {
+    const svg = mapToSvg({
+        title: 'Plurality <test>',
+        winners: [['1', '1', '2', '2'], [null, '1', '2', '2']],
+        candidates,
+        markers,
+        points: [{ u: 0.5, v: 0.5 }]
+    }, 400);
+
+    test('merges runs of equal winners into one rectangle', () => {
+        expect(svg).toContain('<rect x="0" y="0" width="200" height="200" fill="#22c55e"/>');
+        expect(svg).toContain('<rect x="200" y="0" width="200" height="200" fill="#ef4444"/>');
+        expect(svg).toContain(`<rect x="0" y="200" width="100" height="200" fill="${NO_WINNER_COLOR}"/>`);
+        expect(svg.match(/<rect x="\d+" y="\d+" width="\d+" height="200"/g)).toHaveLength(5);
+    });
+
+    test('labels candidates and adds an escaped title and legend', () => {
+        expect(svg).toContain('<circle cx="100" cy="200" r="8" fill="white" stroke="#22c55e" stroke-width="3"/>');
+        expect(svg).toContain('<title>Plurality &lt;test&gt;</title>');
+        expect(svg.match(/A &amp; B/g)).toHaveLength(2);
+        expect(svg).toContain('<circle cx="200" cy="200" r="1.5"/>');
+    });
+});
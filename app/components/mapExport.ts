@@ -0,0 +1,150 @@
+import { regionBoundaries, type MapRegion } from './regions';
+import type { Candidate } from './types';
+
+// Where no candidate wins (a reported tie); matches the grid's grey
+export const NO_WINNER_COLOR = '#9ca3af';
+
+// Cells sampled across each side of the map for SVG export
+export const EXPORT_RESOLUTION = 100;
+
+const LEGEND_ROW = 20;
+const LEGEND_COLUMN = 130;
+
+// A candidate marker on the map, in map coordinates (0–1, v pointing up)
+export interface MapMarker {
+    name: string;
+    color: string;
+    u: number;
+    v: number;
+}
+
+export interface MapImage {
+    title: string;
+    // Winner id for each cell, rows from top to bottom; null where nobody wins
+    winners: (string | null)[][];
+    // Exact region polygons, drawn instead of the cells when given
+    regions?: MapRegion[];
+    candidates: Candidate[];
+    markers: MapMarker[];
+    // Voters or other points to dot over the map
+    points?: Array<{ u: number; v: number }>;
+}
+
+// Sample `winnerAt(u, v)` at the centre of each cell of a resolution × resolution grid
+export const sampleWinners = (
+    winnerAt: (u: number, v: number) => string | null,
+    resolution: number = EXPORT_RESOLUTION
+): (string | null)[][] =>
+    Array.from({ length: resolution }, (_, row) =>
+        Array.from({ length: resolution }, (_, column) =>
+            winnerAt((column + 0.5) / resolution, 1 - (row + 0.5) / resolution)
+        )
+    );
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const legendRows = (candidates: Candidate[], width: number): number =>
+    Math.ceil(candidates.length / Math.max(1, Math.floor(width / LEGEND_COLUMN)));
+
+const legendHeight = (candidates: Candidate[], width: number): number =>
+    LEGEND_ROW * (legendRows(candidates, width) + 1) + 10;
+
+const legendPosition = (index: number, width: number, top: number): { x: number; y: number } => {
+    const columns = Math.max(1, Math.floor(width / LEGEND_COLUMN));
+    return {
+        x: 10 + (index % columns) * LEGEND_COLUMN,
+        y: top + LEGEND_ROW * (Math.floor(index / columns) + 1) + 10
+    };
+};
+
+// Vector map: the exact regions with their boundaries, or else one rectangle
+// per run of equal winners along each row; then the points, the candidate
+// markers with labels, and a legend below
+export const mapToSvg = ({ title, winners, regions, candidates, markers, points = [] }: MapImage, size = 400): string => {
+    const rows = winners.length;
+    const columns = winners[0]?.length ?? 0;
+    const cellWidth = columns > 0 ? size / columns : size;
+    const cellHeight = rows > 0 ? size / rows : size;
+    const colorOf = (id: string | null) =>
+        id === null ? NO_WINNER_COLOR : candidates.find(c => c.id === id)?.color ?? '#000000';
+
+    const x = (u: number) => +(u * size).toFixed(2);
+    const y = (v: number) => +((1 - v) * size).toFixed(2);
+
+    const shapes: string[] = [];
+    if (regions) {
+        regions.forEach(region => shapes.push(
+            `<path d="M${region.polygon.map(p => `${x(p.u)},${y(p.v)}`).join('L')}Z" fill="${colorOf(region.candidateId)}"/>`
+        ));
+        const lines = regionBoundaries(regions).map(({ from, to }) => `M${x(from.u)},${y(from.v)}L${x(to.u)},${y(to.v)}`);
+        if (lines.length > 0) {
+            shapes.push(`<path d="${lines.join('')}" fill="none" stroke="black" stroke-opacity="0.6" stroke-width="1.5"/>`);
+        }
+    } else {
+        winners.forEach((row, r) => {
+            let start = 0;
+            row.forEach((id, c) => {
+                if (c + 1 < row.length && row[c + 1] === id) return;
+                shapes.push(
+                    `<rect x="${+(start * cellWidth).toFixed(2)}" y="${+(r * cellHeight).toFixed(2)}" ` +
+                    `width="${+((c + 1 - start) * cellWidth).toFixed(2)}" height="${+cellHeight.toFixed(2)}" fill="${colorOf(id)}"/>`
+                );
+                start = c + 1;
+            });
+        });
+    }
+
+    const legend = [
+        `<text x="10" y="${size + LEGEND_ROW}" font-size="14" font-weight="bold">${escapeXml(title)}</text>`,
+        ...candidates.map((candidate, i) => {
+            const at = legendPosition(i, size, size);
+            return `<rect x="${at.x}" y="${at.y}" width="12" height="12" fill="${candidate.color}"/>` +
+                `<text x="${at.x + 18}" y="${at.y + 11}" font-size="12">${escapeXml(candidate.name)}</text>`;
+        })
+    ];
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size + legendHeight(candidates, size)}" ` +
+        `font-family="sans-serif">`,
+        `<title>${escapeXml(title)}</title>`,
+        `<rect width="100%" height="100%" fill="white"/>`,
+        `<g${regions ? '' : ' shape-rendering="crispEdges"'}>${shapes.join('')}</g>`,
+        `<g fill="black" fill-opacity="0.3">${points.map(p => `<circle cx="${x(p.u)}" cy="${y(p.v)}" r="1.5"/>`).join('')}</g>`,
+        `<g text-anchor="middle" font-size="12">${markers.map(m =>
+            `<circle cx="${x(m.u)}" cy="${y(m.v)}" r="8" fill="white" stroke="${m.color}" stroke-width="3"/>` +
+            `<text x="${x(m.u)}" y="${y(m.v) + 20}">${escapeXml(m.name)}</text>`
+        ).join('')}</g>`,
+        `<g>${legend.join('')}</g>`,
+        '</svg>'
+    ].join('\n');
+};
+
+// Copy a drawn map onto a taller canvas with the title and legend beneath it
+export const canvasWithLegend = (source: HTMLCanvasElement, title: string, candidates: Candidate[]): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height + legendHeight(candidates, source.width);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return source;
+
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(source, 0, 0);
+
+    ctx.fillStyle = 'black';
+    ctx.font = 'bold 14px sans-serif';
+    ctx.fillText(title, 10, source.height + LEGEND_ROW);
+    ctx.font = '12px sans-serif';
+    candidates.forEach((candidate, i) => {
+        const at = legendPosition(i, source.width, source.height);
+        ctx.fillStyle = candidate.color;
+        ctx.fillRect(at.x, at.y, 12, 12);
+        ctx.fillStyle = 'black';
+        ctx.fillText(candidate.name, at.x + 18, at.y + 11);
+    });
+    return canvas;
+};
+
+export const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob | null> =>
+    new Promise(resolve => canvas.toBlob(resolve, 'image/png'));
@@ -0,0 +1,158 @@
+import { describe, expect, test } from 'vitest';
+import { createMapWinner, electorateOffsets, hexToRgb, NO_WINNER_ID, renderTile, splitTiles, type MapSpec, type MapTile } from './mapRender';
+import { createInlineWorker, createMapWorkerPool, type MapWorker } from './mapWorkerPool';
+
+const spec: MapSpec = {
+    candidates: [
+        { id: 'A', x: 0.25, y: 0.5, color: '#ff0000', name: 'A' },
+        { id: 'B', x: 0.75, y: 0.5, color: '#0000ff', name: 'B' }
+    ],
+    method: 'plurality',
+    approvalThreshold: 0.3,
+    scoreScale: 5,
+    scoreNormalization: 'minMax',
+    scoreRadius: 0.5,
+    frontRunners: null,
+    space: { dimensions: 2, metric: 'euclidean' },
+    sliceAxes: [0, 1],
+    sliceValues: [0.5, 0.5],
+    electorate: null
+};
+
+const pixelAt = (pixels: Uint8ClampedArray, width: number, x: number, y: number) =>
+    Array.from(pixels.slice((y * width + x) * 4, (y * width + x) * 4 + 4));
+
+describe('Map tiles', () => {
+    test('cover the map without overlap', () => {
+        const tiles = splitTiles(250, 120, 100);
+        expect(tiles).toHaveLength(6);
+        expect(tiles.reduce((sum, t) => sum + t.width * t.height, 0)).toBe(250 * 120);
+        expect(tiles[2]).toEqual({ x: 200, y: 0, width: 50, height: 100 });
+    });
+
+    test('colour each pixel by its winner', () => {
+        const pixels = renderTile(spec, { x: 0, y: 0, width: 10, height: 10 }, 10, 10);
+        expect(pixelAt(pixels, 10, 1, 5)).toEqual([255, 0, 0, 255]);
+        expect(pixelAt(pixels, 10, 8, 5)).toEqual([0, 0, 255, 255]);
+    });
+
+    test('a tile matches the same region of the whole map', () => {
+        const whole = renderTile({ ...spec, method: 'borda' }, { x: 0, y: 0, width: 20, height: 20 }, 20, 20);
+        const tile = renderTile({ ...spec, method: 'borda' }, { x: 10, y: 5, width: 10, height: 10 }, 20, 20);
+        for (let y = 0; y < 10; y++) {
+            for (let x = 0; x < 10; x++) {
+                expect(pixelAt(tile, 10, x, y)).toEqual(pixelAt(whole, 20, x + 10, y + 5));
+            }
+        }
+    });
+
+    test('approval colours by the nearest approved candidate', () => {
+        const winner = createMapWinner({ ...spec, method: 'approval', approvalThreshold: 0.1 });
+        expect(winner(0.45, 0.5)).toBe('A');
+        expect(winner(0.55, 0.5)).toBe('B');
+        expect(hexToRgb('#12ab34')).toEqual([0x12, 0xab, 0x34]);
+    });
+});
+
+describe('Election outcome maps', () => {
+    // A centrist squeezed between two flanking candidates
+    const squeeze: MapSpec = {
+        ...spec,
+        candidates: [
+            { id: 'L', x: 0.3, y: 0.5, color: '#ff0000', name: 'L' },
+            { id: 'M', x: 0.5, y: 0.5, color: '#00ff00', name: 'M' },
+            { id: 'R', x: 0.7, y: 0.5, color: '#0000ff', name: 'R' }
+        ]
+    };
+    const electorate = { spread: 0.3, voterCount: 101, seed: 7, options: {} };
+
+    test('use the same voter offsets at every point', () => {
+        const offsets = electorateOffsets(electorate, 3);
+        expect(offsets).toHaveLength(101);
+        expect(offsets[0]).toHaveLength(3);
+        expect(electorateOffsets(electorate, 3)).toEqual(offsets);
+    });
+
+    test('use fixed offsets when given', () => {
+        const offsets = [[-0.1, 0], [0, 0], [0.1, 0.05]];
+        expect(electorateOffsets({ ...electorate, offsets }, 2)).toBe(offsets);
+        // A single voter at the point itself votes as the ballot map does
+        const lone = createMapWinner({ ...squeeze, electorate: { ...electorate, offsets: [[0, 0]] } });
+        expect(lone(0.42, 0.5)).toBe(createMapWinner(squeeze)(0.42, 0.5));
+    });
+
+    test('one voter with no spread reproduces the ballot map', () => {
+        const ballot = createMapWinner(squeeze);
+        const election = createMapWinner({ ...squeeze, electorate: { ...electorate, spread: 0, voterCount: 1 } });
+        [[0.1, 0.2], [0.45, 0.5], [0.62, 0.9], [0.95, 0.5]].forEach(([u, v]) => expect(election(u, v)).toBe(ballot(u, v)));
+    });
+
+    test('count the whole election, so IRV squeezes out the centrist a Condorcet method elects', () => {
+        expect(createMapWinner({ ...squeeze, method: 'irv' })(0.5, 0.5)).toBe('M');
+        expect(createMapWinner({ ...squeeze, method: 'irv', electorate })(0.5, 0.5)).not.toBe('M');
+        expect(createMapWinner({ ...squeeze, method: 'minimax', electorate })(0.5, 0.5)).toBe('M');
+    });
+
+    test('ties leave a point without a winner, coloured grey', () => {
+        // Everyone approves both candidates and ties are left unbroken
+        const tied: MapSpec = {
+            ...spec,
+            method: 'approval',
+            electorate: { ...electorate, voterCount: 5, options: { approvalThreshold: 2, tieBreakPolicy: 'noWinner' } }
+        };
+        expect(createMapWinner(tied)(0.3, 0.5)).toBe(NO_WINNER_ID);
+        expect(pixelAt(renderTile(tied, { x: 0, y: 0, width: 2, height: 2 }, 2, 2), 2, 0, 0))
+            .toEqual([...hexToRgb('#9ca3af'), 255]);
+    });
+});
+
+describe('Map worker pool', () => {
+    const collect = (pool: ReturnType<typeof createMapWorkerPool>, width: number, height: number) =>
+        new Promise<MapTile[]>(resolve => {
+            const tiles: MapTile[] = [];
+            pool.render(spec, width, height, tile => tiles.push(tile), () => resolve(tiles));
+        });
+
+    test('renders every tile across the workers', async () => {
+        const pool = createMapWorkerPool(createInlineWorker, 3);
+        const tiles = await collect(pool, 250, 250);
+        expect(tiles).toHaveLength(9);
+        pool.dispose();
+    });
+
+    test('a newer render cancels the one in progress', async () => {
+        const pool = createMapWorkerPool(createInlineWorker, 2);
+        let firstDone = false;
+        const firstTiles: MapTile[] = [];
+        pool.render(spec, 400, 400, tile => firstTiles.push(tile), () => firstDone = true);
+        const tiles = await collect(pool, 100, 100);
+
+        expect(tiles).toEqual([{ x: 0, y: 0, width: 100, height: 100 }]);
+        expect(firstDone).toBe(false);
+        expect(firstTiles).toHaveLength(0);
+        pool.dispose();
+    });
+
+    test('a tile a worker fails on is rendered in its place, and the worker keeps working', async () => {
+        // Throws on the map's top-left tile, the way a worker reports an uncaught exception
+        const createFailingWorker = (): MapWorker => {
+            const worker = createInlineWorker();
+            const post = worker.postMessage;
+            worker.postMessage = (request) => {
+                if (request.tile.x !== 0 || request.tile.y !== 0) return post(request);
+                setTimeout(() => worker.onerror?.({ preventDefault: () => {} } as unknown as ErrorEvent), 0);
+            };
+            return worker;
+        };
+        const pool = createMapWorkerPool(createFailingWorker, 1);
+        const tiles: Array<[MapTile, Uint8ClampedArray]> = [];
+        await new Promise<void>(resolve => pool.render(spec, 200, 100, (tile, pixels) => tiles.push([tile, pixels]), resolve));
+        expect(tiles).toHaveLength(2);
+        const failed = tiles.find(([tile]) => tile.x === 0)!;
+        expect(failed[1]).toEqual(renderTile(spec, failed[0], 200, 100));
+
+        // The lone worker was not lost, so a later render still finishes
+        expect(await collect(pool, 100, 100)).toEqual([{ x: 0, y: 0, width: 100, height: 100 }]);
+        pool.dispose();
+    });
+});
@@ -0,0 +1,196 @@
+import { runElection, type VotingMethod } from './election';
+import { NO_WINNER_COLOR } from './mapExport';
+import { renderAdaptive, type PixelRegion, type RGB } from './quadtree';
+import { createRng, randomNormal } from './random';
+import { getCoordinate, setCoordinate } from './space';
+import { strategicBallot } from './strategy';
+import type { Candidate, ElectionOptions, IssueSpace, MapMode, ScoreNormalization, ScoreScale, Voter } from './types';
+import { getVoterPreference, getVoterScores } from './votingMethods';
+
+// Everything needed to colour the map, in a form that can be posted to a worker
+export interface MapSpec {
+    candidates: Candidate[];
+    method: VotingMethod;
+    approvalThreshold: number;
+    scoreScale: ScoreScale;
+    scoreNormalization: ScoreNormalization;
+    scoreRadius: number;
+    // Front-runners strategic voters respond to, or null for sincere ballots
+    frontRunners: string[] | null;
+    space: IssueSpace;
+    // Issue dimensions shown on the canvas's horizontal and vertical axes
+    sliceAxes: [number, number];
+    // Where the slice sits on every dimension; the two shown axes are replaced
+    sliceValues: number[];
+    // The electorate held at each point in 'election' mode, or null to colour by one voter's ballot
+    electorate: MapElectorate | null;
+}
+
+// A small electorate moved to each point of the map, whose election decides the colour there
+export interface MapElectorate {
+    // Standard deviation of voters around the point, in every issue dimension
+    spread: number;
+    voterCount: number;
+    seed: number;
+    // Fixed offsets of each voter from the point, used instead of drawing voterCount at random
+    offsets?: number[][];
+    options: ElectionOptions;
+}
+
+// A rectangle of map pixels, in render-resolution pixels
+export type MapTile = PixelRegion;
+
+export interface MapRenderRequest {
+    jobId: number;
+    spec: MapSpec;
+    tile: MapTile;
+    // Size of the whole map being rendered
+    width: number;
+    height: number;
+    // Samples per pixel along each axis at winner boundaries
+    samples: number;
+}
+
+export interface MapRenderResponse {
+    jobId: number;
+    tile: MapTile;
+    // RGBA, row by row, tile.width × tile.height
+    pixels: Uint8ClampedArray;
+}
+
+export const MAP_TILE_SIZE = 100;
+
+// While a candidate is dragged the map renders at 1/PREVIEW_SCALE resolution
+export const PREVIEW_SCALE = 4;
+
+export const mapModes: Record<MapMode, string> = {
+    ballot: 'Single voter\'s ballot',
+    election: 'Election outcome'
+};
+
+export const mapModeDescriptions: Record<MapMode, string> = {
+    ballot: 'Each point shows the top choice on the ballot of one voter standing there.',
+    election: 'Each point shows who wins a whole election among voters spread around it, counted by the method itself.'
+};
+
+export const DEFAULT_MAP_SPREAD = 0.15;
+export const DEFAULT_MAP_VOTERS = 25;
+export const MAX_MAP_VOTERS = 200;
+
+// Winner reported where an election at a point ends in a tie
+export const NO_WINNER_ID = 'none';
+
+export const hexToRgb = (color: string): RGB => {
+    const rgb = parseInt(color.slice(1), 16);
+    return [(rgb >> 16) & 255, (rgb >> 8) & 255, rgb & 255];
+};
+
+// Map colour where no candidate wins
+const NO_WINNER_RGB: RGB = hexToRgb(NO_WINNER_COLOR);
+
+// The point of issue space under canvas position (u, v) in the spec's slice
+export const mapSlicePoint = (spec: MapSpec, u: number, v: number) => {
+    const { sliceValues, sliceAxes, space } = spec;
+    const base = { x: sliceValues[0], y: sliceValues[1], dims: sliceValues.slice(2, space.dimensions) };
+    return setCoordinate(setCoordinate(base, sliceAxes[0], u), sliceAxes[1], v);
+};
+
+// Offsets of the electorate's voters from its centre, the same at every point
+// so neighbouring points differ only by where the electorate stands
+export const electorateOffsets = (electorate: MapElectorate, dimensions: number): number[][] => {
+    if (electorate.offsets) return electorate.offsets;
+    const rng = createRng(electorate.seed);
+    return Array.from({ length: electorate.voterCount }, () =>
+        Array.from({ length: dimensions }, () => electorate.spread * randomNormal(rng))
+    );
+};
+
+// The winner of the spec's election held around each map position
+const createElectionWinner = (spec: MapSpec, electorate: MapElectorate) => {
+    const { candidates, method, space } = spec;
+    const offsets = electorateOffsets(electorate, space.dimensions);
+    return (u: number, v: number): string => {
+        const centre = mapSlicePoint(spec, u, v);
+        const voters = offsets.map((offset, i) => offset.reduce(
+            (voter, delta, d) => setCoordinate(voter, d, getCoordinate(centre, d) + delta),
+            { id: `map-${i}`, ...centre } as Voter
+        ));
+        return runElection(voters, candidates, method, electorate.options).winnerId ?? NO_WINNER_ID;
+    };
+};
+
+// The candidate a voter at map position (u, v) supports under the spec's method
+const createBallotWinner = (spec: MapSpec) => (u: number, v: number): string => {
+    const { candidates, method, space } = spec;
+    const point = mapSlicePoint(spec, u, v);
+    const voterX = point.x;
+    const voterY = point.y;
+
+    if (spec.frontRunners) {
+        // Colour by the ballot a strategic voter here would cast
+        const ranking = getVoterPreference(voterX, voterY, candidates, space, point.dims).map(p => p.id);
+        const ballot = strategicBallot(
+            { ranking, approved: [] },
+            { id: 'pixel', ...point },
+            candidates,
+            method,
+            spec.frontRunners,
+            space
+        );
+        return method === 'approval' ? ballot.approved[0] ?? ranking[0] : ballot.ranking[0];
+    }
+    if (method === 'approval') {
+        // For approval, color based on approved candidates
+        const prefs = getVoterPreference(voterX, voterY, candidates, space, point.dims);
+        const approvedCandidates = prefs.filter(p => p.dist <= spec.approvalThreshold);
+        return approvedCandidates.length > 0 ? approvedCandidates[0].id : prefs[0].id;
+    }
+    if (method === 'borda') {
+        // For Borda, color based on points
+        const prefs = getVoterPreference(voterX, voterY, candidates, space, point.dims);
+        const points = new Map<string, number>();
+        prefs.forEach((p, i) => {
+            points.set(p.id, candidates.length - 1 - i);
+        });
+        return [...points.entries()].reduce((a, b) => a[1] > b[1] ? a : b)[0];
+    }
+    if (method === 'score' || method === 'star') {
+        // For score methods, color by the highest-scored candidate (nearest on ties)
+        const scores = getVoterScores(
+            voterX, voterY, candidates, spec.scoreScale, spec.scoreNormalization, spec.scoreRadius, space, point.dims
+        );
+        return getVoterPreference(voterX, voterY, candidates, space, point.dims)
+            .reduce((best, p) => scores[p.id] > scores[best.id] ? p : best).id;
+    }
+    // For plurality and IRV, color based on closest candidate
+    return getVoterPreference(voterX, voterY, candidates, space, point.dims)[0].id;
+};
+
+// The map colouring for the spec's mode: a ballot or an election at each point
+export const createMapWinner = (spec: MapSpec): ((u: number, v: number) => string) =>
+    spec.electorate ? createElectionWinner(spec, spec.electorate) : createBallotWinner(spec);
+
+// Cover a width × height map with tiles of at most size × size pixels
+export const splitTiles = (width: number, height: number, size: number = MAP_TILE_SIZE): MapTile[] => {
+    const tiles: MapTile[] = [];
+    for (let y = 0; y < height; y += size) {
+        for (let x = 0; x < width; x += size) {
+            tiles.push({ x, y, width: Math.min(size, width - x), height: Math.min(size, height - y) });
+        }
+    }
+    return tiles;
+};
+
+// RGBA pixels for one tile of a width × height map. Pixel (x, y) shows the
+// winner at u = x / width, v = 1 - y / height, as the full-resolution map always
+// has; the quadtree only asks for winners near boundaries.
+export const renderTile = (
+    spec: MapSpec,
+    tile: MapTile,
+    width: number,
+    height: number,
+    samples: number = 1
+): Uint8ClampedArray => {
+    const colors = new Map(spec.candidates.map(c => [c.id, hexToRgb(c.color)]));
+    return renderAdaptive(createMapWinner(spec), tile, width, height, id => colors.get(id) ?? NO_WINNER_RGB, { samples });
+};
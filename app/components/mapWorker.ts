@@ -0,0 +1,9 @@
+import { renderTile, type MapRenderRequest, type MapRenderResponse } from './mapRender';
+
+// Renders one map tile per message and transfers the pixels back
+self.onmessage = (event: MessageEvent<MapRenderRequest>) => {
+    const { jobId, spec, tile, width, height, samples } = event.data;
+    const pixels = renderTile(spec, tile, width, height, samples);
+    const response: MapRenderResponse = { jobId, tile, pixels };
+    (self as unknown as Worker).postMessage(response, [pixels.buffer]);
+};
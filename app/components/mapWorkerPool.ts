@@ -0,0 +1,149 @@
+import { renderTile, splitTiles, type MapRenderRequest, type MapRenderResponse, type MapSpec, type MapTile } from './mapRender';
+
+// Most workers a pool starts, whatever the core count
+export const MAX_MAP_WORKERS = 4;
+
+// The part of the Worker interface the pool relies on
+export interface MapWorker {
+    postMessage(request: MapRenderRequest): void;
+    onmessage: ((event: MessageEvent<MapRenderResponse>) => void) | null;
+    onerror: ((event: ErrorEvent) => void) | null;
+    onmessageerror: ((event: MessageEvent) => void) | null;
+    terminate(): void;
+}
+
+export interface MapWorkerPool {
+    // Start rendering a map, replacing (and cancelling) any render in progress.
+    // onTile receives each tile's pixels as it arrives; onDone follows the last.
+    // Winner boundaries get samples × samples samples per pixel.
+    render(
+        spec: MapSpec,
+        width: number,
+        height: number,
+        onTile: (tile: MapTile, pixels: Uint8ClampedArray) => void,
+        onDone: () => void,
+        samples?: number
+    ): void;
+    cancel(): void;
+    dispose(): void;
+}
+
+// Renders on the calling thread, a tile per task, where Web Workers are unavailable
+export const createInlineWorker = (): MapWorker => {
+    const worker: MapWorker = {
+        onmessage: null,
+        onerror: null,
+        onmessageerror: null,
+        postMessage: (request) => {
+            setTimeout(() => {
+                let pixels: Uint8ClampedArray;
+                try {
+                    pixels = renderTile(request.spec, request.tile, request.width, request.height, request.samples);
+                } catch (error) {
+                    // Report it as a real worker would an uncaught exception
+                    worker.onerror?.({ type: 'error', error, message: String(error), preventDefault: () => {} } as unknown as ErrorEvent);
+                    return;
+                }
+                worker.onmessage?.({ data: { jobId: request.jobId, tile: request.tile, pixels } } as MessageEvent<MapRenderResponse>);
+            }, 0);
+        },
+        terminate: () => {
+            worker.onmessage = null;
+            worker.onerror = null;
+            worker.onmessageerror = null;
+        }
+    };
+    return worker;
+};
+
+// Spread map tiles over `size` workers. A new render cancels the previous
+// one: its queued tiles are dropped and tiles already in flight are ignored.
+// A tile a worker fails on is rendered again on this thread (or left blank if
+// that fails too), so the render still completes and the worker stays in use.
+export const createMapWorkerPool = (createWorker: () => MapWorker, size: number): MapWorkerPool => {
+    let jobId = 0;
+    let queue: MapRenderRequest[] = [];
+    let remaining = 0;
+    let handlers: { onTile: (tile: MapTile, pixels: Uint8ClampedArray) => void; onDone: () => void } | null = null;
+    const idle: MapWorker[] = [];
+    // The tile each busy worker is rendering
+    const inFlight = new Map<MapWorker, MapRenderRequest>();
+
+    const dispatch = (worker: MapWorker) => {
+        const next = queue.shift();
+        if (next) {
+            inFlight.set(worker, next);
+            worker.postMessage(next);
+        } else {
+            idle.push(worker);
+        }
+    };
+
+    const finishTile = (worker: MapWorker, request: MapRenderRequest | undefined, pixels: Uint8ClampedArray | null) => {
+        inFlight.delete(worker);
+        if (request && request.jobId === jobId && handlers) {
+            const current = handlers;
+            if (pixels) current.onTile(request.tile, pixels);
+            remaining--;
+            if (remaining === 0) {
+                handlers = null;
+                current.onDone();
+            }
+        }
+        dispatch(worker);
+    };
+
+    const failTile = (worker: MapWorker) => {
+        const request = inFlight.get(worker);
+        let pixels: Uint8ClampedArray | null = null;
+        if (request && request.jobId === jobId) {
+            try {
+                pixels = renderTile(request.spec, request.tile, request.width, request.height, request.samples);
+            } catch {
+                pixels = null;
+            }
+        }
+        finishTile(worker, request, pixels);
+    };
+
+    const workers = Array.from({ length: Math.max(1, size) }, () => {
+        const worker = createWorker();
+        worker.onmessage = ({ data }) => finishTile(worker, inFlight.get(worker), data.pixels);
+        worker.onerror = (event) => {
+            event.preventDefault();
+            failTile(worker);
+        };
+        worker.onmessageerror = () => failTile(worker);
+        return worker;
+    });
+    idle.push(...workers);
+
+    const cancel = () => {
+        jobId++;
+        queue = [];
+        handlers = null;
+    };
+
+    return {
+        render: (spec, width, height, onTile, onDone, samples = 1) => {
+            cancel();
+            queue = splitTiles(width, height).map(tile => ({ jobId, spec, tile, width, height, samples }));
+            remaining = queue.length;
+            handlers = { onTile, onDone };
+            while (idle.length > 0 && queue.length > 0) dispatch(idle.pop()!);
+        },
+        cancel,
+        dispose: () => {
+            cancel();
+            workers.forEach(worker => worker.terminate());
+        }
+    };
+};
+
+// A pool of real Web Workers sized to the machine, or inline ones where workers are unavailable
+export const createBrowserMapWorkerPool = (): MapWorkerPool => createMapWorkerPool(
+    () => typeof Worker !== 'undefined'
+        ? new Worker(new URL('./mapWorker.ts', import.meta.url))
+        : createInlineWorker(),
+    Math.min(MAX_MAP_WORKERS, navigator.hardwareConcurrency || 2)
+);
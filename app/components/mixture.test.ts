@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'vitest';
+import { clusterEllipse, ELLIPSE_SCALE, mixturePresets, sampleMixture } from './mixture';
+import { createRng } from './random';
+import type { VoterCluster } from './types';
+
+const cluster = (changes: Partial<VoterCluster> = {}): VoterCluster => ({
+    id: 'c', weight: 1, x: 0.5, y: 0.5, sdX: 0.1, sdY: 0.1, correlation: 0, shape: 'gaussian', ...changes
+});
+
+describe('Sampling a voter mixture', () => {
+    test('draws the requested number of points inside the unit square', () => {
+        const points = sampleMixture([cluster({ sdX: 0.5, sdY: 0.5 })], 500, createRng(1));
+        expect(points).toHaveLength(500);
+        points.flat().forEach(value => {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThanOrEqual(1);
+        });
+    });
+
+    test('an empty or weightless mixture draws nothing', () => {
+        expect(sampleMixture([], 10)).toEqual([]);
+        expect(sampleMixture([cluster({ weight: 0 })], 10)).toEqual([]);
+    });
+
+    test('clusters contribute in proportion to their weight', () => {
+        const points = sampleMixture([
+            cluster({ id: 'left', x: 0.2, sdX: 0.02, sdY: 0.02, weight: 3 }),
+            cluster({ id: 'right', x: 0.8, sdX: 0.02, sdY: 0.02, weight: 1 })
+        ], 2000, createRng(2));
+        const leftShare = points.filter(([x]) => x < 0.5).length / points.length;
+        expect(leftShare).toBeGreaterThan(0.7);
+        expect(leftShare).toBeLessThan(0.8);
+    });
+
+    test('correlation tilts the cluster', () => {
+        const points = sampleMixture([cluster({ correlation: 0.8 })], 2000, createRng(3));
+        const covariance = points.reduce((sum, [x, y]) => sum + (x - 0.5) * (y - 0.5), 0) / points.length;
+        expect(covariance / (0.1 * 0.1)).toBeCloseTo(0.8, 1);
+    });
+
+    test('ring voters sit near the ellipse and uniform voters fill it', () => {
+        const radius = (x: number, y: number) => Math.hypot(x - 0.5, y - 0.5) / (ELLIPSE_SCALE * 0.1);
+        const ring = sampleMixture([cluster({ shape: 'ring' })], 500, createRng(4));
+        ring.forEach(([x, y]) => expect(Math.abs(radius(x, y) - 1)).toBeLessThan(0.25));
+
+        const uniform = sampleMixture([cluster({ shape: 'uniform' })], 500, createRng(5));
+        uniform.forEach(([x, y]) => expect(radius(x, y)).toBeLessThanOrEqual(1 + 1e-9));
+        expect(uniform.filter(([x, y]) => radius(x, y) < 0.5).length / 500).toBeCloseTo(0.25, 1);
+    });
+
+    test('the same generator seed reproduces the sample', () => {
+        const { clusters } = mixturePresets.polarised;
+        expect(sampleMixture(clusters, 50, createRng(9))).toEqual(sampleMixture(clusters, 50, createRng(9)));
+    });
+});
+
+describe('Cluster ellipses', () => {
+    test('an uncorrelated cluster is axis-aligned', () => {
+        const { rx, ry, angle } = clusterEllipse(cluster({ sdX: 0.2, sdY: 0.1 }));
+        expect(rx).toBeCloseTo(0.2);
+        expect(ry).toBeCloseTo(0.1);
+        expect(angle).toBeCloseTo(0);
+    });
+
+    test('positive correlation tilts the major axis upwards', () => {
+        const { rx, ry, angle } = clusterEllipse(cluster({ correlation: 0.5 }));
+        expect(angle).toBeCloseTo(Math.PI / 4);
+        expect(rx).toBeGreaterThan(ry);
+    });
+});
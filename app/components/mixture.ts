@@ -0,0 +1,158 @@
+import { randomNormal } from './random';
+import type { ClusterShape, VoterCluster } from './types';
+
+export const clusterShapes: Record<ClusterShape, string> = {
+    gaussian: 'Gaussian',
+    ring: 'Ring',
+    uniform: 'Uniform'
+};
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+
+// Check a cluster read from a file or link, field by field; null if any is unusable
+export const readCluster = (value: unknown): VoterCluster | null => {
+    if (typeof value !== 'object' || value === null) return null;
+    const { id, weight, x, y, sdX, sdY, correlation, shape, turnout } = value as Record<string, unknown>;
+    if (typeof id !== 'string' || id === '') return null;
+    if (typeof shape !== 'string' || !Object.hasOwn(clusterShapes, shape)) return null;
+    if (!isFiniteNumber(weight) || !isFiniteNumber(x) || !isFiniteNumber(y)) return null;
+    if (!isFiniteNumber(sdX) || !isFiniteNumber(sdY) || !isFiniteNumber(correlation)) return null;
+    if (weight < 0 || sdX < 0 || sdY < 0 || Math.abs(correlation) > 1) return null;
+    if (turnout !== undefined && !(isFiniteNumber(turnout) && turnout >= 0 && turnout <= 1)) return null;
+    return {
+        id,
+        weight,
+        x,
+        y,
+        sdX,
+        sdY,
+        correlation,
+        shape: shape as ClusterShape,
+        ...(turnout !== undefined && { turnout })
+    };
+};
+
+// Ring and uniform clusters sit on / fill the ellipse this many standard deviations out
+export const ELLIPSE_SCALE = 2;
+
+// Ring voters scatter this far (as a share of the radius) either side of the ellipse
+const RING_JITTER = 0.05;
+
+// Give up resampling points that fall outside the unit square after this many tries
+const MAX_ATTEMPTS = 20;
+
+export const mixturePresets: Record<string, { label: string; clusters: VoterCluster[] }> = {
+    polarised: {
+        label: 'Polarised',
+        clusters: [
+            { id: 'left', weight: 1, x: 0.25, y: 0.5, sdX: 0.08, sdY: 0.12, correlation: 0, shape: 'gaussian' },
+            { id: 'right', weight: 1, x: 0.75, y: 0.5, sdX: 0.08, sdY: 0.12, correlation: 0, shape: 'gaussian' }
+        ]
+    },
+    ring: {
+        label: 'Ring',
+        clusters: [
+            { id: 'ring', weight: 1, x: 0.5, y: 0.5, sdX: 0.15, sdY: 0.15, correlation: 0, shape: 'ring' }
+        ]
+    },
+    region: {
+        label: 'Uniform in region',
+        clusters: [
+            { id: 'region', weight: 1, x: 0.4, y: 0.6, sdX: 0.15, sdY: 0.1, correlation: 0.5, shape: 'uniform' }
+        ]
+    }
+};
+
+// Map a point of the unit disk (or circle) onto the cluster's ellipse. The
+// lower-triangular Cholesky factor of the covariance keeps the correlation.
+const toEllipse = (cluster: VoterCluster, u: number, v: number, scale: number): [number, number] => {
+    const rho = Math.max(-0.99, Math.min(0.99, cluster.correlation));
+    return [
+        cluster.x + scale * cluster.sdX * u,
+        cluster.y + scale * cluster.sdY * (rho * u + Math.sqrt(1 - rho * rho) * v)
+    ];
+};
+
+export const sampleCluster = (cluster: VoterCluster, rng: () => number): [number, number] => {
+    switch (cluster.shape) {
+        case 'ring': {
+            const angle = 2 * Math.PI * rng();
+            const radius = 1 + randomNormal(rng) * RING_JITTER;
+            return toEllipse(cluster, radius * Math.cos(angle), radius * Math.sin(angle), ELLIPSE_SCALE);
+        }
+        case 'uniform': {
+            const angle = 2 * Math.PI * rng();
+            const radius = Math.sqrt(rng());
+            return toEllipse(cluster, radius * Math.cos(angle), radius * Math.sin(angle), ELLIPSE_SCALE);
+        }
+        default:
+            return toEllipse(cluster, randomNormal(rng), randomNormal(rng), 1);
+    }
+};
+
+export interface MixtureSample {
+    point: [number, number];
+    clusterId: string;
+}
+
+// Draw `count` positions from the weighted mixture, noting the cluster each came
+// from. Points outside the unit square are redrawn from the same cluster, then
+// clamped as a last resort.
+export const sampleMixtureClusters = (
+    clusters: VoterCluster[],
+    count: number,
+    rng: () => number = Math.random
+): MixtureSample[] => {
+    const totalWeight = clusters.reduce((sum, c) => sum + Math.max(0, c.weight), 0);
+    if (clusters.length === 0 || totalWeight <= 0) return [];
+
+    const pick = () => {
+        let target = rng() * totalWeight;
+        for (const cluster of clusters) {
+            target -= Math.max(0, cluster.weight);
+            if (target < 0) return cluster;
+        }
+        return clusters[clusters.length - 1];
+    };
+
+    return Array.from({ length: count }, () => {
+        const cluster = pick();
+        let point = sampleCluster(cluster, rng);
+        for (let attempt = 1; attempt < MAX_ATTEMPTS; attempt++) {
+            if (point.every(value => value >= 0 && value <= 1)) return { point, clusterId: cluster.id };
+            point = sampleCluster(cluster, rng);
+        }
+        return { point: point.map(value => Math.max(0, Math.min(1, value))) as [number, number], clusterId: cluster.id };
+    });
+};
+
+export const sampleMixture = (
+    clusters: VoterCluster[],
+    count: number,
+    rng: () => number = Math.random
+): [number, number][] =>
+    sampleMixtureClusters(clusters, count, rng).map(sample => sample.point);
+
+// Fixed turnout rates of the clusters that set one, by cluster id
+export const clusterTurnout = (clusters: VoterCluster[]): Record<string, number> => {
+    const rates: Record<string, number> = {};
+    clusters.forEach(c => {
+        if (c.turnout !== undefined) rates[c.id] = c.turnout;
+    });
+    return rates;
+};
+
+// Semi-axes (in standard deviations) and tilt of the cluster's covariance
+// ellipse, from the eigen-decomposition of its 2×2 covariance matrix
+export const clusterEllipse = (cluster: VoterCluster): { rx: number; ry: number; angle: number } => {
+    const a = cluster.sdX ** 2;
+    const d = cluster.sdY ** 2;
+    const b = cluster.correlation * cluster.sdX * cluster.sdY;
+    const mid = (a + d) / 2;
+    const spread = Math.sqrt(((a - d) / 2) ** 2 + b * b);
+    return {
+        rx: Math.sqrt(Math.max(0, mid + spread)),
+        ry: Math.sqrt(Math.max(0, mid - spread)),
+        angle: 0.5 * Math.atan2(2 * b, a - d)
+    };
+};
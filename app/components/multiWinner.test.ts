@@ -0,0 +1,145 @@
+import { describe, expect, test } from 'vitest';
+import {
+    runDHondtElection,
+    runMultiWinnerElection,
+    runRRVElection,
+    runSainteLagueElection,
+    runSPAVElection,
+    runSTVElection
+} from './multiWinner';
+import type { Ballot, Candidate } from './types';
+
+const candidates: Candidate[] = [
+    { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+    { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+    { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+];
+
+const repeat = (ballot: Ballot, times: number): Ballot[] =>
+    Array.from({ length: times }, () => ({ ...ballot }));
+
+const ranked = (...ranking: string[]): Ballot => ({ ranking, approved: [ranking[0]] });
+
+describe('Single Transferable Vote', () => {
+    test('elects a candidate at the Droop quota and transfers the surplus', () => {
+        const ballots = [...repeat(ranked('A', 'B', 'C'), 6), ...repeat(ranked('C', 'B', 'A'), 3)];
+        const result = runSTVElection(ballots, candidates, 2);
+
+        expect(result.roundDetails[0]).toBe('Droop quota: 4 of 9 ballots for 2 seats');
+        expect(result.roundDetails[1]).toContain('A elected with 6 votes; surplus of 2 transfers at 0.333');
+        expect(result.winnerIds).toEqual(['A', 'C']);
+        expect(result.seats).toEqual({ A: 1, B: 0, C: 1 });
+        expect(result.votes).toEqual({ A: 6, B: 0, C: 3 });
+    });
+
+    test('surplus votes can elect a second preference', () => {
+        const ballots = [
+            ...repeat(ranked('A', 'B', 'C'), 6),
+            ...repeat(ranked('B', 'A', 'C'), 2),
+            ...repeat(ranked('C', 'A', 'B'), 3)
+        ];
+        // Quota 4: A's surplus of 2 lifts B from 2 to 4, ahead of C's 3
+        const result = runSTVElection(ballots, candidates, 2);
+        expect(result.roundDetails[2]).toContain('B elected with 4 votes');
+        expect(result.winnerIds).toEqual(['A', 'B']);
+    });
+
+    test('fills every seat when there are no more candidates than seats', () => {
+        const result = runSTVElection([ranked('A', 'B', 'C')], candidates, 3);
+        expect(result.winnerIds).toEqual(['A', 'B', 'C']);
+    });
+});
+
+describe('Sequential Proportional Approval', () => {
+    test('reweighting gives the minority a seat', () => {
+        const ballots: Ballot[] = [
+            ...repeat({ ranking: ['A', 'B', 'C'], approved: ['A', 'B'] }, 3),
+            ...repeat({ ranking: ['C', 'A', 'B'], approved: ['C'] }, 2)
+        ];
+        const result = runSPAVElection(ballots, candidates, 2);
+        expect(result.winnerIds).toEqual(['A', 'C']);
+        expect(result.roundDetails[0]).toBe('Tie for seat 1 between A, B: broken by candidate order (A)');
+        expect(result.roundDetails[2]).toBe('Seat 2: C with 2 weighted approvals');
+        expect(result.representatives).toEqual(['A', 'A', 'A', 'C', 'C']);
+    });
+});
+
+describe('Reweighted Range Voting', () => {
+    test('reweighting gives the minority a seat', () => {
+        const ballots: Ballot[] = [
+            ...repeat({ ranking: ['A', 'B', 'C'], approved: [], scores: { A: 5, B: 5, C: 0 } }, 3),
+            ...repeat({ ranking: ['C', 'A', 'B'], approved: [], scores: { A: 0, B: 0, C: 5 } }, 2)
+        ];
+        const result = runRRVElection(ballots, candidates, 2, { scoreScale: 5 });
+        expect(result.winnerIds).toEqual(['A', 'C']);
+        expect(result.roundDetails[0]).toBe('Tie for seat 1 between A, B: broken by candidate order (A)');
+        expect(result.roundDetails[2]).toBe('Seat 2: C with 10 weighted points');
+    });
+});
+
+describe('Party-list highest averages', () => {
+    const ballots = [
+        ...repeat(ranked('A'), 11),
+        ...repeat(ranked('B'), 7),
+        ...repeat(ranked('C'), 4)
+    ];
+
+    test("D'Hondt favours the largest party", () => {
+        const result = runDHondtElection(ballots, candidates, 5);
+        expect(result.seats).toEqual({ A: 3, B: 1, C: 1 });
+        expect(result.winnerIds).toEqual(['A', 'B', 'C']);
+    });
+
+    test('Sainte-Laguë is more even', () => {
+        const result = runSainteLagueElection(ballots, candidates, 5);
+        expect(result.seats).toEqual({ A: 2, B: 2, C: 1 });
+    });
+});
+
+describe('Multi-winner ties', () => {
+    test('STV eliminations follow the tie-break policy', () => {
+        // Quota 3: A is elected, then B and C tie for last place
+        const ballots = [...repeat(ranked('A'), 4), ranked('B', 'C'), ranked('C', 'B')];
+        const result = runSTVElection(ballots, candidates, 2);
+        expect(result.roundDetails).toContain('Tie for last place in round 2 between B, C: broken by candidate order (B)');
+        expect(result.winnerIds).toEqual(['A', 'C']);
+
+        const reported = runSTVElection(ballots, candidates, 2, { tieBreakPolicy: 'noWinner' });
+        expect(reported.winnerIds).toEqual(['A']);
+        expect(reported.roundDetails.at(-1)).toBe('Remaining seats left unfilled: the tie was reported rather than broken');
+    });
+
+    test('SPAV seats follow the tie-break policy', () => {
+        const ballots = repeat({ ranking: ['B', 'A', 'C'], approved: ['A', 'B'] }, 2);
+        expect(runSPAVElection(ballots, candidates, 1).winnerIds).toEqual(['A']);
+
+        const result = runSPAVElection(ballots, candidates, 1, { tieBreakPolicy: 'borda' });
+        expect(result.winnerIds).toEqual(['B']);
+        expect(result.roundDetails[0]).toBe('Tie for seat 1 between A, B: broken by Borda count (B)');
+    });
+
+    test('highest-averages seats follow the tie-break policy', () => {
+        // A's second quotient of 3 ties with B's first
+        const ballots = [...repeat(ranked('A'), 6), ...repeat(ranked('B'), 3)];
+        expect(runDHondtElection(ballots, candidates, 2).seats).toEqual({ A: 2, B: 0, C: 0 });
+
+        const result = runDHondtElection(ballots, candidates, 2, { tieBreakPolicy: 'noWinner' });
+        expect(result.seats).toEqual({ A: 1, B: 0, C: 0 });
+        expect(result.roundDetails).toContain('Tie for seat 2 between A, B: reported as no winner');
+    });
+});
+
+describe('Multi-winner elections from voter positions', () => {
+    test('represents each voter by their nearest winner', () => {
+        const voters = [
+            { id: 'v1', x: 0.05, y: 0 },
+            { id: 'v2', x: 0.1, y: 0 },
+            { id: 'v3', x: 0.95, y: 0 },
+            { id: 'v4', x: 0.9, y: 0 },
+            { id: 'v5', x: 0.55, y: 0 }
+        ];
+        const result = runMultiWinnerElection(voters, candidates, 'stv', 2);
+        expect(result.winnerIds).toEqual(['A', 'B']);
+        expect(result.representatives).toEqual(['A', 'A', 'B', 'B', 'B']);
+    });
+});
@@ -0,0 +1,322 @@
+import { ballotWeight, castBallots, totalWeight } from './election';
+import { formatVotes } from './format';
+import { createTieBreaker } from './tieBreaking';
+import type { Ballot, Candidate, ElectionOptions, MultiWinnerResult, Voter } from './types';
+
+export const multiWinnerMethods = {
+    stv: 'Single Transferable Vote',
+    spav: 'Sequential Proportional Approval',
+    rrv: 'Reweighted Range Voting',
+    dhondt: "D'Hondt",
+    sainteLague: 'Sainte-Laguë'
+};
+
+export type MultiWinnerMethod = keyof typeof multiWinnerMethods;
+
+export const multiWinnerDescriptions = {
+    stv: "Voters rank by distance. Candidates reaching the Droop quota are elected and their surplus transfers to next preferences at reduced value; otherwise the last-place candidate is eliminated.",
+    spav: "Voters approve candidates within the threshold. Seats are filled one at a time; each ballot counts 1/(1 + approved winners so far).",
+    rrv: "Voters score candidates. Seats are filled one at a time; each ballot is reweighted by 1/(1 + its scores for winners so far / max score).",
+    dhondt: "Each candidate is a party list and voters vote for the nearest party. Seats go to the highest quotients votes/(seats won + 1), which favours larger parties.",
+    sainteLague: "Each candidate is a party list and voters vote for the nearest party. Seats go to the highest quotients votes/(2 × seats won + 1), which treats small parties more evenly."
+};
+
+// Party-list methods can give one candidate (party) several seats
+export const isPartyListMethod = (method: MultiWinnerMethod): boolean =>
+    method === 'dhondt' || method === 'sainteLague';
+
+const DEFAULT_SCORE_SCALE = 5;
+
+// Fractional transfers accumulate rounding error; treat values this close as equal
+const EPSILON = 1e-9;
+
+const UNFILLED_DETAIL = 'Remaining seats left unfilled: the tie was reported rather than broken';
+
+const candidateName = (candidates: Candidate[], id: string): string =>
+    candidates.find(c => c.id === id)?.name ?? id;
+
+const emptyTally = (candidates: Candidate[]): Record<string, number> => {
+    const votes: Record<string, number> = {};
+    candidates.forEach(c => votes[c.id] = 0);
+    return votes;
+};
+
+// Each ballot is represented by the winner it ranks highest
+const assignRepresentatives = (ballots: Ballot[], winnerIds: string[]): (string | null)[] => {
+    const winners = new Set(winnerIds);
+    return ballots.map(ballot => ballot.ranking.find(id => winners.has(id)) ?? null);
+};
+
+const buildResult = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    seats: Record<string, number>,
+    votes: Record<string, number>,
+    roundDetails: string[]
+): MultiWinnerResult => {
+    const winnerIds = candidates.map(c => c.id).filter(id => seats[id] > 0);
+    return {
+        winnerIds,
+        seats,
+        votes,
+        roundDetails,
+        representatives: assignRepresentatives(ballots, winnerIds)
+    };
+};
+
+// STV with the Droop quota. Surpluses transfer fractionally: every ballot
+// counting towards an elected candidate keeps (surplus / total) of its value.
+export const runSTVElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    seatCount: number,
+    options: ElectionOptions = {}
+): MultiWinnerResult => {
+    // Weighted ballots with a fractional total use the exact Droop quota
+    const total = totalWeight(ballots);
+    const quota = Number.isInteger(total) ? Math.floor(total / (seatCount + 1)) + 1 : total / (seatCount + 1);
+    const weights = ballots.map(ballotWeight);
+    const hopeful = candidates.map(c => c.id);
+    const seats = emptyTally(candidates);
+    const roundDetails = [`Droop quota: ${formatVotes(quota)} of ${formatVotes(total)} ballots for ${seatCount} seats`];
+    const history: Record<string, number>[] = [];
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+    let elected = 0;
+    let firstPreferences: Record<string, number> | null = null;
+
+    for (let round = 1; elected < seatCount && hopeful.length > 0; round++) {
+        const tally: Record<string, number> = {};
+        const holders: Record<string, number[]> = {};
+        hopeful.forEach(id => {
+            tally[id] = 0;
+            holders[id] = [];
+        });
+
+        ballots.forEach((ballot, i) => {
+            const choice = ballot.ranking.find(id => id in tally);
+            if (choice) {
+                tally[choice] += weights[i];
+                holders[choice].push(i);
+            }
+        });
+        firstPreferences ??= { ...emptyTally(candidates), ...tally };
+
+        if (hopeful.length <= seatCount - elected) {
+            hopeful.forEach(id => seats[id] = 1);
+            elected += hopeful.length;
+            roundDetails.push(
+                `Round ${round}: ${hopeful.map(id => candidateName(candidates, id)).join(', ')} elected to fill the remaining seats`
+            );
+            break;
+        }
+
+        if (Math.max(...hopeful.map(id => tally[id])) >= quota - EPSILON) {
+            // Among candidates over the quota, who is elected first decides whose surplus transfers
+            const leader = tieBreaker.pickHighest(tally, hopeful, `first place in round ${round}`, history);
+            roundDetails.push(...tieBreaker.details.splice(0));
+            if (!leader) {
+                roundDetails.push(UNFILLED_DETAIL);
+                break;
+            }
+            const surplus = Math.max(0, tally[leader] - quota);
+            const factor = tally[leader] > 0 ? surplus / tally[leader] : 0;
+            holders[leader].forEach(i => weights[i] *= factor);
+            seats[leader] = 1;
+            elected++;
+            hopeful.splice(hopeful.indexOf(leader), 1);
+            roundDetails.push(
+                `Round ${round}: ${candidateName(candidates, leader)} elected with ${formatVotes(tally[leader])} votes; ` +
+                `surplus of ${formatVotes(surplus)} transfers at ${factor.toFixed(3)} per ballot`
+            );
+        } else {
+            const loser = tieBreaker.pickLowest(tally, hopeful, `last place in round ${round}`, history);
+            roundDetails.push(...tieBreaker.details.splice(0));
+            if (!loser) {
+                roundDetails.push(UNFILLED_DETAIL);
+                break;
+            }
+            hopeful.splice(hopeful.indexOf(loser), 1);
+            roundDetails.push(
+                `Round ${round}: ${candidateName(candidates, loser)} eliminated with ${formatVotes(tally[loser])} votes`
+            );
+        }
+        history.push(tally);
+    }
+
+    return buildResult(ballots, candidates, seats, firstPreferences ?? emptyTally(candidates), roundDetails);
+};
+
+// Sequential Proportional Approval: each ballot's approvals are worth
+// 1 / (1 + number of its approved candidates already elected)
+export const runSPAVElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    seatCount: number,
+    options: ElectionOptions = {}
+): MultiWinnerResult => {
+    const seats = emptyTally(candidates);
+    const votes = emptyTally(candidates);
+    ballots.forEach(ballot => ballot.approved.forEach(id => votes[id] += ballotWeight(ballot)));
+
+    const roundDetails: string[] = [];
+    const remaining = candidates.map(c => c.id);
+    const history: Record<string, number>[] = [];
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+
+    for (let seat = 1; seat <= seatCount && remaining.length > 0; seat++) {
+        const tally: Record<string, number> = {};
+        remaining.forEach(id => tally[id] = 0);
+
+        ballots.forEach(ballot => {
+            const electedApproved = ballot.approved.filter(id => seats[id] > 0).length;
+            const weight = ballotWeight(ballot) / (1 + electedApproved);
+            ballot.approved.forEach(id => {
+                if (id in tally) tally[id] += weight;
+            });
+        });
+
+        const winner = tieBreaker.pickHighest(tally, remaining, `seat ${seat}`, history);
+        roundDetails.push(...tieBreaker.details.splice(0));
+        if (!winner) {
+            roundDetails.push(UNFILLED_DETAIL);
+            break;
+        }
+        seats[winner] = 1;
+        remaining.splice(remaining.indexOf(winner), 1);
+        history.push(tally);
+        roundDetails.push(`Seat ${seat}: ${candidateName(candidates, winner)} with ${formatVotes(tally[winner])} weighted approvals`);
+    }
+
+    return buildResult(ballots, candidates, seats, votes, roundDetails);
+};
+
+// Reweighted Range Voting: each ballot's scores are worth
+// 1 / (1 + its total score for elected candidates / max score)
+export const runRRVElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    seatCount: number,
+    options: ElectionOptions = {}
+): MultiWinnerResult => {
+    const maxScore = options.scoreScale ?? DEFAULT_SCORE_SCALE;
+    const scoresOf = (ballot: Ballot): Record<string, number> => {
+        if (ballot.scores) return ballot.scores;
+        const scores: Record<string, number> = {};
+        ballot.ranking.forEach((id, i) => scores[id] = candidates.length - 1 - i);
+        return scores;
+    };
+
+    const seats = emptyTally(candidates);
+    const votes = emptyTally(candidates);
+    ballots.forEach(ballot => {
+        Object.entries(scoresOf(ballot)).forEach(([id, score]) => votes[id] += score * ballotWeight(ballot));
+    });
+
+    const roundDetails: string[] = [];
+    const remaining = candidates.map(c => c.id);
+    const history: Record<string, number>[] = [];
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+
+    for (let seat = 1; seat <= seatCount && remaining.length > 0; seat++) {
+        const tally: Record<string, number> = {};
+        remaining.forEach(id => tally[id] = 0);
+
+        ballots.forEach(ballot => {
+            const scores = scoresOf(ballot);
+            const electedScore = Object.entries(scores)
+                .filter(([id]) => seats[id] > 0)
+                .reduce((sum, [, score]) => sum + score, 0);
+            const weight = ballotWeight(ballot) / (1 + electedScore / maxScore);
+            remaining.forEach(id => tally[id] += (scores[id] ?? 0) * weight);
+        });
+
+        const winner = tieBreaker.pickHighest(tally, remaining, `seat ${seat}`, history);
+        roundDetails.push(...tieBreaker.details.splice(0));
+        if (!winner) {
+            roundDetails.push(UNFILLED_DETAIL);
+            break;
+        }
+        seats[winner] = 1;
+        remaining.splice(remaining.indexOf(winner), 1);
+        history.push(tally);
+        roundDetails.push(`Seat ${seat}: ${candidateName(candidates, winner)} with ${formatVotes(tally[winner])} weighted points`);
+    }
+
+    return buildResult(ballots, candidates, seats, votes, roundDetails);
+};
+
+// Highest-averages party-list allocation; the divisor sequence decides the method
+const runHighestAverages = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    seatCount: number,
+    options: ElectionOptions,
+    divisor: (seatsWon: number) => number
+): MultiWinnerResult => {
+    const ids = candidates.map(c => c.id);
+    const votes = emptyTally(candidates);
+    ballots.forEach(ballot => {
+        if (ballot.ranking.length > 0) votes[ballot.ranking[0]] += ballotWeight(ballot);
+    });
+
+    const seats = emptyTally(candidates);
+    const roundDetails: string[] = [];
+    const history: Record<string, number>[] = [];
+    const tieBreaker = createTieBreaker(ballots, candidates, options);
+
+    for (let seat = 1; seat <= seatCount && ids.length > 0; seat++) {
+        const quotients: Record<string, number> = {};
+        ids.forEach(id => quotients[id] = votes[id] / divisor(seats[id]));
+
+        const winner = tieBreaker.pickHighest(quotients, ids, `seat ${seat}`, history);
+        roundDetails.push(...tieBreaker.details.splice(0));
+        if (!winner) {
+            roundDetails.push(UNFILLED_DETAIL);
+            break;
+        }
+        seats[winner]++;
+        history.push(quotients);
+        roundDetails.push(`Seat ${seat}: ${candidateName(candidates, winner)} (quotient ${formatVotes(quotients[winner])})`);
+    }
+
+    return buildResult(ballots, candidates, seats, votes, roundDetails);
+};
+
+export const runDHondtElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    seatCount: number,
+    options: ElectionOptions = {}
+): MultiWinnerResult =>
+    runHighestAverages(ballots, candidates, seatCount, options, seatsWon => seatsWon + 1);
+
+export const runSainteLagueElection = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    seatCount: number,
+    options: ElectionOptions = {}
+): MultiWinnerResult =>
+    runHighestAverages(ballots, candidates, seatCount, options, seatsWon => 2 * seatsWon + 1);
+
+export const multiWinnerRunners: Record<
+    MultiWinnerMethod,
+    (ballots: Ballot[], candidates: Candidate[], seatCount: number, options: ElectionOptions) => MultiWinnerResult
+> = {
+    stv: runSTVElection,
+    spav: runSPAVElection,
+    rrv: runRRVElection,
+    dhondt: runDHondtElection,
+    sainteLague: runSainteLagueElection
+};
+
+// Fill `seatCount` seats from the given electorate
+export const runMultiWinnerElection = (
+    voters: Voter[],
+    candidates: Candidate[],
+    method: MultiWinnerMethod,
+    seatCount: number,
+    options: ElectionOptions = {}
+): MultiWinnerResult => {
+    const ballots = castBallots(voters, candidates, options);
+    return multiWinnerRunners[method](ballots, candidates, seatCount, options);
+};
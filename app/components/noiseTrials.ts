@@ -0,0 +1,58 @@
+import { castBallots, countBallots, type VotingMethod } from './election';
+import { DEFAULT_PERCEPTION_SEED } from './perception';
+import type { Candidate, ElectionOptions, Voter } from './types';
+
+export interface NoiseTrialSummary {
+    // Winner when every voter sees the candidates exactly
+    noiselessWinnerId: string | null;
+    // How many trials each candidate won (tied trials with no winner are not counted)
+    winnerCounts: Record<string, number>;
+    modalWinnerId: string | null;
+    // Share (0–1) of trials won by the most common winner
+    modalShare: number;
+    // Share (0–1) of trials whose winner matches the noiseless winner
+    noiselessShare: number;
+}
+
+// Repeat each election under `trials` independent perception draws (seeds
+// perceptionSeed, perceptionSeed + 1, ...) and summarise how stable each winner is
+export const runNoiseTrials = (
+    voters: Voter[],
+    candidates: Candidate[],
+    methodList: VotingMethod[],
+    options: ElectionOptions,
+    trials: number
+): Record<string, NoiseTrialSummary> => {
+    const firstSeed = options.perceptionSeed ?? DEFAULT_PERCEPTION_SEED;
+    const exact = { ...options, perceptionNoise: 0, awareness: 1 };
+    const exactBallots = castBallots(voters, candidates, exact);
+
+    const counts: Record<string, Record<string, number>> = {};
+    methodList.forEach(method => counts[method] = {});
+
+    for (let t = 0; t < trials; t++) {
+        const trialOptions = { ...options, perceptionSeed: firstSeed + t };
+        // Cast once per draw and count the same ballots under every method
+        const ballots = castBallots(voters, candidates, trialOptions);
+        methodList.forEach(method => {
+            const { winnerId } = countBallots(voters, ballots, candidates, method, trialOptions);
+            if (winnerId) counts[method][winnerId] = (counts[method][winnerId] ?? 0) + 1;
+        });
+    }
+
+    const summaries: Record<string, NoiseTrialSummary> = {};
+    methodList.forEach(method => {
+        const noiselessWinnerId = countBallots(voters, exactBallots, candidates, method, exact).winnerId;
+        const winnerCounts = counts[method];
+        const modalWinnerId = Object.keys(winnerCounts)
+            .reduce<string | null>((best, id) => best === null || winnerCounts[id] > winnerCounts[best] ? id : best, null);
+        summaries[method] = {
+            noiselessWinnerId,
+            winnerCounts,
+            modalWinnerId,
+            modalShare: trials > 0 && modalWinnerId ? winnerCounts[modalWinnerId] / trials : 0,
+            noiselessShare: trials > 0 && noiselessWinnerId ? (winnerCounts[noiselessWinnerId] ?? 0) / trials : 0
+        };
+    });
+    return summaries;
+};
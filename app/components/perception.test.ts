@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'vitest';
+import { castBallots } from './election';
+import { runNoiseTrials } from './noiseTrials';
+import { createPerception, hasPerceptionError } from './perception';
+import type { Candidate, Voter } from './types';
+
+const candidates: Candidate[] = [
+    { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+    { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+    { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+];
+
+const makeVoters = (positions: number[]): Voter[] =>
+    positions.map((x, i) => ({ id: `v${i}`, x, y: 0 }));
+
+describe('Perceived candidate positions', () => {
+    test('exact perception is the default', () => {
+        expect(hasPerceptionError({})).toBe(false);
+        expect(hasPerceptionError({ perceptionNoise: 0.1 })).toBe(true);
+        expect(hasPerceptionError({ awareness: 0.5 })).toBe(true);
+        expect(createPerception(candidates)()).toEqual(candidates);
+    });
+
+    test('the same seed gives the same perceptions', () => {
+        const a = createPerception(candidates, { perceptionNoise: 0.1, perceptionSeed: 5 });
+        const b = createPerception(candidates, { perceptionNoise: 0.1, perceptionSeed: 5 });
+        expect([a(), a()]).toEqual([b(), b()]);
+        expect(a()[0].x).not.toBe(0);
+    });
+
+    test('limited awareness drops candidates but keeps at least one', () => {
+        const perceive = createPerception(candidates, { awareness: 0.01, perceptionSeed: 3 });
+        for (let i = 0; i < 20; i++) {
+            expect(perceive().length).toBeGreaterThanOrEqual(1);
+        }
+    });
+
+    test('unknown candidates are left off ballots', () => {
+        const ballots = castBallots(makeVoters([0.2, 0.4, 0.6, 0.8]), candidates, { awareness: 0.5, perceptionSeed: 2 });
+        expect(ballots.some(b => b.ranking.length < candidates.length)).toBe(true);
+        ballots.forEach(b => {
+            b.approved.forEach(id => expect(b.ranking).toContain(id));
+            Object.keys(b.scores ?? {}).forEach(id => expect(b.ranking).toContain(id));
+        });
+    });
+
+    test('ballots follow perceived rather than true positions', () => {
+        // A voter almost midway between A and C flips under enough noise
+        const voters = makeVoters(Array.from({ length: 50 }, () => 0.26));
+        const ballots = castBallots(voters, candidates, { perceptionNoise: 0.2 });
+        const firstChoices = new Set(ballots.map(b => b.ranking[0]));
+        expect(firstChoices.size).toBeGreaterThan(1);
+    });
+});
+
+describe('Noise trials', () => {
+    const voters = makeVoters([0.05, 0.1, 0.15, 0.2, 0.45, 0.5, 0.55, 0.9, 0.95]);
+
+    test('without noise every trial agrees with the noiseless winner', () => {
+        const summaries = runNoiseTrials(voters, candidates, ['plurality', 'borda'], {}, 5);
+        expect(summaries.plurality.modalWinnerId).toBe('A');
+        expect(summaries.plurality.modalShare).toBe(1);
+        expect(summaries.plurality.noiselessShare).toBe(1);
+        expect(summaries.borda.winnerCounts).toEqual({ [summaries.borda.noiselessWinnerId!]: 5 });
+    });
+
+    test('trials are reproducible and count every winner', () => {
+        const options = { perceptionNoise: 0.3, perceptionSeed: 11 };
+        const first = runNoiseTrials(voters, candidates, ['plurality'], options, 10);
+        expect(runNoiseTrials(voters, candidates, ['plurality'], options, 10)).toEqual(first);
+        const counted = Object.values(first.plurality.winnerCounts).reduce((a, b) => a + b, 0);
+        expect(counted).toBeLessThanOrEqual(10);
+        expect(first.plurality.noiselessWinnerId).toBe('A');
+    });
+});
@@ -0,0 +1,35 @@
+import { createRng, DEFAULT_SEED, randomNormal } from './random';
+import type { Candidate, ElectionOptions } from './types';
+
+export const DEFAULT_PERCEPTION_SEED = DEFAULT_SEED;
+
+// True when voters see anything other than the candidates' exact positions
+export const hasPerceptionError = (options: ElectionOptions): boolean =>
+    (options.perceptionNoise ?? 0) > 0 || (options.awareness ?? 1) < 1;
+
+// Returns a function giving each voter their own view of the candidates: every
+// position shifted by Gaussian error with standard deviation `perceptionNoise`,
+// and each candidate known with probability `awareness` (everyone knows at least one).
+// The same seed always produces the same perceptions.
+export const createPerception = (
+    candidates: Candidate[],
+    options: ElectionOptions = {}
+): (() => Candidate[]) => {
+    const noise = options.perceptionNoise ?? 0;
+    const awareness = options.awareness ?? 1;
+    const rng = createRng(options.perceptionSeed ?? DEFAULT_PERCEPTION_SEED);
+
+    return () => {
+        let known = awareness < 1 ? candidates.filter(() => rng() < awareness) : candidates;
+        if (known.length === 0) known = [candidates[Math.floor(rng() * candidates.length)]];
+
+        return noise > 0
+            ? known.map(c => ({
+                ...c,
+                x: c.x + randomNormal(rng) * noise,
+                y: c.y + randomNormal(rng) * noise,
+                dims: c.dims?.map(value => value + randomNormal(rng) * noise)
+            }))
+            : known;
+    };
+};
@@ -0,0 +1,93 @@
+import { describe, expect, test } from 'vitest';
+import { runElection } from './election';
+import {
+    advancePositioning,
+    candidateStanding,
+    meanDistanceFrom,
+    medianVoter,
+    positioningRound,
+    positionKey,
+    simulatePositioning,
+    startPositioning,
+    thinVoters,
+    type PositioningSettings
+} from './positioning';
+import type { Candidate, Voter } from './types';
+
+// 101 voters spread evenly along the middle of the square
+const lineVoters: Voter[] = Array.from({ length: 101 }, (_, i) => ({ id: `v${i}`, x: i / 100, y: 0.5 }));
+
+const candidates: Candidate[] = [
+    { id: 'A', x: 0.1, y: 0.5, color: 'red', name: 'A' },
+    { id: 'B', x: 0.9, y: 0.5, color: 'blue', name: 'B' }
+];
+
+const settings: PositioningSettings = { rule: 'bestResponse', step: 0.05, axes: [0, 1] };
+
+describe('Candidate standing', () => {
+    test('adds a winning bonus to the share of the tally', () => {
+        const result = { winnerId: 'A', votes: { A: 3, B: 1 }, roundDetails: [] };
+        expect(candidateStanding(result, 'A')).toBeCloseTo(1.75);
+        expect(candidateStanding(result, 'B')).toBeCloseTo(0.25);
+    });
+
+    test('uses head-to-head shares when there is a pairwise matrix', () => {
+        const result = runElection(lineVoters, candidates, 'copeland');
+        expect(candidateStanding(result, 'A')).toBeCloseTo(1 + 51 / 101);
+    });
+});
+
+describe('Electorate summaries', () => {
+    test('thins large electorates evenly', () => {
+        const thinned = thinVoters(lineVoters, 10);
+        expect(thinned).toHaveLength(10);
+        expect(thinned[0].id).toBe('v0');
+        expect(thinned[9].id).toBe('v90');
+        expect(thinVoters(lineVoters, 200)).toBe(lineVoters);
+    });
+
+    test('finds the coordinate-wise median voter', () => {
+        expect(medianVoter(lineVoters)).toEqual([0.5, 0.5]);
+        expect(meanDistanceFrom(candidates, [0.5, 0.5])).toBeCloseTo(0.4);
+    });
+});
+
+describe('Positioning dynamics', () => {
+    test('a losing candidate moves towards the voters it can win', () => {
+        const [a, b] = positioningRound(lineVoters, candidates, 'plurality', {}, settings);
+        expect(a.x).toBeGreaterThan(0.1);
+        expect(b.x).toBeLessThan(0.9);
+    });
+
+    test('two plurality candidates converge on the median voter', () => {
+        const state = simulatePositioning(lineVoters, candidates, 'plurality', {}, settings);
+        expect(state.status === 'converged' || state.status === 'cycle').toBe(true);
+        expect(meanDistanceFrom(state.candidates, medianVoter(lineVoters))).toBeLessThan(0.1);
+    });
+
+    test('a lone candidate has nothing to gain and stays put', () => {
+        const state = simulatePositioning(lineVoters, candidates.slice(0, 1), 'plurality', {}, settings);
+        expect(state.status).toBe('converged');
+        expect(state.round).toBe(1);
+        expect(state.candidates[0]).toEqual(candidates[0]);
+    });
+
+    test('reports a cycle when positions repeat', () => {
+        const next = positioningRound(lineVoters, candidates, 'plurality', {}, settings);
+        const state = { ...startPositioning(candidates), round: 5, seen: { [positionKey(next)]: 2 } };
+        const advanced = advancePositioning(state, lineVoters, 'plurality', {}, settings);
+        expect(advanced.status).toBe('cycle');
+        expect(advanced.cycleLength).toBe(4);
+    });
+
+    test('stops after the round limit', () => {
+        const state = simulatePositioning(lineVoters, candidates, 'plurality', {}, settings, 1);
+        expect(state.status).toBe('unsettled');
+        expect(state.round).toBe(1);
+    });
+
+    test('gradient steps also move towards the centre', () => {
+        const [a] = positioningRound(lineVoters, candidates, 'borda', {}, { ...settings, rule: 'gradient' });
+        expect(a.x).toBeGreaterThan(0.1);
+    });
+});
@@ -0,0 +1,208 @@
+import { runElection, type VotingMethod } from './election';
+import { getCoordinate, setCoordinate } from './space';
+import type { Candidate, ElectionOptions, ElectionResult, PositioningRule, PositioningStatus, Voter } from './types';
+
+export const positioningRules: Record<PositioningRule, string> = {
+    bestResponse: 'Best response',
+    gradient: 'Gradient steps'
+};
+
+export const positioningDescriptions: Record<PositioningRule, string> = {
+    bestResponse: 'In turn, each candidate tries a step in each of eight directions and moves to whichever most improves their result.',
+    gradient: 'In turn, each candidate estimates which way their result improves fastest and steps that way if it helps.'
+};
+
+export const DEFAULT_POSITIONING_STEP = 0.02;
+export const MAX_POSITIONING_ROUNDS = 100;
+
+// Pause between animated rounds, in milliseconds
+export const POSITIONING_FRAME_DELAY = 120;
+
+// Round limit when simulating every method at once
+export const COMPARISON_ROUNDS = 40;
+
+// Largest electorate a simulation counts; bigger ones are thinned evenly so
+// each of the many trial elections stays quick
+export const MAX_SIMULATION_VOTERS = 500;
+
+// Improvements smaller than this are rounding noise, not a reason to move
+const EPSILON = 1e-9;
+
+const DIRECTIONS: Array<[number, number]> = [
+    [1, 0], [-1, 0], [0, 1], [0, -1],
+    [Math.SQRT1_2, Math.SQRT1_2], [Math.SQRT1_2, -Math.SQRT1_2], [-Math.SQRT1_2, Math.SQRT1_2], [-Math.SQRT1_2, -Math.SQRT1_2]
+];
+
+export interface PositioningSettings {
+    rule: PositioningRule;
+    // Distance moved per step, in the unit square
+    step: number;
+    // Issue dimensions candidates move along (the canvas axes)
+    axes: [number, number];
+}
+
+export interface PositioningState {
+    candidates: Candidate[];
+    round: number;
+    status: PositioningStatus;
+    // Rounds between repeated positions when status is 'cycle'
+    cycleLength?: number;
+    // Round each set of positions was first reached, keyed by positionKey
+    seen: Record<string, number>;
+}
+
+// How well a candidate did: 1 for winning plus their share of support, so a
+// loser still has a slope to climb. Methods with a pairwise matrix use the
+// candidate's average head-to-head share; the rest their share of the tally.
+export const candidateStanding = (result: ElectionResult, candidateId: string): number => {
+    const won = result.winnerId === candidateId ? 1 : 0;
+    const pairwise = result.pairwise;
+    if (pairwise) {
+        const shares = Object.keys(pairwise[candidateId] ?? {}).map(other => {
+            const total = pairwise[candidateId][other] + pairwise[other][candidateId];
+            return total > 0 ? pairwise[candidateId][other] / total : 0.5;
+        });
+        return won + (shares.length > 0 ? shares.reduce((a, b) => a + b, 0) / shares.length : 0);
+    }
+    const total = Object.values(result.votes).reduce((a, b) => a + Math.max(0, b), 0);
+    return won + (total > 0 ? Math.max(0, result.votes[candidateId] ?? 0) / total : 0);
+};
+
+// Every k-th voter, so the sample spreads across the whole electorate
+export const thinVoters = (voters: Voter[], max: number = MAX_SIMULATION_VOTERS): Voter[] => {
+    if (voters.length <= max) return voters;
+    const stride = voters.length / max;
+    return Array.from({ length: max }, (_, i) => voters[Math.floor(i * stride)]);
+};
+
+// Coordinate-wise median voter on the given axes
+export const medianVoter = (voters: Voter[], axes: [number, number] = [0, 1]): [number, number] => {
+    const median = (values: number[]): number => {
+        if (values.length === 0) return 0.5;
+        const sorted = [...values].sort((a, b) => a - b);
+        const mid = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    };
+    return [median(voters.map(v => getCoordinate(v, axes[0]))), median(voters.map(v => getCoordinate(v, axes[1])))];
+};
+
+// Average distance, on the given axes, from each candidate to `point`
+export const meanDistanceFrom = (candidates: Candidate[], point: [number, number], axes: [number, number] = [0, 1]): number =>
+    candidates.length === 0 ? 0 : candidates.reduce((sum, c) =>
+        sum + Math.hypot(getCoordinate(c, axes[0]) - point[0], getCoordinate(c, axes[1]) - point[1]), 0
+    ) / candidates.length;
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+const shift = (candidate: Candidate, axes: [number, number], dx: number, dy: number): Candidate =>
+    setCoordinate(
+        setCoordinate(candidate, axes[0], clamp(getCoordinate(candidate, axes[0]) + dx)),
+        axes[1],
+        clamp(getCoordinate(candidate, axes[1]) + dy)
+    );
+
+export const positionKey = (candidates: Candidate[], axes: [number, number] = [0, 1]): string =>
+    candidates.map(c => `${getCoordinate(c, axes[0]).toFixed(4)},${getCoordinate(c, axes[1]).toFixed(4)}`).join(';');
+
+// Move every candidate once, in list order, each reacting to where the
+// others have just moved
+export const positioningRound = (
+    voters: Voter[],
+    candidates: Candidate[],
+    method: VotingMethod,
+    options: ElectionOptions,
+    { rule, step, axes }: PositioningSettings
+): Candidate[] => {
+    let current = candidates;
+
+    candidates.forEach((_, i) => {
+        const standingAt = (moved: Candidate): number => {
+            const field = current.map((c, j) => j === i ? moved : c);
+            return candidateStanding(runElection(voters, field, method, options), moved.id);
+        };
+        const here = current[i];
+        const trials = rule === 'bestResponse'
+            ? DIRECTIONS.map(([dx, dy]) => shift(here, axes, dx * step, dy * step))
+            : (() => {
+                const slopeX = standingAt(shift(here, axes, step, 0)) - standingAt(shift(here, axes, -step, 0));
+                const slopeY = standingAt(shift(here, axes, 0, step)) - standingAt(shift(here, axes, 0, -step));
+                const length = Math.hypot(slopeX, slopeY);
+                return length > EPSILON ? [shift(here, axes, step * slopeX / length, step * slopeY / length)] : [];
+            })();
+
+        let best = here;
+        let bestStanding = standingAt(here);
+        trials.forEach(trial => {
+            const standing = standingAt(trial);
+            if (standing > bestStanding + EPSILON) {
+                best = trial;
+                bestStanding = standing;
+            }
+        });
+        if (best !== here) current = current.map((c, j) => j === i ? best : c);
+    });
+
+    return current;
+};
+
+export const startPositioning = (candidates: Candidate[], axes: [number, number] = [0, 1]): PositioningState => ({
+    candidates,
+    round: 0,
+    status: 'running',
+    seen: { [positionKey(candidates, axes)]: 0 }
+});
+
+// Play one more round, noting whether positions have settled or started repeating
+export const advancePositioning = (
+    state: PositioningState,
+    voters: Voter[],
+    method: VotingMethod,
+    options: ElectionOptions,
+    settings: PositioningSettings,
+    maxRounds: number = MAX_POSITIONING_ROUNDS
+): PositioningState => {
+    if (state.status !== 'running') return state;
+
+    const candidates = positioningRound(voters, state.candidates, method, options, settings);
+    const round = state.round + 1;
+    const key = positionKey(candidates, settings.axes);
+    const previous = state.seen[key];
+
+    if (key === positionKey(state.candidates, settings.axes)) {
+        return { ...state, candidates, round, status: 'converged' };
+    }
+    if (previous !== undefined) {
+        return { ...state, candidates, round, status: 'cycle', cycleLength: round - previous };
+    }
+    return {
+        candidates,
+        round,
+        status: round >= maxRounds ? 'unsettled' : 'running',
+        seen: { ...state.seen, [key]: round }
+    };
+};
+
+// Run rounds until positions settle, cycle or `maxRounds` pass
+export const simulatePositioning = (
+    voters: Voter[],
+    candidates: Candidate[],
+    method: VotingMethod,
+    options: ElectionOptions,
+    settings: PositioningSettings,
+    maxRounds: number = MAX_POSITIONING_ROUNDS
+): PositioningState => {
+    let state = startPositioning(candidates, settings.axes);
+    while (state.status === 'running') {
+        state = advancePositioning(state, voters, method, options, settings, maxRounds);
+    }
+    return state;
+};
+
+export const describePositioning = (state: PositioningState): string => {
+    switch (state.status) {
+        case 'running': return `Round ${state.round}`;
+        case 'converged': return `Converged: no candidate moved in round ${state.round}`;
+        case 'cycle': return `Cycling every ${state.cycleLength} rounds (found at round ${state.round})`;
+        case 'unsettled': return `Still moving after ${state.round} rounds`;
+    }
+};
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'vitest';
+import { createMapWinner, type MapSpec } from './mapRender';
+import { DEFAULT_CELL_SIZE, renderAdaptive, renderBruteForce, type RGB } from './quadtree';
+
+const colors: Record<string, RGB> = {
+    A: [255, 0, 0],
+    B: [0, 255, 0],
+    C: [0, 0, 255]
+};
+const colorOf = (id: string): RGB => colors[id] ?? [0, 0, 0];
+
+const spec: MapSpec = {
+    candidates: [
+        { id: 'A', x: 0.2, y: 0.3, color: '#ff0000', name: 'A' },
+        { id: 'B', x: 0.7, y: 0.6, color: '#00ff00', name: 'B' },
+        { id: 'C', x: 0.45, y: 0.85, color: '#0000ff', name: 'C' }
+    ],
+    method: 'plurality',
+    approvalThreshold: 0.3,
+    scoreScale: 5,
+    scoreNormalization: 'minMax',
+    scoreRadius: 0.5,
+    frontRunners: null,
+    space: { dimensions: 2, metric: 'euclidean' },
+    sliceAxes: [0, 1],
+    sliceValues: [0.5, 0.5],
+    electorate: null
+};
+
+// Count how often the renderer asks for a winner
+const counted = (winnerAt: (u: number, v: number) => string) => {
+    const counter = { calls: 0, winnerAt: (u: number, v: number) => {
+        counter.calls++;
+        return winnerAt(u, v);
+    } };
+    return counter;
+};
+
+describe('Adaptive rendering', () => {
+    const whole = { x: 0, y: 0, width: 120, height: 90 };
+
+    test('matches the brute-force image with one sample per pixel', () => {
+        const winnerAt = createMapWinner(spec);
+        expect(renderAdaptive(winnerAt, whole, 120, 90, colorOf))
+            .toEqual(renderBruteForce(winnerAt, whole, 120, 90, colorOf));
+    });
+
+    test('matches the brute-force image when supersampling', () => {
+        const winnerAt = createMapWinner(spec);
+        expect(renderAdaptive(winnerAt, whole, 120, 90, colorOf, { samples: 4 }))
+            .toEqual(renderBruteForce(winnerAt, whole, 120, 90, colorOf, { samples: 4 }));
+    });
+
+    test('matches the brute-force image for a region of a larger map', () => {
+        const winnerAt = createMapWinner({ ...spec, method: 'approval' });
+        const region = { x: 37, y: 21, width: 45, height: 30 };
+        expect(renderAdaptive(winnerAt, region, 120, 90, colorOf, { samples: 2, cellSize: 8 }))
+            .toEqual(renderBruteForce(winnerAt, region, 120, 90, colorOf, { samples: 2 }));
+    });
+
+    test('fills a map with a single winner from a handful of samples', () => {
+        const counter = counted(() => 'A');
+        const pixels = renderAdaptive(counter.winnerAt, whole, 120, 90, colorOf, { samples: 4 });
+        expect(Array.from(pixels.slice(0, 4))).toEqual([255, 0, 0, 255]);
+        // Four corners and a centre for each coarse cell
+        expect(counter.calls).toBe(Math.ceil(120 / DEFAULT_CELL_SIZE) * Math.ceil(90 / DEFAULT_CELL_SIZE) * 5);
+    });
+
+    test('asks for far fewer winners than brute force', () => {
+        const winnerAt = createMapWinner(spec);
+        const adaptive = counted(winnerAt);
+        const brute = counted(winnerAt);
+        renderAdaptive(adaptive.winnerAt, whole, 120, 90, colorOf, { samples: 4 });
+        renderBruteForce(brute.winnerAt, whole, 120, 90, colorOf, { samples: 4 });
+        expect(brute.calls).toBe(120 * 90 * 16);
+        expect(adaptive.calls * 4).toBeLessThan(brute.calls);
+    });
+});
@@ -0,0 +1,157 @@
+// Adaptive map rendering. Rather than asking for the winner at every sample
+// point, a coarse grid of cells is checked at its corners and centre; cells
+// that agree are filled in one go and the rest are split into quarters, down
+// to single pixels. Only pixels on a winner boundary are fully supersampled.
+
+export type RGB = [number, number, number];
+
+// A rectangle of pixels within a larger map
+export interface PixelRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface AdaptiveRenderOptions {
+    // Samples per pixel along each axis; 1 samples each pixel once at its top-left corner
+    samples?: number;
+    // Side of the coarse cells the quadtree starts from, in pixels
+    cellSize?: number;
+}
+
+export const DEFAULT_CELL_SIZE = 16;
+
+// Map position of sample `sub` (0 … samples-1) within pixel `pixel`, as a fraction of `size`.
+// Single samples sit on the pixel's corner, as the per-pixel renderers always had them.
+const sampleCoordinate = (pixel: number, sub: number, samples: number, size: number): number =>
+    (pixel + (samples === 1 ? 0 : (sub + 0.5) / samples)) / size;
+
+// Average the colours of one pixel's samples, visiting them in the same order
+// (and so summing in the same order) as a brute-force supersampler
+const blendPixel = (
+    sampleWinner: (sx: number, sy: number) => string,
+    samples: number,
+    colorOf: (id: string) => RGB
+): RGB => {
+    const counts = new Map<string, number>();
+    for (let sx = 0; sx < samples; sx++) {
+        for (let sy = 0; sy < samples; sy++) {
+            const id = sampleWinner(sx, sy);
+            counts.set(id, (counts.get(id) || 0) + 1);
+        }
+    }
+
+    let r = 0, g = 0, b = 0;
+    for (const [id, count] of counts.entries()) {
+        const color = colorOf(id);
+        const weight = count / (samples * samples);
+        r += color[0] * weight;
+        g += color[1] * weight;
+        b += color[2] * weight;
+    }
+    return [r, g, b];
+};
+
+const setPixel = (pixels: Uint8ClampedArray, region: PixelRegion, x: number, y: number, [r, g, b]: RGB) => {
+    const idx = ((y - region.y) * region.width + (x - region.x)) * 4;
+    pixels[idx] = r;
+    pixels[idx + 1] = g;
+    pixels[idx + 2] = b;
+    pixels[idx + 3] = 255;
+};
+
+// Reference renderer: every sample of every pixel in the region.
+// `winnerAt(u, v)` takes map coordinates with v increasing upwards.
+export const renderBruteForce = (
+    winnerAt: (u: number, v: number) => string,
+    region: PixelRegion,
+    width: number,
+    height: number,
+    colorOf: (id: string) => RGB,
+    { samples = 1 }: AdaptiveRenderOptions = {}
+): Uint8ClampedArray => {
+    const pixels = new Uint8ClampedArray(region.width * region.height * 4);
+    for (let y = region.y; y < region.y + region.height; y++) {
+        for (let x = region.x; x < region.x + region.width; x++) {
+            setPixel(pixels, region, x, y, blendPixel(
+                (sx, sy) => winnerAt(sampleCoordinate(x, sx, samples, width), 1 - sampleCoordinate(y, sy, samples, height)),
+                samples,
+                colorOf
+            ));
+        }
+    }
+    return pixels;
+};
+
+// Quadtree renderer producing the brute-force image for any map whose regions
+// are not small enough to hide entirely between a cell's corners and centre
+export const renderAdaptive = (
+    winnerAt: (u: number, v: number) => string,
+    region: PixelRegion,
+    width: number,
+    height: number,
+    colorOf: (id: string) => RGB,
+    { samples = 1, cellSize = DEFAULT_CELL_SIZE }: AdaptiveRenderOptions = {}
+): Uint8ClampedArray => {
+    const pixels = new Uint8ClampedArray(region.width * region.height * 4);
+
+    // Winners by sample index within the region, so shared corners are asked once
+    const columns = region.width * samples;
+    const ids: string[] = [];
+    const indexOf = new Map<string, number>();
+    const known = new Int32Array(columns * region.height * samples).fill(-1);
+    const sample = (ix: number, iy: number): string => {
+        const key = iy * columns + ix;
+        if (known[key] === -1) {
+            const id = winnerAt(
+                sampleCoordinate(region.x + Math.floor(ix / samples), ix % samples, samples, width),
+                1 - sampleCoordinate(region.y + Math.floor(iy / samples), iy % samples, samples, height)
+            );
+            if (!indexOf.has(id)) {
+                indexOf.set(id, ids.length);
+                ids.push(id);
+            }
+            known[key] = indexOf.get(id)!;
+        }
+        return ids[known[key]];
+    };
+
+    // Cell of pixels [x0, x1) × [y0, y1), relative to the region
+    const renderCell = (x0: number, y0: number, x1: number, y1: number) => {
+        const left = x0 * samples, right = x1 * samples - 1;
+        const top = y0 * samples, bottom = y1 * samples - 1;
+        const id = sample(left, top);
+        const uniform = [
+            sample(right, top), sample(left, bottom), sample(right, bottom),
+            sample((left + right) >> 1, (top + bottom) >> 1)
+        ].every(other => other === id);
+
+        if (uniform) {
+            const color = colorOf(id);
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) setPixel(pixels, region, region.x + x, region.y + y, color);
+            }
+        } else if (x1 - x0 === 1 && y1 - y0 === 1) {
+            setPixel(pixels, region, region.x + x0, region.y + y0, blendPixel(
+                (sx, sy) => sample(x0 * samples + sx, y0 * samples + sy),
+                samples,
+                colorOf
+            ));
+        } else {
+            const midX = x1 - x0 > 1 ? (x0 + x1) >> 1 : x1;
+            const midY = y1 - y0 > 1 ? (y0 + y1) >> 1 : y1;
+            renderCell(x0, y0, midX, midY);
+            if (midX < x1) renderCell(midX, y0, x1, midY);
+            if (midY < y1) renderCell(x0, midY, midX, y1);
+            if (midX < x1 && midY < y1) renderCell(midX, midY, x1, y1);
+        }
+    };
+
+    for (let y = 0; y < region.height; y += cellSize) {
+        for (let x = 0; x < region.width; x += cellSize) {
+            renderCell(x, y, Math.min(x + cellSize, region.width), Math.min(y + cellSize, region.height));
+        }
+    }
+    return pixels;
+};
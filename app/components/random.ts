@@ -0,0 +1,22 @@
+export const DEFAULT_SEED = 1;
+
+// Seeded pseudo-random numbers (mulberry32), so any random choice can be
+// reproduced from its seed. Returns a function yielding values in [0, 1).
+export const createRng = (seed: number): (() => number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Standard normal sample (Box–Muller) drawn from the given generator
+export const randomNormal = (rng: () => number): number => {
+    let u = 0, v = 0;
+    while (u === 0) u = rng();
+    while (v === 0) v = rng();
+    return Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+};
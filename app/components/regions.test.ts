@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'vitest';
+import type { VotingMethod } from './election';
+import { mapToSvg } from './mapExport';
+import { createMapWinner, type MapSpec } from './mapRender';
+import { hasExactRegions, mapRegions, regionBoundaries, type MapPoint, type MapRegion } from './regions';
+
+const spec: MapSpec = {
+    candidates: [
+        { id: 'A', x: 0.2, y: 0.3, color: '#ff0000', name: 'A' },
+        { id: 'B', x: 0.7, y: 0.6, color: '#00ff00', name: 'B' },
+        { id: 'C', x: 0.45, y: 0.85, color: '#0000ff', name: 'C' },
+        { id: 'D', x: 0.8, y: 0.15, color: '#ffff00', name: 'D' }
+    ],
+    method: 'plurality',
+    approvalThreshold: 0.3,
+    scoreScale: 5,
+    scoreNormalization: 'minMax',
+    scoreRadius: 0.5,
+    frontRunners: null,
+    space: { dimensions: 2, metric: 'euclidean' },
+    sliceAxes: [0, 1],
+    sliceValues: [0.5, 0.5],
+    electorate: null
+};
+
+const area = (polygon: MapPoint[]) =>
+    polygon.reduce((sum, p, i) => {
+        const q = polygon[(i + 1) % polygon.length];
+        return sum + p.u * q.v - q.u * p.v;
+    }, 0) / 2;
+
+// How far inside a convex counter-clockwise polygon a point lies (negative outside)
+const depth = (polygon: MapPoint[], u: number, v: number) =>
+    Math.min(...polygon.map((p, i) => {
+        const q = polygon[(i + 1) % polygon.length];
+        return ((q.u - p.u) * (v - p.v) - (q.v - p.v) * (u - p.u)) / Math.hypot(q.u - p.u, q.v - p.v);
+    }));
+
+// Every grid point clearly inside a region is won there on the per-pixel map
+const expectMatchesPixels = (regions: MapRegion[], mapSpec: MapSpec) => {
+    const winnerAt = createMapWinner(mapSpec);
+    for (let i = 0; i < 40; i++) {
+        for (let j = 0; j < 40; j++) {
+            const u = (i + 0.5) / 40;
+            const v = (j + 0.5) / 40;
+            const inside = regions.find(r => depth(r.polygon, u, v) > 1e-6);
+            if (inside) expect(inside.candidateId).toBe(winnerAt(u, v));
+        }
+    }
+};
+
+describe('Exact regions', () => {
+    test('split two candidates along their perpendicular bisector', () => {
+        const regions = mapRegions({
+            ...spec,
+            candidates: [spec.candidates[0], { ...spec.candidates[1], x: 0.8, y: 0.3 }]
+        });
+        expect(regions.map(r => r.candidateId)).toEqual(['A', 'B']);
+        regions.forEach(r => expect(area(r.polygon)).toBeCloseTo(0.5));
+        expect(regionBoundaries(regions)).toEqual([
+            { from: { u: 0.5, v: 0 }, to: { u: 0.5, v: 1 }, candidates: ['A', 'B'] }
+        ]);
+    });
+
+    test('tile the map', () => {
+        const regions = mapRegions(spec);
+        expect(regions).toHaveLength(4);
+        expect(regions.reduce((sum, r) => sum + area(r.polygon), 0)).toBeCloseTo(1);
+    });
+
+    test.each(['plurality', 'irv', 'borda', 'approval', 'score', 'star'] as VotingMethod[])(
+        'agree with the per-pixel %s map',
+        (method) => expectMatchesPixels(mapRegions({ ...spec, method }), { ...spec, method })
+    );
+
+    test('agree with a slice through a higher-dimensional space', () => {
+        const sliced: MapSpec = {
+            ...spec,
+            candidates: spec.candidates.map((c, i) => ({ ...c, dims: [0.2 * i] })),
+            space: { dimensions: 3, metric: 'euclidean', salience: [1, 2, 1.5] },
+            sliceAxes: [0, 2],
+            sliceValues: [0.5, 0.4, 0.5]
+        };
+        const regions = mapRegions(sliced);
+        expect(regions.reduce((sum, r) => sum + area(r.polygon), 0)).toBeCloseTo(1);
+        expectMatchesPixels(regions, sliced);
+    });
+
+    test('give coincident candidates one region, to the earlier', () => {
+        const regions = mapRegions({ ...spec, candidates: [spec.candidates[0], { ...spec.candidates[0], id: 'E' }] });
+        expect(regions.map(r => r.candidateId)).toEqual(['A']);
+        expect(area(regions[0].polygon)).toBeCloseTo(1);
+    });
+
+    test('boundaries are listed once each', () => {
+        const boundaries = regionBoundaries(mapRegions(spec));
+        const pairs = boundaries.map(b => [...b.candidates].sort().join());
+        expect(new Set(pairs).size).toBe(pairs.length);
+    });
+
+    test('are only offered for sincere Euclidean maps', () => {
+        expect(hasExactRegions(spec)).toBe(true);
+        expect(hasExactRegions({ ...spec, frontRunners: ['A', 'B'] })).toBe(false);
+        expect(hasExactRegions({ ...spec, space: { dimensions: 2, metric: 'manhattan' } })).toBe(false);
+    });
+
+    test('export as SVG paths', () => {
+        const svg = mapToSvg({
+            title: 'Plurality',
+            winners: [],
+            regions: mapRegions(spec),
+            candidates: spec.candidates,
+            markers: []
+        });
+        expect(svg.match(/<path d="M[^"]*Z" fill="#/g)).toHaveLength(4);
+        expect(svg).toContain('stroke="black"');
+        expect(svg).not.toContain('crispEdges');
+    });
+});
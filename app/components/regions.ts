@@ -0,0 +1,176 @@
+import type { MapSpec } from './mapRender';
+import { getCoordinate } from './space';
+import type { Candidate } from './types';
+
+// Exact winner regions. Under sincere voting every map colours a point by the
+// candidate nearest it: the first preference for plurality and IRV, the top
+// Borda score, the nearest approved candidate (or the nearest of all), and the
+// highest score, since scores never rise with distance. With a Euclidean
+// metric the points nearer candidate a than b form a half-plane, even when
+// the slice sits off candidates in hidden dimensions, so each region is the
+// unit square clipped by one bisector per rival.
+
+// A point on the map (0–1, v pointing up)
+export interface MapPoint {
+    u: number;
+    v: number;
+}
+
+export interface MapRegion {
+    candidateId: string;
+    // Convex polygon, counter-clockwise in map coordinates
+    polygon: MapPoint[];
+    // For each edge polygon[i] → polygon[i + 1], the candidate across it, or null on the map border
+    neighbours: (string | null)[];
+}
+
+// A boundary line between two candidates' regions
+export interface RegionBoundary {
+    from: MapPoint;
+    to: MapPoint;
+    candidates: [string, string];
+}
+
+// Coefficients and lengths below this are rounding noise
+const EPSILON = 1e-12;
+
+const UNIT_SQUARE: MapPoint[] = [{ u: 0, v: 0 }, { u: 1, v: 0 }, { u: 1, v: 1 }, { u: 0, v: 1 }];
+
+// Whether the map's regions are polygons this module can compute: sincere
+// single-voter ballots and straight-line (possibly salience-weighted) distances
+export const hasExactRegions = (spec: MapSpec): boolean =>
+    spec.electorate === null && spec.frontRunners === null && spec.candidates.length > 0 && (
+        spec.space.metric === 'euclidean' || (spec.space.metric === 'minkowski' && (spec.space.minkowskiP ?? 2) === 2)
+    );
+
+// Squared distance from map point (u, v) to `candidate` is a·u² + b·v² + f(candidate),
+// so the difference between two candidates is linear in u and v. Returns the
+// coefficients [A, B, C] of d²(a) - d²(b) = A·u + B·v + C.
+const bisector = (spec: MapSpec, a: Candidate, b: Candidate): [number, number, number] => {
+    const { space, sliceAxes, sliceValues } = spec;
+    const weight = (d: number) => (space.salience?.[d] ?? 1) ** 2;
+    const [h, v] = sliceAxes;
+    let C = 0;
+    for (let d = 0; d < space.dimensions; d++) {
+        const ad = getCoordinate(a, d);
+        const bd = getCoordinate(b, d);
+        C += d === h || d === v
+            ? weight(d) * (ad * ad - bd * bd)
+            : weight(d) * ((sliceValues[d] - ad) ** 2 - (sliceValues[d] - bd) ** 2);
+    }
+    return [
+        2 * weight(h) * (getCoordinate(b, h) - getCoordinate(a, h)),
+        2 * weight(v) * (getCoordinate(b, v) - getCoordinate(a, v)),
+        C
+    ];
+};
+
+// Keep the part of a polygon where A·u + B·v + C <= 0, labelling the new edge with `neighbour`
+const clip = (
+    polygon: MapPoint[],
+    neighbours: (string | null)[],
+    [A, B, C]: [number, number, number],
+    neighbour: string
+): { polygon: MapPoint[]; neighbours: (string | null)[] } => {
+    const side = (p: MapPoint) => A * p.u + B * p.v + C;
+    const clipped: MapPoint[] = [];
+    const labels: (string | null)[] = [];
+
+    polygon.forEach((p, i) => {
+        const q = polygon[(i + 1) % polygon.length];
+        const sp = side(p);
+        const sq = side(q);
+        const crossing = (): MapPoint => {
+            const t = sp / (sp - sq);
+            return { u: p.u + t * (q.u - p.u), v: p.v + t * (q.v - p.v) };
+        };
+        if (sp <= 0) {
+            clipped.push(p);
+            labels.push(neighbours[i]);
+            if (sq > 0) {
+                // Leaving: the edge to wherever the polygon re-enters runs along the bisector
+                clipped.push(crossing());
+                labels.push(neighbour);
+            }
+        } else if (sq <= 0) {
+            clipped.push(crossing());
+            labels.push(neighbours[i]);
+        }
+    });
+
+    return { polygon: clipped, neighbours: labels };
+};
+
+// Each candidate's region of the map; candidates who win nowhere are left out.
+// Where two candidates stand in the same place the earlier one takes the region,
+// as it does on the per-pixel map.
+export const mapRegions = (spec: MapSpec): MapRegion[] => {
+    const { candidates } = spec;
+    const regions: MapRegion[] = [];
+
+    candidates.forEach((candidate, i) => {
+        let region = { polygon: UNIT_SQUARE, neighbours: UNIT_SQUARE.map((): string | null => null) };
+        for (let j = 0; j < candidates.length && region.polygon.length > 0; j++) {
+            if (j === i) continue;
+            const [A, B, C] = bisector(spec, candidate, candidates[j]);
+            if (Math.abs(A) < EPSILON && Math.abs(B) < EPSILON) {
+                // Equally far everywhere on the map (or always nearer or further)
+                if (C > EPSILON || (Math.abs(C) <= EPSILON && j < i)) region = { polygon: [], neighbours: [] };
+                continue;
+            }
+            region = clip(region.polygon, region.neighbours, [A, B, C], candidates[j].id);
+        }
+        if (region.polygon.length >= 3) regions.push({ candidateId: candidate.id, ...region });
+    });
+
+    return regions;
+};
+
+// Lines between neighbouring regions, each once
+export const regionBoundaries = (regions: MapRegion[]): RegionBoundary[] => {
+    const order = new Map(regions.map((r, i) => [r.candidateId, i]));
+    const boundaries: RegionBoundary[] = [];
+    regions.forEach((region, i) => {
+        region.polygon.forEach((from, k) => {
+            const neighbour = region.neighbours[k];
+            if (neighbour === null || (order.get(neighbour) ?? -1) < i) return;
+            const to = region.polygon[(k + 1) % region.polygon.length];
+            if (Math.hypot(to.u - from.u, to.v - from.v) < EPSILON) return;
+            boundaries.push({ from, to, candidates: [region.candidateId, neighbour] });
+        });
+    });
+    return boundaries;
+};
+
+// Fill the regions and stroke their boundaries on a width × height canvas
+export const drawRegions = (
+    ctx: CanvasRenderingContext2D,
+    regions: MapRegion[],
+    colorOf: (id: string) => string,
+    width: number,
+    height: number
+) => {
+    regions.forEach(region => {
+        ctx.beginPath();
+        region.polygon.forEach(({ u, v }, i) => {
+            if (i === 0) ctx.moveTo(u * width, (1 - v) * height);
+            else ctx.lineTo(u * width, (1 - v) * height);
+        });
+        ctx.closePath();
+        ctx.fillStyle = colorOf(region.candidateId);
+        ctx.fill();
+        // Stroke in the fill colour too, so antialiasing leaves no seams between regions
+        ctx.strokeStyle = ctx.fillStyle;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+    });
+
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    regionBoundaries(regions).forEach(({ from, to }) => {
+        ctx.moveTo(from.u * width, (1 - from.v) * height);
+        ctx.lineTo(to.u * width, (1 - to.v) * height);
+    });
+    ctx.stroke();
+};
@@ -0,0 +1,75 @@
+import { describe, expect, test } from 'vitest';
+import { normalizeScenario, parseScenarioFile, SCENARIO_VERSION, serializeScenario, serializeScenarios, type Scenario } from './scenario';
+
+const scenario: Scenario = {
+    version: SCENARIO_VERSION,
+    candidates: [
+        { id: '1', x: 0.3, y: 0.5, color: '#22c55e', name: 'A' },
+        { id: '2', x: 0.7, y: 0.5, color: '#ef4444', name: 'B' }
+    ],
+    method: 'irv',
+    options: { approvalThreshold: 0.4, tieBreakPolicy: 'random' },
+    voterDistribution: 'normal',
+    voterCount: 500,
+    seed: 9,
+    dimensions: 2,
+    clusters: []
+};
+
+describe('Reading scenarios', () => {
+    test('an exported scenario reads back unchanged', () => {
+        expect(parseScenarioFile(serializeScenario(scenario))).toEqual([{ name: 'Imported scenario', scenario }]);
+    });
+
+    test('a list of named scenarios keeps names and descriptions', () => {
+        const text = serializeScenarios([
+            { name: 'Mine', description: 'Two candidates', scenario },
+            { name: 'Other', scenario: { ...scenario, method: 'borda' } }
+        ]);
+        const read = parseScenarioFile(text);
+        expect(read.map(entry => entry.name)).toEqual(['Mine', 'Other']);
+        expect(read[0].description).toBe('Two candidates');
+        expect(read[1].scenario.method).toBe('borda');
+    });
+
+    test('fills in whatever a hand-written scenario leaves out', () => {
+        const filled = normalizeScenario({ candidates: [{ x: 2, y: 0.1 }, { x: 0.5, y: 0.5, name: 'Z' }], method: 'nonsense' });
+        expect(filled.candidates[0]).toEqual({ id: '1', x: 1, y: 0.1, color: '#000000', name: 'A' });
+        expect(filled.candidates[1].name).toBe('Z');
+        expect(filled).toMatchObject({ method: 'plurality', voterDistribution: 'uniform', voterCount: 10000, seed: 1, dimensions: 2 });
+    });
+
+    test('ignores inherited keys and unusable options', () => {
+        const candidates = scenario.candidates;
+        expect(normalizeScenario({ candidates, method: 'toString' }).method).toBe('plurality');
+        expect(normalizeScenario({ candidates, method: 'constructor' }).method).toBe('plurality');
+        const { options } = normalizeScenario({
+            candidates,
+            options: {
+                approvalThreshold: 0.4,
+                scoreScale: 7,
+                tieBreakPolicy: 'toString',
+                voterStrategy: 'strategic',
+                awareness: 'all',
+                space: { dimensions: 3, metric: 'hasOwnProperty' },
+                groupTurnout: { left: 0.5, right: 'high' }
+            }
+        });
+        expect(options).toEqual({ approvalThreshold: 0.4, voterStrategy: 'strategic', groupTurnout: { left: 0.5 } });
+    });
+
+    test('reads clusters field by field', () => {
+        const cluster = { id: 'left', weight: 1, x: 0.3, y: 0.5, sdX: 0.1, sdY: 0.1, correlation: 0, shape: 'ring' };
+        expect(normalizeScenario({ candidates: scenario.candidates, clusters: [cluster] }).clusters).toEqual([cluster]);
+        expect(() => normalizeScenario({ candidates: scenario.candidates, clusters: [{ ...cluster, shape: 'constructor' }] }))
+            .toThrow('Voter cluster 1 needs an id, a shape and numeric position, spread and weight');
+        expect(() => normalizeScenario({ candidates: scenario.candidates, clusters: [{ ...cluster, sdX: '0.1' }] })).toThrow();
+    });
+
+    test('rejects files that are not scenarios', () => {
+        expect(() => parseScenarioFile('not json')).toThrow('The file is not valid JSON');
+        expect(() => parseScenarioFile('[]')).toThrow('The file holds no scenarios');
+        expect(() => parseScenarioFile('{"candidates": []}')).toThrow('A scenario needs at least two candidates');
+        expect(() => parseScenarioFile('{"candidates": [{"x": 0}, {"x": 1, "y": 1}]}')).toThrow('Candidate 1 needs numeric x and y positions');
+    });
+});
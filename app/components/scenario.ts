@@ -0,0 +1,183 @@
+import { bordaPartialRules, type VotingMethod } from './election';
+import { readCluster } from './mixture';
+import { DEFAULT_SEED } from './random';
+import { distanceMetrics, MAX_DIMENSIONS } from './space';
+import { voterStrategies } from './strategy';
+import { tieBreakPolicies } from './tieBreaking';
+import { turnoutModels } from './turnout';
+import type { Candidate, ElectionOptions, IssueSpace, ScoreScale, Voter, VoterCluster, VoterDistribution } from './types';
+import { methods } from './votingMethods';
+
+// Bumped whenever the saved shape changes
+export const SCENARIO_VERSION = 1;
+
+export const DEFAULT_VOTER_COUNT = 10000;
+
+// Everything needed to recreate what the visualisation shows
+export interface Scenario {
+    version: number;
+    candidates: Candidate[];
+    method: VotingMethod;
+    options: ElectionOptions;
+    voterDistribution: VoterDistribution;
+    voterCount: number;
+    seed: number;
+    dimensions: number;
+    clusters: VoterCluster[];
+    // Generated voters; the seed recreates them, but exports keep them for other tools
+    voters?: Voter[];
+}
+
+export const serializeScenario = (scenario: Scenario): string =>
+    JSON.stringify(scenario, null, 2);
+
+// A scenario saved in the library under a name
+export interface NamedScenario {
+    name: string;
+    description?: string;
+    scenario: Scenario;
+}
+
+export const voterDistributions: VoterDistribution[] = ['uniform', 'normal', 'clustered', 'mixture'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readCandidate = (value: unknown, index: number): Candidate => {
+    if (!isRecord(value) || typeof value.x !== 'number' || typeof value.y !== 'number') {
+        throw new Error(`Candidate ${index + 1} needs numeric x and y positions`);
+    }
+    return {
+        id: typeof value.id === 'string' ? value.id : `${index + 1}`,
+        x: Math.min(1, Math.max(0, value.x)),
+        y: Math.min(1, Math.max(0, value.y)),
+        color: typeof value.color === 'string' ? value.color : '#000000',
+        name: typeof value.name === 'string' ? value.name : String.fromCharCode(65 + index),
+        ...(Array.isArray(value.dims) && { dims: value.dims.filter((d): d is number => typeof d === 'number') })
+    };
+};
+
+const readNumber = (value: unknown, valid: (n: number) => boolean = () => true): number | undefined =>
+    typeof value === 'number' && Number.isFinite(value) && valid(value) ? value : undefined;
+
+// A key of `labels`, or undefined for anything else (including inherited keys such as 'toString')
+const readKey = <T extends string>(labels: Record<T, string>, value: unknown): T | undefined =>
+    typeof value === 'string' && Object.hasOwn(labels, value) ? value as T : undefined;
+
+const isShare = (n: number) => n >= 0 && n <= 1;
+
+const readSpace = (value: unknown): IssueSpace | undefined => {
+    if (!isRecord(value)) return undefined;
+    const dimensions = readNumber(value.dimensions, n => Number.isInteger(n) && n >= 2 && n <= MAX_DIMENSIONS);
+    const metric = readKey(distanceMetrics, value.metric);
+    if (dimensions === undefined || metric === undefined) return undefined;
+    const minkowskiP = readNumber(value.minkowskiP, p => p >= 1);
+    const salience = Array.isArray(value.salience) && value.salience.every(w => readNumber(w, n => n >= 0) !== undefined)
+        ? value.salience as number[]
+        : undefined;
+    return {
+        dimensions,
+        metric,
+        ...(minkowskiP !== undefined && { minkowskiP }),
+        ...(salience && { salience })
+    };
+};
+
+const readGroupTurnout = (value: unknown): Record<string, number> | undefined => {
+    if (!isRecord(value)) return undefined;
+    const rates = Object.entries(value).filter((entry): entry is [string, number] => readNumber(entry[1], isShare) !== undefined);
+    return Object.fromEntries(rates);
+};
+
+// Election options, keeping each one only if it holds a usable value
+const readOptions = (value: unknown): ElectionOptions => {
+    if (!isRecord(value)) return {};
+    const options: ElectionOptions = {
+        approvalThreshold: readNumber(value.approvalThreshold, n => n > 0 && n <= 1),
+        scoreScale: [5, 10, 100].includes(value.scoreScale as number) ? value.scoreScale as ScoreScale : undefined,
+        scoreNormalization: value.scoreNormalization === 'minMax' || value.scoreNormalization === 'bands'
+            ? value.scoreNormalization
+            : undefined,
+        scoreRadius: readNumber(value.scoreRadius, n => n > 0),
+        tieBreakPolicy: readKey(tieBreakPolicies, value.tieBreakPolicy),
+        tieBreakSeed: readNumber(value.tieBreakSeed, Number.isInteger),
+        voterStrategy: readKey(voterStrategies, value.voterStrategy),
+        strategicFraction: readNumber(value.strategicFraction, isShare),
+        maxRankings: readNumber(value.maxRankings, n => Number.isInteger(n) && n > 0),
+        rankingRadius: readNumber(value.rankingRadius, n => n > 0),
+        bordaPartialRule: readKey(bordaPartialRules, value.bordaPartialRule),
+        space: readSpace(value.space),
+        perceptionNoise: readNumber(value.perceptionNoise, n => n >= 0),
+        awareness: readNumber(value.awareness, isShare),
+        perceptionSeed: readNumber(value.perceptionSeed, Number.isInteger),
+        turnoutModel: readKey(turnoutModels, value.turnoutModel),
+        turnoutSensitivity: readNumber(value.turnoutSensitivity, n => n >= 0),
+        groupTurnout: readGroupTurnout(value.groupTurnout)
+    };
+    (Object.keys(options) as (keyof ElectionOptions)[]).forEach(key => {
+        if (options[key] === undefined) delete options[key];
+    });
+    return options;
+};
+
+const readClusters = (value: unknown): VoterCluster[] => {
+    if (!Array.isArray(value)) return [];
+    return value.map((entry, i) => {
+        const cluster = readCluster(entry);
+        if (!cluster) throw new Error(`Voter cluster ${i + 1} needs an id, a shape and numeric position, spread and weight`);
+        return cluster;
+    });
+};
+
+// Check a parsed scenario and fill in anything an older or hand-written file leaves out
+export const normalizeScenario = (value: unknown): Scenario => {
+    if (!isRecord(value) || !Array.isArray(value.candidates)) throw new Error('A scenario needs a list of candidates');
+    if (value.candidates.length < 2) throw new Error('A scenario needs at least two candidates');
+
+    const candidates = value.candidates.map(readCandidate);
+    const method = readKey(methods, value.method) ?? 'plurality';
+    const voterDistribution = voterDistributions.includes(value.voterDistribution as VoterDistribution)
+        ? value.voterDistribution as VoterDistribution
+        : 'uniform';
+    const positiveInteger = (n: unknown, fallback: number) =>
+        typeof n === 'number' && Number.isInteger(n) && n > 0 ? n : fallback;
+
+    return {
+        version: SCENARIO_VERSION,
+        candidates,
+        method,
+        options: readOptions(value.options),
+        voterDistribution,
+        voterCount: positiveInteger(value.voterCount, DEFAULT_VOTER_COUNT),
+        seed: typeof value.seed === 'number' && Number.isInteger(value.seed) ? value.seed : DEFAULT_SEED,
+        dimensions: positiveInteger(value.dimensions, 2),
+        clusters: readClusters(value.clusters),
+        ...(Array.isArray(value.voters) && { voters: value.voters as Voter[] })
+    };
+};
+
+// Read a JSON file holding one scenario (as exported), a named scenario or a list of named scenarios
+export const parseScenarioFile = (text: string): NamedScenario[] => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON');
+    }
+
+    const entries = Array.isArray(parsed) ? parsed : [parsed];
+    if (entries.length === 0) throw new Error('The file holds no scenarios');
+    return entries.map((entry, i) => {
+        if (isRecord(entry) && 'scenario' in entry) {
+            return {
+                name: typeof entry.name === 'string' && entry.name.trim() ? entry.name : `Imported scenario ${i + 1}`,
+                ...(typeof entry.description === 'string' && { description: entry.description }),
+                scenario: normalizeScenario(entry.scenario)
+            };
+        }
+        return { name: entries.length > 1 ? `Imported scenario ${i + 1}` : 'Imported scenario', scenario: normalizeScenario(entry) };
+    });
+};
+
+export const serializeScenarios = (scenarios: NamedScenario[]): string =>
+    JSON.stringify(scenarios, null, 2);
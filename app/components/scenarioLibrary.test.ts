@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'vitest';
+import { castBallots, runElection } from './election';
+import { buildPairwiseMatrix, findSmithSet } from './condorcet';
+import type { NamedScenario } from './scenario';
+import { classicScenarios, loadSavedScenarios, SCENARIO_STORAGE_KEY, storeSavedScenarios, withScenario } from './scenarioLibrary';
+import { generateVoters } from './voterGeneration';
+
+const classicByName = (name: string) => classicScenarios.find(entry => entry.name === name)!.scenario;
+
+const votersFor = (name: string) => {
+    const scenario = classicByName(name);
+    return {
+        scenario,
+        voters: generateVoters(scenario.voterCount, scenario.voterDistribution, scenario.seed, scenario.clusters, scenario.dimensions)
+    };
+};
+
+// Minimal in-memory Storage
+const memoryStorage = (): Storage => {
+    const items = new Map<string, string>();
+    return {
+        get length() { return items.size; },
+        clear: () => items.clear(),
+        getItem: key => items.get(key) ?? null,
+        key: i => [...items.keys()][i] ?? null,
+        removeItem: key => { items.delete(key); },
+        setItem: (key, value) => { items.set(key, value); }
+    };
+};
+
+describe('Classic scenarios', () => {
+    test('center squeeze: IRV passes over the Condorcet winner', () => {
+        const { scenario, voters } = votersFor('Center squeeze');
+        const { candidates } = scenario;
+        expect(runElection(voters, candidates, 'rankedPairs').winnerId).toBe('2');
+        expect(runElection(voters, candidates, 'irv').winnerId).not.toBe('2');
+    });
+
+    test('spoiler: the split progressives lose under plurality', () => {
+        const { scenario, voters } = votersFor('Spoiler');
+        expect(runElection(voters, scenario.candidates, 'plurality').winnerId).toBe('2');
+        expect(runElection(voters, scenario.candidates, 'irv').winnerId).not.toBe('2');
+    });
+
+    test('Condorcet cycle: all three candidates are in the Smith set', () => {
+        const { scenario, voters } = votersFor('Condorcet cycle');
+        const ballots = castBallots(voters, scenario.candidates).map(b => b.ranking);
+        expect(findSmithSet(buildPairwiseMatrix(ballots, scenario.candidates), scenario.candidates)).toEqual(['1', '2', '3']);
+    });
+
+    test('clones: splitting the majority hands plurality to the lone rival', () => {
+        const { scenario, voters } = votersFor('Clones');
+        expect(runElection(voters, scenario.candidates, 'plurality').winnerId).toBe('1');
+        expect(runElection(voters, scenario.candidates, 'irv').winnerId).not.toBe('1');
+    });
+
+    test('every classic has a description', () => {
+        classicScenarios.forEach(entry => expect(entry.description).toBeTruthy());
+    });
+});
+
+describe('Saved scenarios', () => {
+    const entry: NamedScenario = { name: 'Mine', scenario: classicByName('Spoiler') };
+
+    test('round-trip through storage', () => {
+        const storage = memoryStorage();
+        storeSavedScenarios([entry], storage);
+        expect(loadSavedScenarios(storage)).toEqual([entry]);
+    });
+
+    test('keep their descriptions', () => {
+        const storage = memoryStorage();
+        const described = { ...entry, description: 'A spoiler splits the vote' };
+        storeSavedScenarios([described], storage);
+        expect(loadSavedScenarios(storage)).toEqual([described]);
+    });
+
+    test('unreadable storage gives an empty library and bad entries are skipped', () => {
+        const storage = memoryStorage();
+        storage.setItem(SCENARIO_STORAGE_KEY, 'not json');
+        expect(loadSavedScenarios(storage)).toEqual([]);
+        storage.setItem(SCENARIO_STORAGE_KEY, JSON.stringify([{ name: 'Broken', scenario: {} }, entry]));
+        expect(loadSavedScenarios(storage)).toEqual([entry]);
+    });
+
+    test('saving under an existing name replaces it', () => {
+        const replaced = withScenario([entry], { ...entry, scenario: { ...entry.scenario, seed: 7 } });
+        expect(replaced).toHaveLength(1);
+        expect(replaced[0].scenario.seed).toBe(7);
+        expect(withScenario([entry], { ...entry, name: 'Other' })).toHaveLength(2);
+    });
+});
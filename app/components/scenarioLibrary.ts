@@ -0,0 +1,134 @@
+import type { VotingMethod } from './election';
+import { mixturePresets } from './mixture';
+import { DEFAULT_SEED } from './random';
+import { normalizeScenario, SCENARIO_VERSION, type NamedScenario } from './scenario';
+import type { Candidate, VoterCluster, VoterDistribution } from './types';
+
+// localStorage key for the user's saved scenarios
+export const SCENARIO_STORAGE_KEY = 'voting-viz-scenarios';
+
+const LIBRARY_VOTER_COUNT = 5000;
+
+const candidate = (id: string, name: string, color: string, x: number, y: number): Candidate =>
+    ({ id, name, color, x, y });
+
+const cluster = (id: string, x: number, y: number, sd: number, weight = 1): VoterCluster =>
+    ({ id, weight, x, y, sdX: sd, sdY: sd, correlation: 0, shape: 'gaussian' });
+
+const classic = (
+    name: string,
+    description: string,
+    method: VotingMethod,
+    candidates: Candidate[],
+    voterDistribution: VoterDistribution,
+    clusters: VoterCluster[] = []
+): NamedScenario => ({
+    name,
+    description,
+    scenario: {
+        version: SCENARIO_VERSION,
+        candidates,
+        method,
+        options: {},
+        voterDistribution,
+        voterCount: LIBRARY_VOTER_COUNT,
+        seed: DEFAULT_SEED,
+        dimensions: 2,
+        clusters
+    }
+});
+
+export const classicScenarios: NamedScenario[] = [
+    classic(
+        'Center squeeze',
+        'The centrist beats both rivals head-to-head but has the fewest first preferences, so IRV and plurality pass them over.',
+        'irv',
+        [
+            candidate('1', 'Left', '#22c55e', 0.25, 0.5),
+            candidate('2', 'Centre', '#ef4444', 0.5, 0.5),
+            candidate('3', 'Right', '#3b82f6', 0.75, 0.5)
+        ],
+        'mixture',
+        [cluster('left', 0.2, 0.5, 0.1), cluster('centre', 0.5, 0.5, 0.1, 0.6), cluster('right', 0.8, 0.5, 0.1)]
+    ),
+    classic(
+        'Spoiler',
+        'Two similar progressives split their side of the vote, handing plurality to the conservative.',
+        'plurality',
+        [
+            candidate('1', 'Progressive A', '#22c55e', 0.3, 0.5),
+            candidate('2', 'Conservative', '#3b82f6', 0.7, 0.5),
+            candidate('3', 'Progressive B', '#ef4444', 0.4, 0.5)
+        ],
+        'uniform'
+    ),
+    classic(
+        'Condorcet cycle',
+        'Three equal blocs rank the candidates A > B > C, B > C > A and C > A > B, so every candidate loses a head-to-head race.',
+        'rankedPairs',
+        [
+            candidate('1', 'A', '#22c55e', 0.5, 0.8),
+            candidate('2', 'B', '#ef4444', 0.2, 0.25),
+            candidate('3', 'C', '#3b82f6', 0.8, 0.25)
+        ],
+        'mixture',
+        [cluster('ab', 0.41, 0.635, 0.02), cluster('bc', 0.38, 0.25, 0.02), cluster('ca', 0.71, 0.415, 0.02)]
+    ),
+    classic(
+        'Clones',
+        'Three near-identical candidates share a majority between them; methods that are not clone-proof hand the win to the lone rival.',
+        'plurality',
+        [
+            candidate('1', 'A', '#22c55e', 0.3, 0.5),
+            candidate('2', 'B1', '#ef4444', 0.6, 0.45),
+            candidate('3', 'B2', '#f59e0b', 0.63, 0.55),
+            candidate('4', 'B3', '#ec4899', 0.67, 0.5)
+        ],
+        'uniform'
+    ),
+    classic(
+        'Polarised electorate',
+        'Voters gather in two camps with few in between; a moderate candidate sits in the gap.',
+        'plurality',
+        [
+            candidate('1', 'Left', '#22c55e', 0.25, 0.55),
+            candidate('2', 'Moderate', '#ef4444', 0.5, 0.5),
+            candidate('3', 'Right', '#3b82f6', 0.75, 0.45)
+        ],
+        'mixture',
+        mixturePresets.polarised.clusters
+    )
+];
+
+// Saved scenarios, skipping any entry that no longer reads as a scenario
+export const loadSavedScenarios = (storage: Storage = localStorage): NamedScenario[] => {
+    try {
+        const saved: unknown = JSON.parse(storage.getItem(SCENARIO_STORAGE_KEY) ?? '[]');
+        if (!Array.isArray(saved)) return [];
+        return saved.flatMap(entry => {
+            try {
+                return [{
+                    name: `${entry.name}`,
+                    ...(typeof entry.description === 'string' && { description: entry.description }),
+                    scenario: normalizeScenario(entry.scenario)
+                }];
+            } catch {
+                return [];
+            }
+        });
+    } catch {
+        return [];
+    }
+};
+
+export const storeSavedScenarios = (scenarios: NamedScenario[], storage: Storage = localStorage) => {
+    storage.setItem(SCENARIO_STORAGE_KEY, JSON.stringify(scenarios));
+};
+
+// Add a scenario, replacing any saved one with the same name
+export const withScenario = (scenarios: NamedScenario[], entry: NamedScenario): NamedScenario[] => {
+    const index = scenarios.findIndex(s => s.name === entry.name);
+    return index === -1
+        ? [...scenarios, entry]
+        : scenarios.map((s, i) => i === index ? entry : s);
+};
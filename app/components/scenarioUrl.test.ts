@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'vitest';
+import { decodeScenarioQuery, encodeScenarioQuery, type SharedScenario } from './scenarioUrl';
+import { generateVoters } from './voterGeneration';
+
+const scenario: SharedScenario = {
+    candidates: [
+        { id: '1', x: 0.3, y: 0.5, color: '#22c55e', name: 'Progressive A' },
+        { id: '2', x: 0.7, y: 0.5, color: '#3b82f6', name: 'Cons. & Co' },
+        { id: '3', x: 0.4, y: 0.5, color: '#ef4444', name: 'Progressive B' }
+    ],
+    method: 'irv',
+    approvalThreshold: 0.25,
+    voterDistribution: 'normal',
+    voterCount: 5000,
+    seed: 42,
+    clusters: [
+        { id: 'left', weight: 0.6, x: 0.3, y: 0.5, sdX: 0.1, sdY: 0.1, correlation: 0, shape: 'gaussian' },
+        { id: 'right', weight: 0.4, x: 0.7, y: 0.5, sdX: 0.1, sdY: 0.1, correlation: 0, shape: 'gaussian', turnout: 0.8 }
+    ],
+    dimensions: 2
+};
+
+const mixture: SharedScenario = {
+    ...scenario,
+    candidates: scenario.candidates.map((c, i) => ({ ...c, dims: [0.25 * i, 0.9] })),
+    voterDistribution: 'mixture',
+    voterCount: 500,
+    clusters: [
+        { id: 'far_left', weight: 1 / 3, x: 0.123456789, y: 0.2, sdX: 0.05, sdY: 0.15, correlation: -0.4, shape: 'ring' },
+        { id: 'suburbs', weight: 2 / 3, x: 0.6, y: 0.75, sdX: 0.2, sdY: 0.1, correlation: 0.3, shape: 'uniform', turnout: 0.55 }
+    ],
+    dimensions: 4
+};
+
+describe('Scenario query strings', () => {
+    test('are compact', () => {
+        expect(encodeScenarioQuery({ candidates: scenario.candidates.slice(0, 1), method: 'irv', seed: 42 }))
+            .toBe('c=300.500.22c55e.Progressive+A&m=irv&s=42');
+    });
+
+    test('round-trip every shared setting', () => {
+        expect(decodeScenarioQuery(encodeScenarioQuery(scenario))).toEqual(scenario);
+    });
+
+    test('round-trip a mixture scenario in more dimensions', () => {
+        const decoded = decodeScenarioQuery(encodeScenarioQuery(mixture));
+        expect(decoded).toEqual(mixture);
+        // The link redraws exactly the same voters
+        const voters = (s: Partial<SharedScenario>) =>
+            generateVoters(s.voterCount!, s.voterDistribution!, s.seed, s.clusters, s.dimensions);
+        expect(voters(decoded)).toEqual(voters(mixture));
+    });
+
+    test('round positions to thousandths', () => {
+        const [candidate] = decodeScenarioQuery(encodeScenarioQuery({
+            candidates: [{ ...scenario.candidates[0], x: 0.12345 }, scenario.candidates[1]]
+        })).candidates!;
+        expect(candidate.x).toBe(0.123);
+    });
+
+    test('leave out missing or malformed settings', () => {
+        expect(decodeScenarioQuery('')).toEqual({});
+        expect(decodeScenarioQuery('?m=nonsense&t=2&n=-5&s=1.5&d=square')).toEqual({});
+        // A single candidate, or any unreadable one, keeps the default candidates
+        expect(decodeScenarioQuery('c=300.500.22c55e.A').candidates).toBeUndefined();
+        expect(decodeScenarioQuery('c=300.500.22c55e.A&c=bad').candidates).toBeUndefined();
+        // Likewise any unreadable cluster keeps the default mixture
+        expect(decodeScenarioQuery('k=1_0.5_0.5_0.1_0.1_0_gaussian__a&k=1_0.5_0.5_0.1_0.1_0_square__b')).toEqual({});
+        expect(decodeScenarioQuery('m=toString&k=1_0.5_0.5_0.1_0.1_0_constructor__a')).toEqual({});
+        expect(decodeScenarioQuery('m=constructor')).toEqual({});
+        expect(decodeScenarioQuery('dim=1')).toEqual({});
+        expect(decodeScenarioQuery('dim=9')).toEqual({});
+    });
+
+    test('clamp positions to the map', () => {
+        const { candidates } = decodeScenarioQuery('c=1500.0.22c55e.A&c=0.999.ef4444.B');
+        expect(candidates?.map(c => [c.x, c.y])).toEqual([[1, 0], [0, 0.999]]);
+    });
+});
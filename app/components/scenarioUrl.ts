@@ -0,0 +1,132 @@
+import type { VotingMethod } from './election';
+import { readCluster } from './mixture';
+import { voterDistributions } from './scenario';
+import { MAX_DIMENSIONS } from './space';
+import type { Candidate, VoterCluster, VoterDistribution } from './types';
+import { methods } from './votingMethods';
+
+// The parts of a scenario a link carries. Voters are not listed: the
+// distribution, count, seed, mixture clusters and number of dimensions
+// regenerate exactly the same ones.
+export interface SharedScenario {
+    candidates: Candidate[];
+    method: VotingMethod;
+    approvalThreshold: number;
+    voterDistribution: VoterDistribution;
+    voterCount: number;
+    seed: number;
+    clusters: VoterCluster[];
+    dimensions: number;
+}
+
+// Candidate positions are stored in thousandths
+const POSITION_SCALE = 1000;
+
+// Wait this long after the last change before rewriting the URL, so dragging
+// does not hit the browser's limit on history updates
+export const URL_UPDATE_DELAY = 250;
+
+// One `c` parameter per candidate: "x.y.colour.name", e.g. c=300.700.22c55e.Candidate+A,
+// with any further issue dimensions after y: c=300.700.450.22c55e.Candidate+A
+const encodeCandidate = (candidate: Candidate): string =>
+    [
+        Math.round(candidate.x * POSITION_SCALE),
+        Math.round(candidate.y * POSITION_SCALE),
+        ...(candidate.dims ?? []).map(d => Math.round(d * POSITION_SCALE)),
+        candidate.color.replace(/^#/, ''),
+        candidate.name
+    ].join('.');
+
+const decodeCandidate = (value: string, index: number): Candidate | null => {
+    // Positions have at most four digits, so a six-digit colour is never read as one
+    const match = value.match(/^(\d+)\.(\d+)((?:\.\d{1,4})*)\.([0-9a-f]{6})\.(.*)$/i);
+    if (!match) return null;
+    const clamp = (position: string) => Math.min(1, Math.max(0, Number(position) / POSITION_SCALE));
+    const dims = match[3].split('.').slice(1).map(clamp);
+    return {
+        id: `${index + 1}`,
+        x: clamp(match[1]),
+        y: clamp(match[2]),
+        ...(dims.length > 0 && { dims }),
+        color: `#${match[4]}`,
+        name: match[5]
+    };
+};
+
+// One `k` parameter per mixture cluster: "weight_x_y_sdX_sdY_correlation_shape_turnout_id",
+// turnout left empty when unset. Numbers are kept exact so the same voters are drawn.
+const encodeCluster = (cluster: VoterCluster): string =>
+    [
+        cluster.weight, cluster.x, cluster.y, cluster.sdX, cluster.sdY, cluster.correlation,
+        cluster.shape, cluster.turnout ?? '', cluster.id
+    ].join('_');
+
+const decodeCluster = (value: string): VoterCluster | null => {
+    const fields = value.split('_');
+    if (fields.length < 9) return null;
+    const [weight, x, y, sdX, sdY, correlation] = fields.slice(0, 6).map(Number);
+    return readCluster({
+        id: fields.slice(8).join('_'),
+        weight, x, y, sdX, sdY, correlation,
+        shape: fields[6],
+        turnout: fields[7] === '' ? undefined : Number(fields[7])
+    });
+};
+
+const parseNumber = (value: string | null, valid: (n: number) => boolean): number | undefined => {
+    if (value === null || value.trim() === '') return undefined;
+    const n = Number(value);
+    return Number.isFinite(n) && valid(n) ? n : undefined;
+};
+
+export const encodeScenarioQuery = (scenario: Partial<SharedScenario>): string => {
+    const params = new URLSearchParams();
+    scenario.candidates?.forEach(candidate => params.append('c', encodeCandidate(candidate)));
+    if (scenario.method) params.set('m', scenario.method);
+    if (scenario.approvalThreshold !== undefined) params.set('t', `${+scenario.approvalThreshold.toFixed(3)}`);
+    if (scenario.voterDistribution) params.set('d', scenario.voterDistribution);
+    if (scenario.voterCount !== undefined) params.set('n', `${scenario.voterCount}`);
+    if (scenario.seed !== undefined) params.set('s', `${scenario.seed}`);
+    scenario.clusters?.forEach(cluster => params.append('k', encodeCluster(cluster)));
+    if (scenario.dimensions !== undefined) params.set('dim', `${scenario.dimensions}`);
+    return params.toString();
+};
+
+// Read whatever valid settings the query holds; anything missing or malformed is left out
+export const decodeScenarioQuery = (query: string | URLSearchParams): Partial<SharedScenario> => {
+    const params = new URLSearchParams(query);
+    const scenario: Partial<SharedScenario> = {};
+
+    const candidates = params.getAll('c').map(decodeCandidate);
+    if (candidates.length >= 2 && candidates.every(c => c !== null)) scenario.candidates = candidates as Candidate[];
+
+    const method = params.get('m');
+    if (method && Object.hasOwn(methods, method)) scenario.method = method as VotingMethod;
+
+    const distribution = params.get('d');
+    if (voterDistributions.includes(distribution as VoterDistribution)) {
+        scenario.voterDistribution = distribution as VoterDistribution;
+    }
+
+    const approvalThreshold = parseNumber(params.get('t'), n => n > 0 && n <= 1);
+    if (approvalThreshold !== undefined) scenario.approvalThreshold = approvalThreshold;
+    const voterCount = parseNumber(params.get('n'), n => Number.isInteger(n) && n > 0);
+    if (voterCount !== undefined) scenario.voterCount = voterCount;
+    const seed = parseNumber(params.get('s'), Number.isInteger);
+    if (seed !== undefined) scenario.seed = seed;
+
+    const clusters = params.getAll('k').map(decodeCluster);
+    if (clusters.length > 0 && clusters.every(c => c !== null)) scenario.clusters = clusters as VoterCluster[];
+    const dimensions = parseNumber(params.get('dim'), n => Number.isInteger(n) && n >= 2 && n <= MAX_DIMENSIONS);
+    if (dimensions !== undefined) scenario.dimensions = dimensions;
+
+    return scenario;
+};
+
+// Swap the query string in place; replacing rather than pushing keeps history clean
+export const replaceScenarioQuery = (query: string) => {
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+        window.history.replaceState(window.history.state, '', url);
+    }
+};
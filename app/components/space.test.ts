@@ -0,0 +1,71 @@
+import { describe, expect, test } from 'vitest';
+import { runElection } from './election';
+import { getCoordinate, getCoordinates, setCoordinate, spaceDistance } from './space';
+import type { Candidate, IssueSpace } from './types';
+import { getVoterPreference } from './votingMethods';
+
+const origin = { x: 0, y: 0 };
+
+describe('Coordinates', () => {
+    test('dimensions beyond x and y come from dims, defaulting to the centre', () => {
+        const point = { x: 0.1, y: 0.2, dims: [0.3] };
+        expect(getCoordinates(point, 4)).toEqual([0.1, 0.2, 0.3, 0.5]);
+        expect(getCoordinate(origin, 2)).toBe(0.5);
+    });
+
+    test('setting a coordinate copies the point', () => {
+        expect(setCoordinate(origin, 1, 0.7)).toEqual({ x: 0, y: 0.7 });
+        expect(setCoordinate(origin, 3, 0.9)).toEqual({ x: 0, y: 0, dims: [0.5, 0.9] });
+        expect(origin).toEqual({ x: 0, y: 0 });
+    });
+});
+
+describe('Distance metrics', () => {
+    const target = { x: 0.3, y: 0.4 };
+    const plane = (metric: IssueSpace['metric'], extra: Partial<IssueSpace> = {}): IssueSpace =>
+        ({ dimensions: 2, metric, ...extra });
+
+    test('Euclidean is the default', () => {
+        expect(spaceDistance(origin, target)).toBeCloseTo(0.5);
+    });
+
+    test('Manhattan, Chebyshev and Minkowski', () => {
+        expect(spaceDistance(origin, target, plane('manhattan'))).toBeCloseTo(0.7);
+        expect(spaceDistance(origin, target, plane('chebyshev'))).toBeCloseTo(0.4);
+        expect(spaceDistance(origin, target, plane('minkowski', { minkowskiP: 1 }))).toBeCloseTo(0.7);
+        expect(spaceDistance(origin, target, plane('minkowski', { minkowskiP: 2 }))).toBeCloseTo(0.5);
+    });
+
+    test('salience weights each dimension', () => {
+        expect(spaceDistance(origin, target, plane('euclidean', { salience: [0, 1] }))).toBeCloseTo(0.4);
+        expect(spaceDistance(origin, target, plane('manhattan', { salience: [2, 1] }))).toBeCloseTo(1.0);
+    });
+
+    test('further dimensions count towards distance', () => {
+        const space: IssueSpace = { dimensions: 3, metric: 'euclidean' };
+        expect(spaceDistance({ x: 0, y: 0, dims: [0] }, { x: 0, y: 0.3, dims: [0.4] }, space)).toBeCloseTo(0.5);
+    });
+});
+
+describe('Preferences in other spaces', () => {
+    const candidates: Candidate[] = [
+        { id: 'A', x: 0.6, y: 0, color: 'red', name: 'A' },
+        { id: 'B', x: 0.4, y: 0.4, color: 'blue', name: 'B' }
+    ];
+
+    test('the metric decides which candidate is nearer', () => {
+        expect(getVoterPreference(0, 0, candidates)[0].id).toBe('B');
+        expect(getVoterPreference(0, 0, candidates, { dimensions: 2, metric: 'manhattan' })[0].id).toBe('A');
+        expect(getVoterPreference(0, 0, candidates, { dimensions: 2, metric: 'chebyshev' })[0].id).toBe('B');
+    });
+
+    test('elections use the configured space and voter dimensions', () => {
+        const space: IssueSpace = { dimensions: 3, metric: 'euclidean' };
+        const placed: Candidate[] = [
+            { ...candidates[0], x: 0.5, y: 0.5, dims: [0] },
+            { ...candidates[1], x: 0.5, y: 0.5, dims: [1] }
+        ];
+        const voters = [{ id: 'v1', x: 0.5, y: 0.5, dims: [0.9] }, { id: 'v2', x: 0.5, y: 0.5, dims: [0.8] }];
+        expect(runElection(voters, placed, 'plurality', { space }).winnerId).toBe('B');
+    });
+});
@@ -0,0 +1,66 @@
+import type { DistanceMetric, IssueSpace } from './types';
+
+export const distanceMetrics: Record<DistanceMetric, string> = {
+    euclidean: 'Euclidean',
+    manhattan: 'Manhattan',
+    chebyshev: 'Chebyshev',
+    minkowski: 'Minkowski'
+};
+
+export const MAX_DIMENSIONS = 5;
+
+// Coordinate used for a dimension a point does not specify
+export const DEFAULT_COORDINATE = 0.5;
+
+// The plain 2D Euclidean plane every point lives in unless configured otherwise
+export const DEFAULT_SPACE: IssueSpace = { dimensions: 2, metric: 'euclidean' };
+
+interface Positioned {
+    x: number;
+    y: number;
+    dims?: number[];
+}
+
+// Dimension 0 is x, 1 is y and 2+ come from `dims`
+export const getCoordinate = (point: Positioned, dimension: number): number =>
+    dimension === 0 ? point.x
+        : dimension === 1 ? point.y
+            : point.dims?.[dimension - 2] ?? DEFAULT_COORDINATE;
+
+export const getCoordinates = (point: Positioned, dimensions: number): number[] =>
+    Array.from({ length: dimensions }, (_, i) => getCoordinate(point, i));
+
+// Copy of `point` with one coordinate replaced
+export const setCoordinate = <T extends Positioned>(point: T, dimension: number, value: number): T => {
+    if (dimension === 0) return { ...point, x: value };
+    if (dimension === 1) return { ...point, y: value };
+    const dims = [...(point.dims ?? [])];
+    for (let i = dims.length; i < dimension - 2; i++) dims.push(DEFAULT_COORDINATE);
+    dims[dimension - 2] = value;
+    return { ...point, dims };
+};
+
+// Distance between two points under the space's metric, with each
+// dimension's difference scaled by its salience weight (default 1)
+export const spaceDistance = (
+    a: Positioned,
+    b: Positioned,
+    space: IssueSpace = DEFAULT_SPACE
+): number => {
+    const gaps = Array.from({ length: space.dimensions }, (_, i) =>
+        (space.salience?.[i] ?? 1) * Math.abs(getCoordinate(a, i) - getCoordinate(b, i))
+    );
+
+    switch (space.metric) {
+        case 'manhattan':
+            return gaps.reduce((sum, gap) => sum + gap, 0);
+        case 'chebyshev':
+            return Math.max(...gaps);
+        case 'minkowski': {
+            const p = space.minkowskiP ?? 2;
+            return gaps.reduce((sum, gap) => sum + gap ** p, 0) ** (1 / p);
+        }
+        default:
+            return Math.sqrt(gaps.reduce((sum, gap) => sum + gap ** 2, 0));
+    }
+};
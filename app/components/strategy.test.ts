@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'vitest';
+import { runElection } from './election';
+import { applyStrategy, findFrontRunners, isStrategicVoter, strategicBallot } from './strategy';
+import { createTieBreaker } from './tieBreaking';
+import type { Ballot, Candidate, Voter } from './types';
+
+const candidates: Candidate[] = [
+    { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+    { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+    { id: 'C', x: 0.3, y: 0, color: 'green', name: 'C' }
+];
+
+const makeVoters = (positions: number[]): Voter[] =>
+    positions.map((x, i) => ({ id: `v${i}`, x, y: 0 }));
+
+const ranked = (...ranking: string[]): Ballot => ({ ranking, approved: [ranking[0]] });
+
+// Sincerely: A 3, B 4, C 2. C's supporters prefer A to B, so compromising elects A.
+const voters = makeVoters([0, 0.05, 0.1, 0.25, 0.35, 0.9, 0.95, 1, 0.8]);
+
+describe('Strategic ballots', () => {
+    const voter = { id: 'v', x: 0.3, y: 0 };
+
+    test('plurality voters compromise on their preferred front-runner', () => {
+        const ballot = strategicBallot(ranked('C', 'A', 'B'), voter, candidates, 'plurality', ['B', 'A']);
+        expect(ballot.ranking).toEqual(['A', 'C', 'B']);
+    });
+
+    test('Borda voters bury the rival front-runner', () => {
+        const ballot = strategicBallot(ranked('C', 'A', 'B'), voter, candidates, 'borda', ['B', 'A']);
+        expect(ballot.ranking).toEqual(['A', 'C', 'B']);
+        const buried = strategicBallot(ranked('A', 'B', 'C'), { id: 'v', x: 0.1, y: 0 }, candidates, 'borda', ['A', 'B']);
+        expect(buried.ranking).toEqual(['A', 'C', 'B']);
+    });
+
+    test('approval voters approve candidates better than their mean utility', () => {
+        // Distances 0.3, 0.7, 0 — mean 0.33
+        const ballot = strategicBallot(ranked('C', 'A', 'B'), voter, candidates, 'approval', []);
+        expect(ballot.approved).toEqual(['C', 'A']);
+    });
+
+    test('approval voters also approve candidates left off a truncated ranking', () => {
+        const ballot = strategicBallot(ranked('C'), voter, candidates, 'approval', []);
+        expect(ballot.approved).toEqual(['C', 'A']);
+    });
+
+    test('approval voters judge only the candidates they know, where they see them', () => {
+        // This voter sees A beside them and has never heard of C
+        const seen = [{ ...candidates[0], x: 0.25 }, candidates[1]];
+        const ballot = strategicBallot(ranked('A', 'B'), voter, seen, 'approval', []);
+        expect(ballot.approved).toEqual(['A']);
+    });
+
+    test('front-runners are the top two poll totals', () => {
+        expect(findFrontRunners({ A: 3, B: 4, C: 2 }, candidates)).toEqual(['B', 'A']);
+    });
+
+    test('tied front-runners follow the tie-break policy', () => {
+        expect(findFrontRunners({ A: 3, B: 3, C: 3 }, candidates)).toEqual(['A', 'B']);
+        const tieBreaker = createTieBreaker([ranked('C', 'B', 'A')], candidates, { tieBreakPolicy: 'borda' });
+        expect(findFrontRunners({ A: 3, B: 3, C: 3 }, candidates, tieBreaker)).toEqual(['C', 'B']);
+        expect(tieBreaker.details).toEqual([
+            'Tie for first front-runner between A, B, C: broken by Borda count (C)',
+            'Tie for second front-runner between A, B: broken by Borda count (B)'
+        ]);
+    });
+
+    test('strategic voters are spread through the electorate', () => {
+        const picked = Array.from({ length: 10 }, (_, i) => isStrategicVoter(i, 0.5));
+        expect(picked.filter(Boolean)).toHaveLength(5);
+        expect(picked.slice(0, 2)).toEqual([false, true]);
+        expect(Array.from({ length: 4 }, (_, i) => isStrategicVoter(i, 1)).every(Boolean)).toBe(true);
+    });
+});
+
+describe('Strategic elections', () => {
+    test('compromising voters change the plurality winner', () => {
+        expect(runElection(voters, candidates, 'plurality').winnerId).toBe('B');
+
+        const result = runElection(voters, candidates, 'plurality', { voterStrategy: 'strategic' });
+        expect(result.winnerId).toBe('A');
+        expect(result.frontRunners).toEqual(['B', 'A']);
+        expect(result.roundDetails[0]).toBe('9 of 9 voters are strategic');
+        expect(result.roundDetails[1]).toBe('Poll 1: front-runners B and A; 2 ballots changed');
+    });
+
+    test('iterative polling runs until ballots stop changing', () => {
+        const result = runElection(voters, candidates, 'plurality', { voterStrategy: 'iterative' });
+        expect(result.winnerId).toBe('A');
+        expect(result.roundDetails).toContain('Ballots stable after 2 polls');
+    });
+
+    test('report the ballots they counted', () => {
+        const sincere = runElection(voters, candidates, 'plurality');
+        const result = runElection(voters, candidates, 'plurality', { voterStrategy: 'strategic' });
+        expect(sincere.ballots?.map(b => b.ranking[0])).toEqual(['A', 'A', 'A', 'C', 'C', 'B', 'B', 'B', 'B']);
+        expect(result.ballots?.map(b => b.ranking[0])).toEqual(['A', 'A', 'A', 'A', 'A', 'B', 'B', 'B', 'B']);
+    });
+
+    test('strategic approval ballots stay within what each voter knows', () => {
+        const result = runElection(voters, candidates, 'approval', { voterStrategy: 'strategic', awareness: 0.5, perceptionSeed: 3 });
+        const ballots = result.ballots ?? [];
+        expect(ballots.some(b => b.ranking.length < candidates.length)).toBe(true);
+        ballots.forEach(b => b.approved.forEach(id => expect(b.ranking).toContain(id)));
+    });
+
+    test('only the strategic share of voters changes ballots', () => {
+        const result = runElection(voters, candidates, 'plurality', { voterStrategy: 'strategic', strategicFraction: 0 });
+        expect(result.winnerId).toBe('B');
+    });
+
+    test('methods without a strategic model are voted sincerely', () => {
+        const outcome = applyStrategy(
+            voters,
+            [ranked('A', 'B', 'C')],
+            candidates,
+            'irv',
+            'iterative',
+            1,
+            () => { throw new Error('should not poll'); }
+        );
+        expect(outcome.roundDetails).toEqual([]);
+    });
+});
@@ -0,0 +1,166 @@
+import type { VotingMethod } from './election';
+import { createPerception, hasPerceptionError } from './perception';
+import { spaceDistance } from './space';
+import { createTieBreaker, type TieBreaker } from './tieBreaking';
+import type { Ballot, Candidate, ElectionOptions, ElectionResult, IssueSpace, Voter, VoterStrategy } from './types';
+
+export const voterStrategies: Record<VoterStrategy, string> = {
+    sincere: 'Sincere',
+    strategic: 'Strategic (one poll)',
+    iterative: 'Poll and re-vote until stable'
+};
+
+export const strategyDescriptions: Record<VoterStrategy, string> = {
+    sincere: "Every ballot reflects the voter's true preferences.",
+    strategic: 'A poll of sincere ballots picks two front-runners and strategic voters respond to it once.',
+    iterative: 'Polls are repeated, with strategic voters responding to each one, until ballots stop changing.'
+};
+
+// Methods with a strategic model; every other method is voted sincerely
+export const hasStrategicModel = (method: VotingMethod): boolean =>
+    method === 'plurality' || method === 'borda' || method === 'approval';
+
+// Stop iterating if ballots have not settled after this many polls
+export const MAX_POLLS = 20;
+
+const candidateName = (candidates: Candidate[], id: string): string =>
+    candidates.find(c => c.id === id)?.name ?? id;
+
+// Spread strategic voters evenly through the electorate rather than taking the first ones
+export const isStrategicVoter = (index: number, fraction: number): boolean =>
+    Math.floor((index + 1) * fraction) > Math.floor(index * fraction);
+
+// The two candidates with the highest poll totals, ties settled by `tieBreaker`
+export const findFrontRunners = (
+    votes: Record<string, number>,
+    candidates: Candidate[],
+    tieBreaker: TieBreaker = createTieBreaker([], candidates),
+    history: Record<string, number>[] = []
+): string[] => {
+    const ids = candidates.map(c => c.id);
+    const first = tieBreaker.pickHighest(votes, ids, 'first front-runner', history);
+    if (!first) return [];
+    const second = tieBreaker.pickHighest(votes, ids.filter(id => id !== first), 'second front-runner', history);
+    return second ? [first, second] : [first];
+};
+
+// Rewrite a sincere ballot the way a strategic voter would cast it under `method`:
+//   plurality — compromise: vote for the preferred front-runner
+//   borda     — burial: preferred front-runner first, the rival front-runner last
+//   approval  — approve every candidate better than the voter's mean utility
+// `candidates` are the ones the voter knows of, where the voter perceives them.
+export const strategicBallot = (
+    ballot: Ballot,
+    voter: Voter,
+    candidates: Candidate[],
+    method: VotingMethod,
+    frontRunners: string[],
+    space?: IssueSpace
+): Ballot => {
+    if (method === 'approval') {
+        // Every known candidate counts, including any left off a truncated ranking
+        const distances = candidates
+            .map(c => ({ id: c.id, dist: spaceDistance(voter, c, space) }))
+            .sort((a, b) => a.dist - b.dist);
+        const mean = distances.reduce((sum, c) => sum + c.dist, 0) / distances.length;
+        return { ...ballot, approved: distances.filter(c => c.dist <= mean).map(c => c.id) };
+    }
+
+    // Candidates missing from the ballot (unknown to the voter) rank below everyone
+    const rank = (id: string) => {
+        const i = ballot.ranking.indexOf(id);
+        return i === -1 ? Infinity : i;
+    };
+    const [preferred, rival] = [...frontRunners].sort((a, b) => rank(a) - rank(b) || 0);
+    if (!preferred || !rival || rank(preferred) === Infinity) return ballot;
+
+    if (method === 'plurality') {
+        return { ...ballot, ranking: [preferred, ...ballot.ranking.filter(id => id !== preferred)] };
+    }
+    if (method === 'borda') {
+        const buried = rank(rival) === Infinity ? [] : [rival];
+        return { ...ballot, ranking: [preferred, ...ballot.ranking.filter(id => id !== preferred && id !== rival), ...buried] };
+    }
+    return ballot;
+};
+
+const ballotKey = (ballots: Ballot[]): string =>
+    ballots.map(b => `${b.ranking.join(',')}|${b.approved.join(',')}`).join(';');
+
+export interface StrategyOutcome {
+    ballots: Ballot[];
+    frontRunners: string[];
+    roundDetails: string[];
+}
+
+// Replace the strategic voters' sincere ballots with strategic ones. `poll`
+// runs the election being voted in, so front-runners come from the same method.
+export const applyStrategy = (
+    voters: Voter[],
+    sincereBallots: Ballot[],
+    candidates: Candidate[],
+    method: VotingMethod,
+    strategy: VoterStrategy,
+    fraction: number,
+    poll: (ballots: Ballot[]) => ElectionResult,
+    options: ElectionOptions = {}
+): StrategyOutcome => {
+    if (strategy === 'sincere' || !hasStrategicModel(method) || fraction <= 0) {
+        return { ballots: sincereBallots, frontRunners: [], roundDetails: [] };
+    }
+
+    const strategicCount = voters.filter((_, i) => isStrategicVoter(i, fraction)).length;
+    const roundDetails = [`${strategicCount} of ${voters.length} voters are strategic`];
+    // Approval voters judge the candidates they know where they see them. The same
+    // seed redraws each voter's view exactly as their sincere ballot saw it.
+    const perceive = hasPerceptionError(options) ? createPerception(candidates, options) : () => candidates;
+    const views = method === 'approval' ? voters.map(() => perceive()) : [];
+    const revote = (frontRunners: string[]) => sincereBallots.map((ballot, i) =>
+        isStrategicVoter(i, fraction)
+            ? strategicBallot(ballot, voters[i], views[i] ?? candidates, method, frontRunners, options.space)
+            : ballot
+    );
+    // A poll has to name front-runners, so a tie the policy would report goes to candidate order
+    const tieBreaker = createTieBreaker(
+        sincereBallots,
+        candidates,
+        options.tieBreakPolicy === 'noWinner' ? { ...options, tieBreakPolicy: 'candidateOrder' } : options
+    );
+    const polls: Record<string, number>[] = [];
+
+    let ballots = sincereBallots;
+    let frontRunners: string[] = [];
+    const seen = new Map<string, number>([[ballotKey(ballots), 0]]);
+    const maxPolls = strategy === 'iterative' ? MAX_POLLS : 1;
+
+    for (let round = 1; round <= maxPolls; round++) {
+        const { votes } = poll(ballots);
+        frontRunners = findFrontRunners(votes, candidates, tieBreaker, polls);
+        polls.push(votes);
+        const next = revote(frontRunners);
+        const changed = next.filter((ballot, i) => ballotKey([ballot]) !== ballotKey([ballots[i]])).length;
+        roundDetails.push(...tieBreaker.details.splice(0));
+        roundDetails.push(
+            `Poll ${round}: front-runners ${frontRunners.map(id => candidateName(candidates, id)).join(' and ')}; ` +
+            `${changed} ballots changed`
+        );
+        ballots = next;
+
+        if (strategy !== 'iterative') return { ballots, frontRunners, roundDetails };
+        if (changed === 0) {
+            roundDetails.push(`Ballots stable after ${round} polls`);
+            return { ballots, frontRunners, roundDetails };
+        }
+
+        const key = ballotKey(ballots);
+        const previous = seen.get(key);
+        if (previous !== undefined) {
+            roundDetails.push(`Ballots cycle every ${round - previous} polls; counting the latest`);
+            return { ballots, frontRunners, roundDetails };
+        }
+        seen.set(key, round);
+    }
+
+    roundDetails.push(`Ballots still changing after ${MAX_POLLS} polls; counting the latest`);
+    return { ballots, frontRunners, roundDetails };
+};
@@ -0,0 +1,108 @@
+import { describe, expect, test } from 'vitest';
+import { runElection, runIRVElection, runPluralityElection } from './election';
+import { createRng } from './random';
+import { createTieBreaker } from './tieBreaking';
+import type { Ballot, Candidate } from './types';
+
+const candidates: Candidate[] = [
+    { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+    { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+    { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+];
+
+const ranked = (...ranking: string[]): Ballot => ({ ranking, approved: [ranking[0]] });
+
+describe('Seeded random numbers', () => {
+    test('the same seed gives the same sequence', () => {
+        const a = createRng(42);
+        const b = createRng(42);
+        const first = [a(), a(), a()];
+        expect([b(), b(), b()]).toEqual(first);
+        first.forEach(value => {
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        });
+    });
+});
+
+describe('Tie-breaking policies', () => {
+    const totals = { A: 2, B: 3, C: 3 };
+    const ids = ['A', 'B', 'C'];
+
+    test('candidate order picks the earliest tied candidate and records the tie', () => {
+        const tieBreaker = createTieBreaker([], candidates);
+        expect(tieBreaker.pickHighest(totals, ids, 'most votes')).toBe('B');
+        expect(tieBreaker.details).toEqual(['Tie for most votes between B, C: broken by candidate order (B)']);
+    });
+
+    test('no tie means nothing is recorded', () => {
+        const tieBreaker = createTieBreaker([], candidates);
+        expect(tieBreaker.pickLowest(totals, ids, 'last place')).toBe('A');
+        expect(tieBreaker.details).toEqual([]);
+    });
+
+    test('seeded random draws are reproducible', () => {
+        const draw = (seed: number) => {
+            const tieBreaker = createTieBreaker([], candidates, { tieBreakPolicy: 'random', tieBreakSeed: seed });
+            return Array.from({ length: 10 }, () => tieBreaker.pickHighest(totals, ids, 'most votes'));
+        };
+        expect(draw(7)).toEqual(draw(7));
+        expect(new Set(draw(7))).toEqual(new Set(['B', 'C']));
+    });
+
+    test('Borda count settles a tie on first preferences', () => {
+        const ballots = [ranked('B', 'A', 'C'), ranked('C', 'B', 'A'), ranked('A', 'B', 'C')];
+        const tieBreaker = createTieBreaker(ballots, candidates, { tieBreakPolicy: 'borda' });
+        expect(tieBreaker.pickHighest({ A: 1, B: 1, C: 1 }, ids, 'most votes')).toBe('B');
+        expect(tieBreaker.details[0]).toContain('broken by Borda count (B)');
+    });
+
+    test('previous-round totals look back to the latest round that differs', () => {
+        const tieBreaker = createTieBreaker([], candidates, { tieBreakPolicy: 'previousRound' });
+        const history = [{ A: 1, B: 4, C: 2 }, { A: 3, B: 3, C: 3 }];
+        expect(tieBreaker.pickLowest({ A: 3, B: 3, C: 3 }, ids, 'last place', history)).toBe('A');
+    });
+
+    test('a reported tie has no winner', () => {
+        const tieBreaker = createTieBreaker([], candidates, { tieBreakPolicy: 'noWinner' });
+        expect(tieBreaker.pickHighest(totals, ids, 'most votes')).toBeNull();
+        expect(tieBreaker.details).toEqual(['Tie for most votes between B, C: reported as no winner']);
+    });
+});
+
+describe('Ties in elections', () => {
+    const tied = [ranked('A', 'C', 'B'), ranked('B', 'C', 'A'), ranked('C', 'A', 'B')];
+
+    test('broken ties appear in the round details', () => {
+        const result = runPluralityElection(tied, candidates, { tieBreakPolicy: 'candidateOrder' });
+        expect(result.winnerId).toBe('A');
+        expect(result.roundDetails).toContain('Tie for most votes between A, B, C: broken by candidate order (A)');
+    });
+
+    test('reported ties give no winner', () => {
+        const result = runPluralityElection(tied, candidates, { tieBreakPolicy: 'noWinner' });
+        expect(result.winnerId).toBeNull();
+    });
+
+    test('IRV breaks a last-place tie using earlier rounds', () => {
+        const candidatesD: Candidate[] = [...candidates, { id: 'D', x: 2, y: 0, color: 'black', name: 'D' }];
+        // Round 1: D is last; its ballot lifts B level with C, but B had fewer votes in round 1
+        const ballots = [
+            ranked('A'), ranked('A'), ranked('A'), ranked('A'),
+            ranked('B'), ranked('B'),
+            ranked('C'), ranked('C'), ranked('C'),
+            ranked('D', 'B')
+        ];
+        const result = runIRVElection(ballots, candidatesD, { tieBreakPolicy: 'previousRound' });
+        expect(result.eliminated).toEqual(['D', 'B']);
+        expect(result.roundDetails.some(d => d.includes('broken by previous-round totals (B)'))).toBe(true);
+    });
+
+    test('the engine passes the policy through from voter positions', () => {
+        // One voter each for A and B
+        const voters = [{ id: 'v1', x: 0.1, y: 0 }, { id: 'v2', x: 0.9, y: 0 }];
+        const twoCandidates = candidates.slice(0, 2);
+        expect(runElection(voters, twoCandidates, 'plurality').winnerId).toBe('A');
+        expect(runElection(voters, twoCandidates, 'plurality', { tieBreakPolicy: 'noWinner' }).winnerId).toBeNull();
+    });
+});
@@ -0,0 +1,111 @@
+import { createRng, DEFAULT_SEED } from './random';
+import type { Ballot, Candidate, ElectionOptions, TieBreakPolicy } from './types';
+
+export const tieBreakPolicies: Record<TieBreakPolicy, string> = {
+    candidateOrder: 'Candidate order',
+    random: 'Seeded random',
+    previousRound: 'Previous-round totals',
+    borda: 'Borda count',
+    noWinner: 'Report as no winner'
+};
+
+export const DEFAULT_TIE_BREAK_SEED = DEFAULT_SEED;
+
+export interface TieBreaker {
+    // Pick the candidate with the highest (or lowest) total, settling ties by
+    // the policy. `history` holds earlier rounds' totals, most recent last.
+    // Returns null when the policy reports the tie instead of breaking it.
+    pickHighest: (totals: Record<string, number>, ids: string[], what: string, history?: Record<string, number>[]) => string | null;
+    pickLowest: (totals: Record<string, number>, ids: string[], what: string, history?: Record<string, number>[]) => string | null;
+    // Every tie met so far, and how it was settled
+    details: string[];
+}
+
+type Direction = 'highest' | 'lowest';
+
+// Keep only the ids whose total is best in the given direction
+const narrow = (totals: Record<string, number>, ids: string[], direction: Direction): string[] => {
+    const values = ids.map(id => totals[id] ?? 0);
+    const best = direction === 'highest' ? Math.max(...values) : Math.min(...values);
+    return ids.filter(id => (totals[id] ?? 0) === best);
+};
+
+export const createTieBreaker = (
+    ballots: Ballot[],
+    candidates: Candidate[],
+    options: ElectionOptions = {}
+): TieBreaker => {
+    const policy = options.tieBreakPolicy ?? 'candidateOrder';
+    const rng = createRng(options.tieBreakSeed ?? DEFAULT_TIE_BREAK_SEED);
+    const details: string[] = [];
+    let bordaTotals: Record<string, number> | null = null;
+
+    const name = (id: string) => candidates.find(c => c.id === id)?.name ?? id;
+    const order = (ids: string[]) =>
+        [...ids].sort((a, b) => candidates.findIndex(c => c.id === a) - candidates.findIndex(c => c.id === b));
+
+    const getBordaTotals = () => {
+        if (!bordaTotals) {
+            const totals: Record<string, number> = {};
+            candidates.forEach(c => totals[c.id] = 0);
+            ballots.forEach(({ ranking, weight = 1 }) => {
+                ranking.forEach((id, i) => totals[id] += (candidates.length - 1 - i) * weight);
+            });
+            bordaTotals = totals;
+        }
+        return bordaTotals;
+    };
+
+    const resolve = (tied: string[], direction: Direction, history: Record<string, number>[]): [string | null, string] => {
+        switch (policy) {
+            case 'noWinner':
+                return [null, 'reported as no winner'];
+
+            case 'random':
+                return [tied[Math.floor(rng() * tied.length)], 'broken by seeded random draw'];
+
+            case 'previousRound': {
+                let remaining = tied;
+                for (let i = history.length - 1; i >= 0 && remaining.length > 1; i--) {
+                    remaining = narrow(history[i], remaining, direction);
+                }
+                return remaining.length === 1
+                    ? [remaining[0], 'broken by previous-round totals']
+                    : [order(remaining)[0], 'still tied in previous rounds, broken by candidate order'];
+            }
+
+            case 'borda': {
+                const remaining = narrow(getBordaTotals(), tied, direction);
+                return remaining.length === 1
+                    ? [remaining[0], 'broken by Borda count']
+                    : [order(remaining)[0], 'still tied on Borda count, broken by candidate order'];
+            }
+
+            default:
+                return [order(tied)[0], 'broken by candidate order'];
+        }
+    };
+
+    const pick = (direction: Direction) => (
+        totals: Record<string, number>,
+        ids: string[],
+        what: string,
+        history: Record<string, number>[] = []
+    ): string | null => {
+        const tied = narrow(totals, ids, direction);
+        if (tied.length === 1) return tied[0];
+
+        const [choice, how] = resolve(order(tied), direction, history);
+        details.push(
+            `Tie for ${what} between ${order(tied).map(name).join(', ')}: ${how}` +
+            (choice ? ` (${name(choice)})` : '')
+        );
+        return choice;
+    };
+
+    return {
+        pickHighest: pick('highest'),
+        pickLowest: pick('lowest'),
+        details
+    };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, test } from 'vitest';
+import { effectiveTurnout, hasTurnoutModel, turnoutProbability, voterBallotWeight } from './turnout';
+import type { Candidate, Voter } from './types';
+
+const candidates: Candidate[] = [
+    { id: 'A', x: 0.2, y: 0.5, color: 'red', name: 'A' },
+    { id: 'B', x: 0.8, y: 0.5, color: 'blue', name: 'B' }
+];
+
+describe('Turnout probability', () => {
+    test('everyone votes under the full model', () => {
+        expect(turnoutProbability({ id: 'v', x: 0, y: 0 }, candidates)).toBe(1);
+        expect(hasTurnoutModel({})).toBe(false);
+        expect(hasTurnoutModel({ turnoutModel: 'full' })).toBe(false);
+    });
+
+    test('alienation falls with distance to the nearest candidate', () => {
+        const options = { turnoutModel: 'alienation' as const, turnoutSensitivity: 2 };
+        expect(turnoutProbability({ id: 'v', x: 0.2, y: 0.5 }, candidates, options)).toBe(1);
+        expect(turnoutProbability({ id: 'v', x: 0.2, y: 0 }, candidates, options)).toBeCloseTo(Math.exp(-1));
+    });
+
+    test('indifference falls as the top two candidates draw level', () => {
+        const options = { turnoutModel: 'indifference' as const, turnoutSensitivity: 2 };
+        expect(turnoutProbability({ id: 'v', x: 0.5, y: 0.5 }, candidates, options)).toBeCloseTo(0);
+        expect(turnoutProbability({ id: 'v', x: 0.2, y: 0.5 }, candidates, options)).toBeCloseTo(1 - Math.exp(-1.2));
+    });
+
+    test('group rates scale turnout for their members only', () => {
+        const options = { groupTurnout: { young: 0.4 } };
+        expect(hasTurnoutModel(options)).toBe(true);
+        expect(turnoutProbability({ id: 'v', x: 0.2, y: 0.5, group: 'young' }, candidates, options)).toBeCloseTo(0.4);
+        expect(turnoutProbability({ id: 'v', x: 0.2, y: 0.5, group: 'old' }, candidates, options)).toBe(1);
+    });
+});
+
+describe('Effective turnout', () => {
+    test('combines voter weights with turnout', () => {
+        const voters: Voter[] = [
+            { id: 'v0', x: 0.2, y: 0.5, weight: 2, group: 'a' },
+            { id: 'v1', x: 0.8, y: 0.5, group: 'b' }
+        ];
+        const options = { groupTurnout: { a: 0.5 } };
+        expect(voterBallotWeight(voters[0], candidates, options)).toBeCloseTo(1);
+        expect(effectiveTurnout(voters, candidates, options)).toEqual({ eligible: 3, voting: 2, rate: 2 / 3 });
+    });
+
+    test('is empty for an empty electorate', () => {
+        expect(effectiveTurnout([], candidates)).toEqual({ eligible: 0, voting: 0, rate: 0 });
+    });
+});
@@ -0,0 +1,54 @@
+import { spaceDistance } from './space';
+import type { Candidate, ElectionOptions, TurnoutModel, Voter } from './types';
+
+export const turnoutModels: Record<TurnoutModel, string> = {
+    full: 'Everyone votes',
+    alienation: 'Alienation',
+    indifference: 'Indifference'
+};
+
+export const turnoutDescriptions: Record<TurnoutModel, string> = {
+    full: 'Every voter turns out, apart from any fixed group turnout rates.',
+    alienation: 'Voters far from every candidate are less likely to vote: turnout is exp(-sensitivity × distance to the nearest candidate).',
+    indifference: 'Voters who see little difference between their top two candidates are less likely to vote: turnout is 1 - exp(-sensitivity × gap).'
+};
+
+export const DEFAULT_TURNOUT_SENSITIVITY = 5;
+
+export const hasTurnoutModel = (options: ElectionOptions): boolean =>
+    (options.turnoutModel ?? 'full') !== 'full' || Object.keys(options.groupTurnout ?? {}).length > 0;
+
+// Chance (0–1) that the voter casts a ballot. Turnout is judged on true positions.
+export const turnoutProbability = (voter: Voter, candidates: Candidate[], options: ElectionOptions = {}): number => {
+    const sensitivity = options.turnoutSensitivity ?? DEFAULT_TURNOUT_SENSITIVITY;
+    const groupRate = voter.group !== undefined ? options.groupTurnout?.[voter.group] ?? 1 : 1;
+    const distances = () => candidates.map(c => spaceDistance(voter, c, options.space)).sort((a, b) => a - b);
+
+    let rate = 1;
+    if (options.turnoutModel === 'alienation' && candidates.length > 0) {
+        rate = Math.exp(-sensitivity * distances()[0]);
+    } else if (options.turnoutModel === 'indifference' && candidates.length > 1) {
+        const [nearest, second] = distances();
+        rate = 1 - Math.exp(-sensitivity * (second - nearest));
+    }
+    return Math.min(1, Math.max(0, rate * groupRate));
+};
+
+// How much a voter's ballot counts. Rather than drawing who abstains, every
+// ballot counts with its expected turnout, so results do not jitter between runs.
+export const voterBallotWeight = (voter: Voter, candidates: Candidate[], options: ElectionOptions = {}): number =>
+    (voter.weight ?? 1) * (hasTurnoutModel(options) ? turnoutProbability(voter, candidates, options) : 1);
+
+export interface TurnoutSummary {
+    // Total weight of the electorate
+    eligible: number;
+    // Expected weight of the ballots cast
+    voting: number;
+    rate: number;
+}
+
+export const effectiveTurnout = (voters: Voter[], candidates: Candidate[], options: ElectionOptions = {}): TurnoutSummary => {
+    const eligible = voters.reduce((sum, v) => sum + (v.weight ?? 1), 0);
+    const voting = voters.reduce((sum, v) => sum + voterBallotWeight(v, candidates, options), 0);
+    return { eligible, voting, rate: eligible > 0 ? voting / eligible : 0 };
+};
@@ -2,6 +2,8 @@ export interface Candidate {
     id: string;
     x: number;
     y: number;
+    // Positions on issue dimensions 3 and up, when the space has more than two
+    dims?: number[];
     color: string;
     name: string;
 }
@@ -10,11 +12,171 @@ export interface Voter {
     id: string;
     x: number;
     y: number;
+    // Positions on issue dimensions 3 and up, when the space has more than two
+    dims?: number[];
+    // How much this voter's ballot counts (default 1)
+    weight?: number;
+    // The mixture cluster the voter was drawn from, for group turnout rates
+    group?: string;
 }
 
+export type DistanceMetric = 'euclidean' | 'manhattan' | 'chebyshev' | 'minkowski';
+
+// The issue space preferences are measured in. Salience weights scale each
+// dimension's difference (default 1), so a weighted Euclidean space is the
+// Euclidean metric with uneven salience.
+export interface IssueSpace {
+    dimensions: number;
+    metric: DistanceMetric;
+    // Exponent p for the Minkowski metric
+    minkowskiP?: number;
+    salience?: number[];
+}
+
+// Where generated voters are drawn from; 'mixture' uses a list of VoterClusters
+export type VoterDistribution = 'uniform' | 'normal' | 'clustered' | 'mixture';
+
+// How a voter cluster spreads around its mean: a Gaussian, a ring along its
+// two-standard-deviation ellipse, or uniformly filling that ellipse
+export type ClusterShape = 'gaussian' | 'ring' | 'uniform';
+
+// One component of a voter mixture on the x/y plane. sdX, sdY and the
+// correlation between x and y define the covariance; a non-zero correlation
+// tilts the cluster into a diagonal ellipse.
+export interface VoterCluster {
+    id: string;
+    // Relative share of voters drawn from this cluster
+    weight: number;
+    x: number;
+    y: number;
+    sdX: number;
+    sdY: number;
+    correlation: number;
+    shape: ClusterShape;
+    // Fixed share (0–1) of this cluster's voters who turn out; unset means everyone can
+    turnout?: number;
+}
+
+// A single voter's ballot. Ranked methods read `ranking` (most preferred
+// first); approval methods read `approved`; rated methods read `scores`.
+export interface Ballot {
+    ranking: string[];
+    approved: string[];
+    scores?: Record<string, number>;
+    // How much the ballot counts: the voter's weight times their chance of turning out (default 1)
+    weight?: number;
+}
+
+// Highest score a voter can give: 0–5, 0–10 or 0–100
+export type ScoreScale = 5 | 10 | 100;
+
+// How distance becomes a score. 'minMax' stretches each voter's nearest and
+// farthest candidates to the top and bottom of the scale; 'bands' gives one
+// point less per fixed-width distance band, reaching 0 at the score radius.
+export type ScoreNormalization = 'minMax' | 'bands';
+
+// matrix[a][b] is the number of voters who prefer a to b
+export type PairwiseMatrix = Record<string, Record<string, number>>;
+
 export interface ElectionResult {
-    winnerId: string;
+    // null when a tie was reported rather than broken
+    winnerId: string | null;
     roundDetails: string[];
     votes: Record<string, number>;
     eliminated?: string[];
+    pairwise?: PairwiseMatrix;
+    smithSet?: string[];
+    schwartzSet?: string[];
+    // The two front-runners strategic voters responded to, if any
+    frontRunners?: string[];
+    // The ballots counted, strategic ones included
+    ballots?: Ballot[];
+}
+
+// Result of an election that fills several seats
+export interface MultiWinnerResult {
+    winnerIds: string[];
+    // Seats won per candidate; party-list methods can award more than one
+    seats: Record<string, number>;
+    votes: Record<string, number>;
+    roundDetails: string[];
+    // For each ballot, the winner it ranks highest (null if it ranks none)
+    representatives: (string | null)[];
+}
+
+// File formats real ballots can be imported from
+export type BallotFormat = 'rankedCsv' | 'approvalCsv' | 'preflib';
+
+// Ballots loaded from a file rather than cast from voter positions.
+// Ballot ids are '1', '2', … in the order of `candidateNames`.
+export interface ImportedBallots {
+    candidateNames: string[];
+    ballots: Ballot[];
+    // Anything about the data the results should be read with
+    notes: string[];
+}
+
+// Borda points on partial ballots, for n candidates with m ranked:
+// pessimistic — n-1 for first down to n-m, unranked candidates get 0
+// modified    — m for first down to 1, unranked candidates get 0
+// averaged    — as pessimistic, but unranked candidates share the leftover points equally
+export type BordaPartialRule = 'pessimistic' | 'modified' | 'averaged';
+
+// How voters turn their preferences into ballots: sincerely, strategically
+// after one poll, or by re-voting after each poll until ballots settle
+export type VoterStrategy = 'sincere' | 'strategic' | 'iterative';
+
+// How voters behave in a benchmark: all sincere, or following the strategy model
+export type BenchmarkStrategy = 'sincere' | 'strategic';
+
+// Who abstains: nobody, voters far from every candidate (alienation), or
+// voters whose top two candidates are nearly equally close (indifference)
+export type TurnoutModel = 'full' | 'alienation' | 'indifference';
+
+// How candidates move in a positioning simulation: each tries a step in
+// every compass direction and keeps the best (best response), or steps along
+// the finite-difference slope of their standing (gradient)
+export type PositioningRule = 'bestResponse' | 'gradient';
+
+// Where a positioning simulation ended up: still moving, settled on fixed
+// positions, or revisiting earlier positions in a cycle
+export type PositioningStatus = 'running' | 'converged' | 'cycle' | 'unsettled';
+
+// What the main map colours each point by: the ballot of one voter standing
+// there, or the winner of an election among voters spread around it
+export type MapMode = 'ballot' | 'election';
+
+// Voting criteria a method can be caught violating in a scenario
+export type Criterion = 'condorcetWinner' | 'condorcetLoser' | 'independence' | 'monotonicity' | 'participation';
+
+// How ties are settled: by candidate list order, a seeded random draw, the
+// previous round's totals (IRV), Borda count, or not at all (no winner)
+export type TieBreakPolicy = 'candidateOrder' | 'random' | 'previousRound' | 'borda' | 'noWinner';
+
+export interface ElectionOptions {
+    approvalThreshold?: number;
+    scoreScale?: ScoreScale;
+    scoreNormalization?: ScoreNormalization;
+    scoreRadius?: number;
+    tieBreakPolicy?: TieBreakPolicy;
+    tieBreakSeed?: number;
+    voterStrategy?: VoterStrategy;
+    // Share of voters (0–1) who vote strategically
+    strategicFraction?: number;
+    // Rank at most this many candidates (unset ranks all)
+    maxRankings?: number;
+    // Rank only candidates within this distance (unset ranks all)
+    rankingRadius?: number;
+    bordaPartialRule?: BordaPartialRule;
+    space?: IssueSpace;
+    // Standard deviation of the error in each voter's view of candidate positions
+    perceptionNoise?: number;
+    // Chance (0–1) that a voter knows about any given candidate
+    awareness?: number;
+    perceptionSeed?: number;
+    turnoutModel?: TurnoutModel;
+    // How quickly turnout falls with distance (alienation) or closeness (indifference)
+    turnoutSensitivity?: number;
+    // Fixed turnout rate (0–1) per voter group, on top of the turnout model
+    groupTurnout?: Record<string, number>;
 }
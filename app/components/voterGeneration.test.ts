@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'vitest';
+import { mixturePresets } from './mixture';
+import type { VoterDistribution } from './types';
+import { generateVoters } from './voterGeneration';
+
+const distributions: VoterDistribution[] = ['uniform', 'normal', 'clustered', 'mixture'];
+const clusters = mixturePresets.polarised.clusters;
+
+describe('Seeded voter generation', () => {
+    test.each(distributions)('the same seed, distribution and count give identical %s voters', distribution => {
+        const first = generateVoters(200, distribution, 42, clusters);
+        const second = generateVoters(200, distribution, 42, clusters);
+        expect(second).toEqual(first);
+        expect(first).toHaveLength(200);
+    });
+
+    test('extra issue dimensions are reproducible too', () => {
+        const first = generateVoters(50, 'normal', 7, [], 4);
+        expect(generateVoters(50, 'normal', 7, [], 4)).toEqual(first);
+        first.forEach(voter => expect(voter.dims).toHaveLength(2));
+    });
+
+    test('different seeds give different voters', () => {
+        expect(generateVoters(50, 'uniform', 1)).not.toEqual(generateVoters(50, 'uniform', 2));
+    });
+
+    test.each(distributions)('%s voters stay inside the unit square', distribution => {
+        generateVoters(500, distribution, 3, clusters, 3).forEach(({ x, y, dims }) => {
+            [x, y, ...(dims ?? [])].forEach(value => {
+                expect(value).toBeGreaterThanOrEqual(0);
+                expect(value).toBeLessThanOrEqual(1);
+            });
+        });
+    });
+
+    test('an empty mixture falls back to uniform voters', () => {
+        expect(generateVoters(20, 'mixture', 5, [])).toHaveLength(20);
+    });
+});
@@ -0,0 +1,82 @@
+import { sampleMixtureClusters } from './mixture';
+import { createRng, DEFAULT_SEED, randomNormal } from './random';
+import type { Voter, VoterCluster, VoterDistribution } from './types';
+
+// Draw `count` voters from the distribution. Every random choice comes from a
+// generator seeded with `seed`, so the same seed, distribution, count, clusters
+// and dimensions always produce the identical voters. Mixture voters belong to
+// the group of the cluster they were drawn from.
+export const generateVoters = (
+    count: number,
+    distribution: VoterDistribution,
+    seed: number = DEFAULT_SEED,
+    clusters: VoterCluster[] = [],
+    dimensions: number = 2
+): Voter[] => {
+    const rng = createRng(seed);
+    const randn = () => randomNormal(rng);
+    const newVoters: Voter[] = [];
+    const mixtureSamples = distribution === 'mixture' ? sampleMixtureClusters(clusters, count, rng) : [];
+
+    // Issue dimensions beyond x and y follow the same distribution around the centre
+    const extraCoordinate = () => {
+        switch (distribution) {
+            case 'normal': {
+                let value: number;
+                do {
+                    value = 0.5 + randn() * 0.15;
+                } while (value < 0 || value > 1);
+                return value;
+            }
+            case 'clustered':
+                return Math.min(1, Math.max(0, 0.5 + randn() * 0.2));
+            default:
+                return rng();
+        }
+    };
+
+    for (let i = 0; i < count; i++) {
+        let x: number, y: number;
+        let group: string | undefined;
+
+        switch (distribution) {
+            case 'normal':
+                const standardDev = 0.15;
+
+                // Generate values until we get one in bounds
+                // This avoids edge accumulation
+                do {
+                    x = 0.5 + (randn() * standardDev);
+                    y = 0.5 + (randn() * standardDev);
+                } while (x < 0 || x > 1 || y < 0 || y > 1);
+                break;
+
+            case 'clustered':
+                const centres = [[0.3, 0.3], [0.7, 0.7], [0.5, 0.5]];
+                const centre = centres[Math.floor(rng() * centres.length)];
+                x = Math.min(1, Math.max(0, centre[0] + (randn() * 0.2)));
+                y = Math.min(1, Math.max(0, centre[1] + (randn() * 0.2)));
+                break;
+
+            case 'mixture':
+                // An empty mixture falls back to uniform
+                [x, y] = mixtureSamples[i]?.point ?? [rng(), rng()];
+                group = mixtureSamples[i]?.clusterId;
+                break;
+
+            default: // uniform
+                x = rng();
+                y = rng();
+        }
+
+        newVoters.push({
+            id: `voter-${i}`,
+            x,
+            y,
+            ...(dimensions > 2 && { dims: Array.from({ length: dimensions - 2 }, extraCoordinate) }),
+            ...(group !== undefined && { group })
+        });
+    }
+
+    return newVoters;
+};
@@ -1,6 +1,6 @@
 import { describe, expect, test } from 'vitest';
 import type { Candidate } from './types';
-import { distance, getVoterPreference, votingMethods } from './votingMethods';
+import { distance, getRankedPreferences, getVoterPreference, votingMethods } from './votingMethods';
 
 describe('Voting utility functions', () => {
     test('distance calculation', () => {
@@ -174,3 +174,49 @@ describe('Smith Set + Approval voting', () => {
       expect(vote).toEqual(['A']);
   });
 });
+
+describe('Score voting', () => {
+  const candidates: Candidate[] = [
+      { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+      { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+      { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+  ];
+
+  test('min/max normalisation spans the whole scale', () => {
+      expect(votingMethods.score(0, 0, candidates, 5, 'minMax')).toEqual({ A: 5, C: 3, B: 0 });
+      expect(votingMethods.score(0, 0, candidates, 100, 'minMax')).toEqual({ A: 100, C: 50, B: 0 });
+  });
+
+  test('distance bands score by absolute distance', () => {
+      // Bands of width 0.1 up to a zero-score radius of 0.5
+      expect(votingMethods.score(0, 0, candidates, 5, 'bands', 0.5)).toEqual({ A: 5, C: 0, B: 0 });
+      expect(votingMethods.score(0.35, 0, candidates, 5, 'bands', 0.5)).toEqual({ A: 2, C: 4, B: 0 });
+  });
+
+  test('STAR ballots are score ballots', () => {
+      expect(votingMethods.star(0, 0, candidates, 10)).toEqual(votingMethods.score(0, 0, candidates, 10));
+  });
+});
+
+describe('Truncated rankings', () => {
+  const candidates: Candidate[] = [
+      { id: 'A', x: 0, y: 0, color: 'red', name: 'A' },
+      { id: 'B', x: 1, y: 0, color: 'blue', name: 'B' },
+      { id: 'C', x: 0.5, y: 0, color: 'green', name: 'C' }
+  ];
+
+  test('ranks every candidate by default', () => {
+      expect(votingMethods.irv(0, 0, candidates)).toEqual(['A', 'C', 'B']);
+  });
+
+  test('ranks at most k candidates', () => {
+      expect(votingMethods.irv(0, 0, candidates, 2)).toEqual(['A', 'C']);
+      expect(votingMethods.borda(0, 0, candidates, 1)).toEqual(['A']);
+  });
+
+  test('ranks only candidates within the distance cutoff', () => {
+      expect(getRankedPreferences(0.2, 0, candidates, undefined, 0.4).map(p => p.id)).toEqual(['A', 'C']);
+      expect(votingMethods.irv(0.2, 0, candidates, 1, 0.4)).toEqual(['A']);
+      expect(votingMethods.irv(0.2, 0, candidates, undefined, 0.1)).toEqual([]);
+  });
+});
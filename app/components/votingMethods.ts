@@ -1,103 +1,151 @@
-import { Candidate } from './types';
+import { DEFAULT_SPACE, spaceDistance } from './space';
+import type { Candidate, IssueSpace, ScoreNormalization, ScoreScale } from './types';
 
 // Constants
 export const methods = {
     plurality: 'Plurality',
     approval: 'Approval',
     borda: 'Borda Count',
+    score: 'Score',
+    star: 'STAR',
     irv: 'Instant Runoff',
-    smithApproval: 'Smith Set + Approval'
+    smithApproval: 'Smith Set + Approval',
+    schulze: 'Schulze',
+    rankedPairs: 'Ranked Pairs',
+    minimax: 'Minimax',
+    copeland: 'Copeland'
 };
 
 export const methodDescriptions = {
     plurality: "Each voter chooses their closest candidate. The candidate with the most votes wins.",
     approval: "Voters 'approve' all candidates within a certain distance. The most approved candidate wins.",
-    borda: "Voters rank candidates by distance. Each rank gives points (n-1 for 1st, n-2 for 2nd, etc.). Highest points wins.",
-    irv: "Voters rank by distance. If no majority, eliminate last place and retry with remaining candidates.",
-    smithApproval: "First finds candidates who beat all others outside their set in pairwise matchups (Smith set), then uses approval voting among them."
+    borda: "Voters rank candidates by distance. Each rank gives points (n-1 for 1st, n-2 for 2nd, etc.); a rule decides what unranked candidates get on partial ballots. Highest points wins.",
+    score: "Voters score every candidate on a scale, higher for closer candidates. The highest total score wins.",
+    star: "Score Then Automatic Runoff: voters score candidates, the two highest scorers go to a runoff, and the one scored higher on more ballots wins.",
+    irv: "Voters rank by distance. If no majority of continuing ballots, eliminate last place and retry with remaining candidates; ballots ranking none of them are exhausted.",
+    smithApproval: "First finds the candidates who beat everyone outside their group in head-to-head matchups across the whole electorate (Smith set), then uses approval voting among them.",
+    schulze: "Voters rank by distance. Candidates are compared by their strongest chain of pairwise wins (beatpaths); the candidate no one beats that way wins.",
+    rankedPairs: "Voters rank by distance. Pairwise majorities are locked in from largest to smallest, skipping any that would create a cycle. The candidate never locked below another wins.",
+    minimax: "Voters rank by distance. Each candidate's worst pairwise defeat is measured; the candidate whose worst defeat is smallest wins.",
+    copeland: "Voters rank by distance. Candidates get a point for each pairwise win and half a point for each tie. Most points wins."
+};
+
+// What each method's tally counts, for labelling results
+export const scoreUnits = {
+    plurality: 'votes',
+    approval: 'approvals',
+    borda: 'points',
+    score: 'points',
+    star: 'points',
+    irv: 'votes',
+    smithApproval: 'approvals',
+    schulze: 'beatpath wins',
+    rankedPairs: 'locked wins',
+    minimax: 'worst-defeat margin',
+    copeland: 'Copeland points'
 };
 
 // Utility functions
 export const distance = (x1: number, y1: number, x2: number, y2: number): number =>
     Math.sqrt((x2 - x1) ** 2 + (y2 - y1) ** 2);
 
-function getPairwisePreferences(voterX: number, voterY: number, candidates: Candidate[]): [string, string][] {
-  const prefs = getVoterPreference(voterX, voterY, candidates);
-  const pairs: [string, string][] = [];
-  
-  // Create all possible pairs in order of preference
-  for (let i = 0; i < prefs.length; i++) {
-      for (let j = i + 1; j < prefs.length; j++) {
-          pairs.push([prefs[i].id, prefs[j].id]);
-      }
-  }
-  
-  return pairs;
-}
-
-function findSmithSet(voterX: number, voterY: number, candidates: Candidate[]): Set<string> {
-  const pairs = getPairwisePreferences(voterX, voterY, candidates);
-  const defeats = new Map<string, Set<string>>();
-  
-  // Initialize defeats map
-  candidates.forEach(c => defeats.set(c.id, new Set<string>()));
-  
-  // Record all pairwise defeats
-  pairs.forEach(([winner, loser]) => {
-      defeats.get(winner)?.add(loser);
-  });
-  
-  // Find Smith set
-  const smithSet = new Set<string>(candidates.map(c => c.id));
-  let changed = true;
-  
-  while (changed) {
-      changed = false;
-      for (const candidate of smithSet) {
-          for (const other of smithSet) {
-              if (candidate !== other) {
-                  // If candidate doesn't beat other, and other beats candidate
-                  if (!defeats.get(candidate)?.has(other) && defeats.get(other)?.has(candidate)) {
-                      smithSet.delete(candidate);
-                      changed = true;
-                      break;
-                  }
-              }
-          }
-          if (changed) break;
-      }
-  }
-  
-  return smithSet;
-}
-
+// Candidates ordered nearest first. `space` sets the dimensions, metric and
+// salience; `voterDims` holds the voter's coordinates beyond x and y.
 export const getVoterPreference = (
     voterX: number, 
     voterY: number, 
-    candidates: Candidate[]
+    candidates: Candidate[],
+    space: IssueSpace = DEFAULT_SPACE,
+    voterDims: number[] = []
 ) => {
+    const voter = { x: voterX, y: voterY, dims: voterDims };
     return candidates
         .map((candidate) => ({
             id: candidate.id,
-            dist: distance(voterX, voterY, candidate.x, candidate.y)
+            dist: spaceDistance(voter, candidate, space)
         }))
         .sort((a, b) => a.dist - b.dist);
 };
 
-// Voting method implementations
+// The candidates a voter bothers to rank, nearest first: only those within
+// `rankingRadius` and at most `maxRankings` of them. Unset limits rank everyone.
+export const getRankedPreferences = (
+    voterX: number,
+    voterY: number,
+    candidates: Candidate[],
+    maxRankings?: number,
+    rankingRadius?: number,
+    space?: IssueSpace,
+    voterDims?: number[]
+) => {
+    const prefs = getVoterPreference(voterX, voterY, candidates, space, voterDims)
+        .filter(p => rankingRadius === undefined || p.dist <= rankingRadius);
+    return maxRankings === undefined ? prefs : prefs.slice(0, maxRankings);
+};
+
+// Convert distances into scores on a 0..scoreScale scale
+export const getVoterScores = (
+    voterX: number,
+    voterY: number,
+    candidates: Candidate[],
+    scoreScale: ScoreScale = 5,
+    normalization: ScoreNormalization = 'minMax',
+    scoreRadius: number = 0.5,
+    space?: IssueSpace,
+    voterDims?: number[]
+): Record<string, number> => {
+    const prefs = getVoterPreference(voterX, voterY, candidates, space, voterDims);
+    const scores: Record<string, number> = {};
+    if (prefs.length === 0) return scores;
+
+    if (normalization === 'bands') {
+        const bandWidth = scoreRadius / scoreScale;
+        prefs.forEach(p => {
+            scores[p.id] = Math.max(0, scoreScale - Math.floor(p.dist / bandWidth));
+        });
+    } else {
+        const nearest = prefs[0].dist;
+        const farthest = prefs[prefs.length - 1].dist;
+        prefs.forEach(p => {
+            scores[p.id] = farthest === nearest
+                ? scoreScale
+                : Math.round(scoreScale * (farthest - p.dist) / (farthest - nearest));
+        });
+    }
+
+    return scores;
+};
+
+// Voting method implementations. Each takes the voter's x/y position and
+// optionally the issue space and the voter's further coordinates last.
 export const votingMethods = {
-    plurality: (voterX: number, voterY: number, candidates: Candidate[]) => {
-        return [getVoterPreference(voterX, voterY, candidates)[0].id];
+    plurality: (voterX: number, voterY: number, candidates: Candidate[], space?: IssueSpace, voterDims?: number[]) => {
+        return [getVoterPreference(voterX, voterY, candidates, space, voterDims)[0].id];
     },
 
-    approval: (voterX: number, voterY: number, candidates: Candidate[], approvalThreshold: number) => {
-        const prefs = getVoterPreference(voterX, voterY, candidates);
+    approval: (
+        voterX: number,
+        voterY: number,
+        candidates: Candidate[],
+        approvalThreshold: number,
+        space?: IssueSpace,
+        voterDims?: number[]
+    ) => {
+        const prefs = getVoterPreference(voterX, voterY, candidates, space, voterDims);
         const approvedCandidates = prefs.filter(p => p.dist <= approvalThreshold);
         return approvedCandidates.length > 0 ? approvedCandidates.map(c => c.id) : [prefs[0].id];
     },
 
-    borda: (voterX: number, voterY: number, candidates: Candidate[]) => {
-        const prefs = getVoterPreference(voterX, voterY, candidates);
+    borda: (
+        voterX: number,
+        voterY: number,
+        candidates: Candidate[],
+        maxRankings?: number,
+        rankingRadius?: number,
+        space?: IssueSpace,
+        voterDims?: number[]
+    ) => {
+        const prefs = getRankedPreferences(voterX, voterY, candidates, maxRankings, rankingRadius, space, voterDims);
         const points = new Map<string, number>();
 
         prefs.forEach((p, i) => {
@@ -109,139 +157,74 @@ export const votingMethods = {
             .map(([id]) => id);
     },
 
-    irv: (voterX: number, voterY: number, candidates: Candidate[]) => {
-        return getVoterPreference(voterX, voterY, candidates).map(p => p.id);
+    score: (
+        voterX: number,
+        voterY: number,
+        candidates: Candidate[],
+        scoreScale: ScoreScale = 5,
+        normalization: ScoreNormalization = 'minMax',
+        scoreRadius: number = 0.5,
+        space?: IssueSpace,
+        voterDims?: number[]
+    ) => {
+        return getVoterScores(voterX, voterY, candidates, scoreScale, normalization, scoreRadius, space, voterDims);
     },
 
-    smithApproval: (voterX: number, voterY: number, candidates: Candidate[], approvalThreshold: number = 0.3) => {
-      // First find the Smith set
-      const smithSet = findSmithSet(voterX, voterY, candidates);
-      
-      // Then run approval voting only among Smith set members
-      const smithCandidates = candidates.filter(c => smithSet.has(c.id));
-      return votingMethods.approval(voterX, voterY, smithCandidates, approvalThreshold);
-  }
-};
+    // STAR ballots are ordinary score ballots; the runoff happens in the tally
+    star: (
+        voterX: number,
+        voterY: number,
+        candidates: Candidate[],
+        scoreScale: ScoreScale = 5,
+        normalization: ScoreNormalization = 'minMax',
+        scoreRadius: number = 0.5,
+        space?: IssueSpace,
+        voterDims?: number[]
+    ) => {
+        return getVoterScores(voterX, voterY, candidates, scoreScale, normalization, scoreRadius, space, voterDims);
+    },
+
+    irv: (
+        voterX: number,
+        voterY: number,
+        candidates: Candidate[],
+        maxRankings?: number,
+        rankingRadius?: number,
+        space?: IssueSpace,
+        voterDims?: number[]
+    ) => {
+        return getRankedPreferences(voterX, voterY, candidates, maxRankings, rankingRadius, space, voterDims).map(p => p.id);
+    },
+
+    // Condorcet methods all use a full ranking by distance
+    schulze: (voterX: number, voterY: number, candidates: Candidate[], space?: IssueSpace, voterDims?: number[]) => {
+        return getVoterPreference(voterX, voterY, candidates, space, voterDims).map(p => p.id);
+    },
+
+    rankedPairs: (voterX: number, voterY: number, candidates: Candidate[], space?: IssueSpace, voterDims?: number[]) => {
+        return getVoterPreference(voterX, voterY, candidates, space, voterDims).map(p => p.id);
+    },
+
+    minimax: (voterX: number, voterY: number, candidates: Candidate[], space?: IssueSpace, voterDims?: number[]) => {
+        return getVoterPreference(voterX, voterY, candidates, space, voterDims).map(p => p.id);
+    },
 
-// // Election running functions
-// export const runPluralityElection = (
-//     voters: Voter[], 
-//     candidates: Candidate[]
-// ): ElectionResult => {
-//     const votes: Record<string, number> = {};
-//     candidates.forEach(c => votes[c.id] = 0);
-
-//     voters.forEach(voter => {
-//         const pref = getVoterPreference(voter.x, voter.y, candidates);
-//         votes[pref[0].id]++;
-//     });
-
-//     const winnerId = Object.entries(votes)
-//         .reduce((a, b) => a[1] > b[1] ? a : b)[0];
-
-//     return {
-//         winnerId,
-//         votes,
-//         roundDetails: [`Total votes: ${voters.length}`]
-//     };
-// };
-
-// export const runApprovalElection = (
-//     voters: Voter[], 
-//     candidates: Candidate[],
-//     approvalThreshold: number
-// ): ElectionResult => {
-//     const votes: Record<string, number> = {};
-//     candidates.forEach(c => votes[c.id] = 0);
-
-//     voters.forEach(voter => {
-//         const prefs = getVoterPreference(voter.x, voter.y, candidates);
-//         prefs.forEach(p => {
-//             if (p.dist <= approvalThreshold) {
-//                 votes[p.id]++;
-//             }
-//         });
-//     });
-
-//     const winnerId = Object.entries(votes)
-//         .reduce((a, b) => a[1] > b[1] ? a : b)[0];
-
-//     return {
-//         winnerId,
-//         votes,
-//         roundDetails: [`Average approvals per voter: ${(Object.values(votes).reduce((a, b) => a + b, 0) / voters.length).toFixed(2)}`]
-//     };
-// };
-
-// export const runBordaElection = (
-//     voters: Voter[], 
-//     candidates: Candidate[]
-// ): ElectionResult => {
-//     const votes: Record<string, number> = {};
-//     candidates.forEach(c => votes[c.id] = 0);
-
-//     voters.forEach(voter => {
-//         const prefs = getVoterPreference(voter.x, voter.y, candidates);
-//         prefs.forEach((p, i) => {
-//             votes[p.id] += candidates.length - 1 - i;
-//         });
-//     });
-
-//     const winnerId = Object.entries(votes)
-//         .reduce((a, b) => a[1] > b[1] ? a : b)[0];
-
-//     return {
-//         winnerId,
-//         votes,
-//         roundDetails: [`Total Borda points: ${Object.values(votes).reduce((a, b) => a + b, 0)}`]
-//     };
-// };
-
-// export const runIRVElection = (
-//     voters: Voter[], 
-//     candidates: Candidate[]
-// ): ElectionResult => {
-//     let remainingCandidates = [...candidates];
-//     const roundDetails: string[] = [];
-//     const eliminated: string[] = [];
-
-//     while (remainingCandidates.length > 1) {
-//         const roundVotes: Record<string, number> = {};
-//         remainingCandidates.forEach(c => roundVotes[c.id] = 0);
-
-//         voters.forEach(voter => {
-//             const prefs = getVoterPreference(voter.x, voter.y, candidates)
-//                 .filter(p => remainingCandidates.some(c => c.id === p.id));
-//             roundVotes[prefs[0].id]++;
-//         });
-
-//         const majorityNeeded = voters.length / 2;
-//         const leader = Object.entries(roundVotes)
-//             .reduce((a, b) => a[1] > b[1] ? a : b);
-
-//         if (leader[1] > majorityNeeded) {
-//             return {
-//                 winnerId: leader[0],
-//                 votes: roundVotes,
-//                 roundDetails: [...roundDetails, `Final round: ${leader[0]} wins with ${leader[1]} votes`],
-//                 eliminated
-//             };
-//         }
-
-//         const loser = Object.entries(roundVotes)
-//             .reduce((a, b) => a[1] < b[1] ? a : b);
-//         remainingCandidates = remainingCandidates.filter(c => c.id !== loser[0]);
-//         eliminated.push(loser[0]);
-
-//         roundDetails.push(
-//             `Round ${roundDetails.length + 1}: ${candidates.find(c => c.id === loser[0])?.name} eliminated with ${loser[1]} votes`
-//         );
-//     }
-
-//     return {
-//         winnerId: remainingCandidates[0].id,
-//         votes: { [remainingCandidates[0].id]: voters.length },
-//         roundDetails,
-//         eliminated
-//     };
-// };
+    copeland: (voterX: number, voterY: number, candidates: Candidate[], space?: IssueSpace, voterDims?: number[]) => {
+        return getVoterPreference(voterX, voterY, candidates, space, voterDims).map(p => p.id);
+    },
+
+    // Approval restricted to the Smith set, which is found from the whole
+    // electorate (see runSmithApprovalElection); defaults to every candidate
+    smithApproval: (
+        voterX: number,
+        voterY: number,
+        candidates: Candidate[],
+        approvalThreshold: number = 0.3,
+        smithSet: string[] = candidates.map(c => c.id),
+        space?: IssueSpace,
+        voterDims?: number[]
+    ) => {
+        const smithCandidates = candidates.filter(c => smithSet.includes(c.id));
+        return votingMethods.approval(voterX, voterY, smithCandidates, approvalThreshold, space, voterDims);
+    }
+};
@@ -1,11 +1,14 @@
 "use client"
 
+import { Suspense } from 'react';
 import { VotingMethodViz } from './components/VotingMethodViz';
 
 export default function Home() {
     return (
         <main className="flex min-h-screen flex-col items-center justify-between p-24">
-            <VotingMethodViz />
+            <Suspense fallback={<div>Loading visualization...</div>}>
+                <VotingMethodViz />
+            </Suspense>
         </main>
     )
 }